@@ -0,0 +1,4 @@
+ALTER TABLE allowances ADD `timezone` text DEFAULT 'UTC';--> statement-breakpoint
+ALTER TABLE allowances ADD `day_started_at` integer;--> statement-breakpoint
+ALTER TABLE allowances ADD `week_started_at` integer;--> statement-breakpoint
+ALTER TABLE allowances ADD `month_started_at` integer;
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE `category_limits` (
+	`id` text PRIMARY KEY NOT NULL,
+	`allowance_id` text NOT NULL,
+	`category` text NOT NULL,
+	`daily_limit` real DEFAULT 0,
+	`weekly_limit` real DEFAULT 0,
+	`monthly_limit` real DEFAULT 0,
+	`blocked` integer DEFAULT false,
+	`created_at` integer DEFAULT 1792433326094
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `category_limits_allowance_category_idx` ON `category_limits` (`allowance_id`,`category`);
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE `recipient_rules` (
+	`id` text PRIMARY KEY NOT NULL,
+	`allowance_id` text NOT NULL,
+	`recipient` text NOT NULL,
+	`kind` text NOT NULL,
+	`created_at` integer DEFAULT 1792433403893
+);
+--> statement-breakpoint
+ALTER TABLE allowances ADD `recipient_policy` text DEFAULT 'open';--> statement-breakpoint
+CREATE UNIQUE INDEX `recipient_rules_allowance_recipient_idx` ON `recipient_rules` (`allowance_id`,`recipient`);
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE `spend_holds` (
+	`id` text PRIMARY KEY NOT NULL,
+	`allowance_id` text NOT NULL,
+	`agent_id` text NOT NULL,
+	`amount` real NOT NULL,
+	`captured_amount` real DEFAULT 0,
+	`category` text NOT NULL,
+	`recipient` text NOT NULL,
+	`status` text DEFAULT 'active',
+	`transaction_id` text,
+	`expires_at` integer NOT NULL,
+	`settled_at` integer,
+	`created_at` integer DEFAULT 1792433486139
+);
\ No newline at end of file
@@ -0,0 +1,40 @@
+CREATE TABLE `allowance_approvers` (
+	`id` text PRIMARY KEY NOT NULL,
+	`allowance_id` text NOT NULL,
+	`approver_id` text NOT NULL,
+	`created_at` integer DEFAULT 1792433642224
+);
+--> statement-breakpoint
+CREATE TABLE `approval_votes` (
+	`id` text PRIMARY KEY NOT NULL,
+	`approval_id` text NOT NULL,
+	`approver_id` text NOT NULL,
+	`decision` text NOT NULL,
+	`comment` text,
+	`created_at` integer DEFAULT 1792433642224
+);
+--> statement-breakpoint
+CREATE TABLE `spend_approvals` (
+	`id` text PRIMARY KEY NOT NULL,
+	`kind` text NOT NULL,
+	`allowance_id` text NOT NULL,
+	`agent_id` text NOT NULL,
+	`amount` real NOT NULL,
+	`category` text NOT NULL,
+	`recipient` text NOT NULL,
+	`invoice_id` text,
+	`hold_ttl_seconds` integer,
+	`reason` text NOT NULL,
+	`approvals_required` integer NOT NULL,
+	`status` text DEFAULT 'pending_approval',
+	`transaction_id` text,
+	`hold_id` text,
+	`failure_reason` text,
+	`resolved_at` integer,
+	`created_at` integer DEFAULT 1792433642224
+);
+--> statement-breakpoint
+ALTER TABLE allowances ADD `approval_threshold` real DEFAULT 0;--> statement-breakpoint
+ALTER TABLE allowances ADD `approvals_required` integer DEFAULT 1;--> statement-breakpoint
+CREATE UNIQUE INDEX `allowance_approvers_allowance_approver_idx` ON `allowance_approvers` (`allowance_id`,`approver_id`);--> statement-breakpoint
+CREATE UNIQUE INDEX `approval_votes_approval_approver_idx` ON `approval_votes` (`approval_id`,`approver_id`);
\ No newline at end of file
@@ -0,0 +1,6 @@
+ALTER TABLE allowances ADD `rollover` integer DEFAULT false;--> statement-breakpoint
+ALTER TABLE allowances ADD `rollover_cap_percent` integer DEFAULT 100;--> statement-breakpoint
+ALTER TABLE allowances ADD `rollover_expiry_hours` integer DEFAULT 0;--> statement-breakpoint
+ALTER TABLE allowances ADD `daily_carryover` real DEFAULT 0;--> statement-breakpoint
+ALTER TABLE allowances ADD `weekly_carryover` real DEFAULT 0;--> statement-breakpoint
+ALTER TABLE allowances ADD `monthly_carryover` real DEFAULT 0;
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE `budget_pools` (
+	`id` text PRIMARY KEY NOT NULL,
+	`owner_id` text NOT NULL,
+	`name` text NOT NULL,
+	`parent_pool_id` text,
+	`daily_limit` real DEFAULT 0,
+	`weekly_limit` real DEFAULT 0,
+	`monthly_limit` real DEFAULT 0,
+	`timezone` text DEFAULT 'UTC',
+	`status` text DEFAULT 'active',
+	`created_at` integer DEFAULT 1792433850579
+);
+--> statement-breakpoint
+ALTER TABLE allowances ADD `pool_id` text;
\ No newline at end of file
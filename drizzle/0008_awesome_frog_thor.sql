@@ -0,0 +1,2 @@
+ALTER TABLE allowances ADD `is_default` integer DEFAULT false;--> statement-breakpoint
+ALTER TABLE allowances ADD `priority` integer DEFAULT 0;
\ No newline at end of file
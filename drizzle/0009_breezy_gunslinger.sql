@@ -0,0 +1,18 @@
+CREATE TABLE `velocity_violations` (
+	`id` text PRIMARY KEY NOT NULL,
+	`allowance_id` text NOT NULL,
+	`agent_id` text NOT NULL,
+	`rule` text NOT NULL,
+	`action` text NOT NULL,
+	`amount` real NOT NULL,
+	`detail` text NOT NULL,
+	`created_at` integer DEFAULT 1792434053977
+);
+--> statement-breakpoint
+ALTER TABLE allowances ADD `max_tx_per_minute` integer DEFAULT 0;--> statement-breakpoint
+ALTER TABLE allowances ADD `max_tx_per_hour` integer DEFAULT 0;--> statement-breakpoint
+ALTER TABLE allowances ADD `max_single_amount` real DEFAULT 0;--> statement-breakpoint
+ALTER TABLE allowances ADD `anomaly_multiplier` real DEFAULT 0;--> statement-breakpoint
+ALTER TABLE allowances ADD `cooldown_after_denials` integer DEFAULT 0;--> statement-breakpoint
+ALTER TABLE allowances ADD `cooldown_minutes` integer DEFAULT 15;--> statement-breakpoint
+ALTER TABLE allowances ADD `cooldown_until` integer;
\ No newline at end of file
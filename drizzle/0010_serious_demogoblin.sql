@@ -0,0 +1,5 @@
+ALTER TABLE allowances ADD `starts_at` integer;--> statement-breakpoint
+ALTER TABLE allowances ADD `expires_at` integer;--> statement-breakpoint
+ALTER TABLE allowances ADD `active_hours_start` integer;--> statement-breakpoint
+ALTER TABLE allowances ADD `active_hours_end` integer;--> statement-breakpoint
+ALTER TABLE allowances ADD `active_weekdays` text;
\ No newline at end of file
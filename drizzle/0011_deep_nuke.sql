@@ -0,0 +1,11 @@
+CREATE TABLE `limit_alerts` (
+	`id` text PRIMARY KEY NOT NULL,
+	`allowance_id` text NOT NULL,
+	`period` text NOT NULL,
+	`period_start` integer NOT NULL,
+	`threshold` integer NOT NULL,
+	`created_at` integer DEFAULT 1792434222776
+);
+--> statement-breakpoint
+ALTER TABLE allowances ADD `warning_thresholds` text DEFAULT '50,80,95';--> statement-breakpoint
+CREATE UNIQUE INDEX `limit_alerts_allowance_period_threshold_idx` ON `limit_alerts` (`allowance_id`,`period`,`period_start`,`threshold`);
\ No newline at end of file
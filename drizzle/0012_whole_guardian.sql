@@ -0,0 +1,228 @@
+-- Amounts move from REAL to integer base units stored as text (USDC: 6 decimals).
+-- Invoices are converted at the scale of their own currency.
+CREATE TABLE `__new_allowances` (
+	`id` text PRIMARY KEY NOT NULL,
+	`agent_id` text NOT NULL,
+	`owner_id` text NOT NULL,
+	`daily_limit` text DEFAULT '0',
+	`weekly_limit` text DEFAULT '0',
+	`monthly_limit` text DEFAULT '0',
+	`spent_today` text DEFAULT '0',
+	`spent_this_week` text DEFAULT '0',
+	`spent_this_month` text DEFAULT '0',
+	`currency` text DEFAULT 'USDC',
+	`status` text DEFAULT 'active',
+	`timezone` text DEFAULT 'UTC',
+	`day_started_at` integer,
+	`week_started_at` integer,
+	`month_started_at` integer,
+	`recipient_policy` text DEFAULT 'open',
+	`approval_threshold` text DEFAULT '0',
+	`approvals_required` integer DEFAULT 1,
+	`rollover` integer DEFAULT false,
+	`rollover_cap_percent` integer DEFAULT 100,
+	`rollover_expiry_hours` integer DEFAULT 0,
+	`daily_carryover` text DEFAULT '0',
+	`weekly_carryover` text DEFAULT '0',
+	`monthly_carryover` text DEFAULT '0',
+	`pool_id` text,
+	`is_default` integer DEFAULT false,
+	`priority` integer DEFAULT 0,
+	`max_tx_per_minute` integer DEFAULT 0,
+	`max_tx_per_hour` integer DEFAULT 0,
+	`max_single_amount` text DEFAULT '0',
+	`anomaly_multiplier` real DEFAULT 0,
+	`cooldown_after_denials` integer DEFAULT 0,
+	`cooldown_minutes` integer DEFAULT 15,
+	`cooldown_until` integer,
+	`starts_at` integer,
+	`expires_at` integer,
+	`active_hours_start` integer,
+	`active_hours_end` integer,
+	`active_weekdays` text,
+	`warning_thresholds` text DEFAULT '50,80,95',
+	`created_at` integer DEFAULT 1792434698871
+);
+--> statement-breakpoint
+INSERT INTO `__new_allowances` (`id`, `agent_id`, `owner_id`, `daily_limit`, `weekly_limit`, `monthly_limit`, `spent_today`, `spent_this_week`, `spent_this_month`, `status`, `timezone`, `day_started_at`, `week_started_at`, `month_started_at`, `recipient_policy`, `approval_threshold`, `approvals_required`, `rollover`, `rollover_cap_percent`, `rollover_expiry_hours`, `daily_carryover`, `weekly_carryover`, `monthly_carryover`, `pool_id`, `is_default`, `priority`, `max_tx_per_minute`, `max_tx_per_hour`, `max_single_amount`, `anomaly_multiplier`, `cooldown_after_denials`, `cooldown_minutes`, `cooldown_until`, `starts_at`, `expires_at`, `active_hours_start`, `active_hours_end`, `active_weekdays`, `warning_thresholds`, `created_at`)
+SELECT `id`, `agent_id`, `owner_id`, printf('%.0f', coalesce(`daily_limit`, 0) * 1e6), printf('%.0f', coalesce(`weekly_limit`, 0) * 1e6), printf('%.0f', coalesce(`monthly_limit`, 0) * 1e6), printf('%.0f', coalesce(`spent_today`, 0) * 1e6), printf('%.0f', coalesce(`spent_this_week`, 0) * 1e6), printf('%.0f', coalesce(`spent_this_month`, 0) * 1e6), `status`, `timezone`, `day_started_at`, `week_started_at`, `month_started_at`, `recipient_policy`, printf('%.0f', coalesce(`approval_threshold`, 0) * 1e6), `approvals_required`, `rollover`, `rollover_cap_percent`, `rollover_expiry_hours`, printf('%.0f', coalesce(`daily_carryover`, 0) * 1e6), printf('%.0f', coalesce(`weekly_carryover`, 0) * 1e6), printf('%.0f', coalesce(`monthly_carryover`, 0) * 1e6), `pool_id`, `is_default`, `priority`, `max_tx_per_minute`, `max_tx_per_hour`, printf('%.0f', coalesce(`max_single_amount`, 0) * 1e6), `anomaly_multiplier`, `cooldown_after_denials`, `cooldown_minutes`, `cooldown_until`, `starts_at`, `expires_at`, `active_hours_start`, `active_hours_end`, `active_weekdays`, `warning_thresholds`, `created_at`
+FROM `allowances`;
+--> statement-breakpoint
+DROP TABLE `allowances`;
+--> statement-breakpoint
+ALTER TABLE `__new_allowances` RENAME TO `allowances`;
+--> statement-breakpoint
+CREATE TABLE `__new_budget_pools` (
+	`id` text PRIMARY KEY NOT NULL,
+	`owner_id` text NOT NULL,
+	`name` text NOT NULL,
+	`parent_pool_id` text,
+	`currency` text DEFAULT 'USDC',
+	`daily_limit` text DEFAULT '0',
+	`weekly_limit` text DEFAULT '0',
+	`monthly_limit` text DEFAULT '0',
+	`timezone` text DEFAULT 'UTC',
+	`status` text DEFAULT 'active',
+	`created_at` integer DEFAULT 1792434698872
+);
+--> statement-breakpoint
+INSERT INTO `__new_budget_pools` (`id`, `owner_id`, `name`, `parent_pool_id`, `daily_limit`, `weekly_limit`, `monthly_limit`, `timezone`, `status`, `created_at`)
+SELECT `id`, `owner_id`, `name`, `parent_pool_id`, printf('%.0f', coalesce(`daily_limit`, 0) * 1e6), printf('%.0f', coalesce(`weekly_limit`, 0) * 1e6), printf('%.0f', coalesce(`monthly_limit`, 0) * 1e6), `timezone`, `status`, `created_at`
+FROM `budget_pools`;
+--> statement-breakpoint
+DROP TABLE `budget_pools`;
+--> statement-breakpoint
+ALTER TABLE `__new_budget_pools` RENAME TO `budget_pools`;
+--> statement-breakpoint
+CREATE TABLE `__new_category_limits` (
+	`id` text PRIMARY KEY NOT NULL,
+	`allowance_id` text NOT NULL,
+	`category` text NOT NULL,
+	`daily_limit` text DEFAULT '0',
+	`weekly_limit` text DEFAULT '0',
+	`monthly_limit` text DEFAULT '0',
+	`blocked` integer DEFAULT false,
+	`created_at` integer DEFAULT 1792434698872
+);
+--> statement-breakpoint
+INSERT INTO `__new_category_limits` (`id`, `allowance_id`, `category`, `daily_limit`, `weekly_limit`, `monthly_limit`, `blocked`, `created_at`)
+SELECT `id`, `allowance_id`, `category`, printf('%.0f', coalesce(`daily_limit`, 0) * 1e6), printf('%.0f', coalesce(`weekly_limit`, 0) * 1e6), printf('%.0f', coalesce(`monthly_limit`, 0) * 1e6), `blocked`, `created_at`
+FROM `category_limits`;
+--> statement-breakpoint
+DROP TABLE `category_limits`;
+--> statement-breakpoint
+ALTER TABLE `__new_category_limits` RENAME TO `category_limits`;
+--> statement-breakpoint
+CREATE UNIQUE INDEX `category_limits_allowance_category_idx` ON `category_limits` (`allowance_id`,`category`);
+--> statement-breakpoint
+CREATE TABLE `__new_invoices` (
+	`id` text PRIMARY KEY NOT NULL,
+	`issuer_id` text NOT NULL,
+	`recipient_id` text NOT NULL,
+	`amount` text NOT NULL,
+	`currency` text DEFAULT 'USDC',
+	`status` text DEFAULT 'draft',
+	`due_at` integer,
+	`created_at` integer DEFAULT 1792434698873
+);
+--> statement-breakpoint
+INSERT INTO `__new_invoices` (`id`, `issuer_id`, `recipient_id`, `amount`, `currency`, `status`, `due_at`, `created_at`)
+SELECT `id`, `issuer_id`, `recipient_id`, printf('%.0f', coalesce(`amount`, 0) * CASE `currency` WHEN 'USD' THEN 1e2 WHEN 'EUR' THEN 1e2 WHEN 'GBP' THEN 1e2 WHEN 'OPENWORK' THEN 1e18 WHEN 'ETH' THEN 1e18 ELSE 1e6 END), `currency`, `status`, `due_at`, `created_at`
+FROM `invoices`;
+--> statement-breakpoint
+DROP TABLE `invoices`;
+--> statement-breakpoint
+ALTER TABLE `__new_invoices` RENAME TO `invoices`;
+--> statement-breakpoint
+CREATE TABLE `__new_subscriptions` (
+	`id` text PRIMARY KEY NOT NULL,
+	`subscriber_id` text NOT NULL,
+	`provider_id` text NOT NULL,
+	`plan_id` text NOT NULL,
+	`amount` text NOT NULL,
+	`currency` text DEFAULT 'USDC',
+	`interval` text DEFAULT 'monthly',
+	`next_billing_date` integer NOT NULL,
+	`status` text DEFAULT 'active',
+	`allowance_id` text NOT NULL,
+	`created_at` integer DEFAULT 1792434698873
+);
+--> statement-breakpoint
+INSERT INTO `__new_subscriptions` (`id`, `subscriber_id`, `provider_id`, `plan_id`, `amount`, `interval`, `next_billing_date`, `status`, `allowance_id`, `created_at`)
+SELECT `id`, `subscriber_id`, `provider_id`, `plan_id`, printf('%.0f', coalesce(`amount`, 0) * 1e6), `interval`, `next_billing_date`, `status`, `allowance_id`, `created_at`
+FROM `subscriptions`;
+--> statement-breakpoint
+DROP TABLE `subscriptions`;
+--> statement-breakpoint
+ALTER TABLE `__new_subscriptions` RENAME TO `subscriptions`;
+--> statement-breakpoint
+CREATE TABLE `__new_transactions` (
+	`id` text PRIMARY KEY NOT NULL,
+	`allowance_id` text NOT NULL,
+	`amount` text NOT NULL,
+	`currency` text DEFAULT 'USDC',
+	`category` text NOT NULL,
+	`recipient` text NOT NULL,
+	`status` text DEFAULT 'success',
+	`timestamp` integer DEFAULT 1792434698873
+);
+--> statement-breakpoint
+INSERT INTO `__new_transactions` (`id`, `allowance_id`, `amount`, `category`, `recipient`, `status`, `timestamp`)
+SELECT `id`, `allowance_id`, printf('%.0f', coalesce(`amount`, 0) * 1e6), `category`, `recipient`, `status`, `timestamp`
+FROM `transactions`;
+--> statement-breakpoint
+DROP TABLE `transactions`;
+--> statement-breakpoint
+ALTER TABLE `__new_transactions` RENAME TO `transactions`;
+--> statement-breakpoint
+CREATE TABLE `__new_velocity_violations` (
+	`id` text PRIMARY KEY NOT NULL,
+	`allowance_id` text NOT NULL,
+	`agent_id` text NOT NULL,
+	`rule` text NOT NULL,
+	`action` text NOT NULL,
+	`amount` text NOT NULL,
+	`detail` text NOT NULL,
+	`created_at` integer DEFAULT 1792434698873
+);
+--> statement-breakpoint
+INSERT INTO `__new_velocity_violations` (`id`, `allowance_id`, `agent_id`, `rule`, `action`, `amount`, `detail`, `created_at`)
+SELECT `id`, `allowance_id`, `agent_id`, `rule`, `action`, printf('%.0f', coalesce(`amount`, 0) * 1e6), `detail`, `created_at`
+FROM `velocity_violations`;
+--> statement-breakpoint
+DROP TABLE `velocity_violations`;
+--> statement-breakpoint
+ALTER TABLE `__new_velocity_violations` RENAME TO `velocity_violations`;
+--> statement-breakpoint
+CREATE TABLE `__new_spend_holds` (
+	`id` text PRIMARY KEY NOT NULL,
+	`allowance_id` text NOT NULL,
+	`agent_id` text NOT NULL,
+	`amount` text NOT NULL,
+	`captured_amount` text DEFAULT '0',
+	`currency` text DEFAULT 'USDC',
+	`category` text NOT NULL,
+	`recipient` text NOT NULL,
+	`status` text DEFAULT 'active',
+	`transaction_id` text,
+	`expires_at` integer NOT NULL,
+	`settled_at` integer,
+	`created_at` integer DEFAULT 1792434698873
+);
+--> statement-breakpoint
+INSERT INTO `__new_spend_holds` (`id`, `allowance_id`, `agent_id`, `amount`, `captured_amount`, `category`, `recipient`, `status`, `transaction_id`, `expires_at`, `settled_at`, `created_at`)
+SELECT `id`, `allowance_id`, `agent_id`, printf('%.0f', coalesce(`amount`, 0) * 1e6), printf('%.0f', coalesce(`captured_amount`, 0) * 1e6), `category`, `recipient`, `status`, `transaction_id`, `expires_at`, `settled_at`, `created_at`
+FROM `spend_holds`;
+--> statement-breakpoint
+DROP TABLE `spend_holds`;
+--> statement-breakpoint
+ALTER TABLE `__new_spend_holds` RENAME TO `spend_holds`;
+--> statement-breakpoint
+CREATE TABLE `__new_spend_approvals` (
+	`id` text PRIMARY KEY NOT NULL,
+	`kind` text NOT NULL,
+	`allowance_id` text NOT NULL,
+	`agent_id` text NOT NULL,
+	`amount` text NOT NULL,
+	`currency` text DEFAULT 'USDC',
+	`category` text NOT NULL,
+	`recipient` text NOT NULL,
+	`invoice_id` text,
+	`hold_ttl_seconds` integer,
+	`reason` text NOT NULL,
+	`approvals_required` integer NOT NULL,
+	`status` text DEFAULT 'pending_approval',
+	`transaction_id` text,
+	`hold_id` text,
+	`failure_reason` text,
+	`resolved_at` integer,
+	`created_at` integer DEFAULT 1792434698874
+);
+--> statement-breakpoint
+INSERT INTO `__new_spend_approvals` (`id`, `kind`, `allowance_id`, `agent_id`, `amount`, `category`, `recipient`, `invoice_id`, `hold_ttl_seconds`, `reason`, `approvals_required`, `status`, `transaction_id`, `hold_id`, `failure_reason`, `resolved_at`, `created_at`)
+SELECT `id`, `kind`, `allowance_id`, `agent_id`, printf('%.0f', coalesce(`amount`, 0) * 1e6), `category`, `recipient`, `invoice_id`, `hold_ttl_seconds`, `reason`, `approvals_required`, `status`, `transaction_id`, `hold_id`, `failure_reason`, `resolved_at`, `created_at`
+FROM `spend_approvals`;
+--> statement-breakpoint
+DROP TABLE `spend_approvals`;
+--> statement-breakpoint
+ALTER TABLE `__new_spend_approvals` RENAME TO `spend_approvals`;
\ No newline at end of file
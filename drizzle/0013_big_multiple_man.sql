@@ -0,0 +1,30 @@
+CREATE TABLE `journal_entries` (
+	`id` text PRIMARY KEY NOT NULL,
+	`kind` text NOT NULL,
+	`currency` text NOT NULL,
+	`memo` text,
+	`transaction_id` text,
+	`invoice_id` text,
+	`subscription_id` text,
+	`hold_id` text,
+	`created_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `journal_postings` (
+	`id` text PRIMARY KEY NOT NULL,
+	`entry_id` text NOT NULL,
+	`account_id` text NOT NULL,
+	`direction` text NOT NULL,
+	`amount` text NOT NULL,
+	`created_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `ledger_accounts` (
+	`id` text PRIMARY KEY NOT NULL,
+	`kind` text NOT NULL,
+	`ref` text NOT NULL,
+	`currency` text NOT NULL,
+	`created_at` integer DEFAULT 1792434908645
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `ledger_accounts_kind_ref_currency_idx` ON `ledger_accounts` (`kind`,`ref`,`currency`);
\ No newline at end of file
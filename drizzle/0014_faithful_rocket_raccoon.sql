@@ -0,0 +1,13 @@
+CREATE TABLE `idempotency_keys` (
+	`key` text PRIMARY KEY NOT NULL,
+	`method` text NOT NULL,
+	`path` text NOT NULL,
+	`fingerprint` text NOT NULL,
+	`status_code` integer,
+	`content_type` text,
+	`response_body` text,
+	`created_at` integer NOT NULL,
+	`expires_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `idempotency_keys_expires_at_idx` ON `idempotency_keys` (`expires_at`);
\ No newline at end of file
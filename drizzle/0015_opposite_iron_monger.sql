@@ -0,0 +1,6 @@
+ALTER TABLE transactions ADD `kind` text DEFAULT 'spend';--> statement-breakpoint
+ALTER TABLE transactions ADD `reverses_id` text;--> statement-breakpoint
+ALTER TABLE transactions ADD `refunded_amount` text DEFAULT '0';--> statement-breakpoint
+ALTER TABLE transactions ADD `reason` text;--> statement-breakpoint
+ALTER TABLE transactions ADD `invoice_id` text;--> statement-breakpoint
+ALTER TABLE transactions ADD `subscription_id` text;
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE `fx_rates` (
+	`id` text PRIMARY KEY NOT NULL,
+	`base_currency` text NOT NULL,
+	`quote_currency` text NOT NULL,
+	`rate` text NOT NULL,
+	`effective_at` integer NOT NULL,
+	`created_at` integer NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE transactions ADD `original_amount` text;--> statement-breakpoint
+ALTER TABLE transactions ADD `original_currency` text;--> statement-breakpoint
+ALTER TABLE transactions ADD `fx_rate` text;--> statement-breakpoint
+ALTER TABLE transactions ADD `fx_rate_id` text;--> statement-breakpoint
+CREATE INDEX `fx_rates_pair_effective_at_idx` ON `fx_rates` (`base_currency`,`quote_currency`,`effective_at`);
\ No newline at end of file
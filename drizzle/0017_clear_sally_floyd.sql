@@ -0,0 +1,34 @@
+CREATE TABLE `agent_balances` (
+	`id` text PRIMARY KEY NOT NULL,
+	`agent_id` text NOT NULL,
+	`currency` text NOT NULL,
+	`balance` text DEFAULT '0' NOT NULL,
+	`updated_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `balance_entries` (
+	`id` text PRIMARY KEY NOT NULL,
+	`agent_id` text NOT NULL,
+	`currency` text NOT NULL,
+	`kind` text NOT NULL,
+	`amount` text NOT NULL,
+	`balance_after` text NOT NULL,
+	`counterparty` text,
+	`transaction_id` text,
+	`withdrawal_id` text,
+	`reference` text,
+	`created_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `withdrawals` (
+	`id` text PRIMARY KEY NOT NULL,
+	`agent_id` text NOT NULL,
+	`amount` text NOT NULL,
+	`currency` text NOT NULL,
+	`destination` text,
+	`status` text NOT NULL,
+	`created_at` integer NOT NULL,
+	`settled_at` integer
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `agent_balances_agent_currency_idx` ON `agent_balances` (`agent_id`,`currency`);
\ No newline at end of file
@@ -0,0 +1,30 @@
+CREATE TABLE `fee_schedules` (
+	`id` text PRIMARY KEY NOT NULL,
+	`scope` text NOT NULL,
+	`ref` text,
+	`kind` text NOT NULL,
+	`currency` text,
+	`bps` integer DEFAULT 0,
+	`flat_amount` text DEFAULT '0',
+	`created_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `fee_tiers` (
+	`id` text PRIMARY KEY NOT NULL,
+	`schedule_id` text NOT NULL,
+	`up_to` text,
+	`bps` integer DEFAULT 0,
+	`flat_amount` text DEFAULT '0'
+);
+--> statement-breakpoint
+CREATE TABLE `transaction_lines` (
+	`id` text PRIMARY KEY NOT NULL,
+	`transaction_id` text NOT NULL,
+	`kind` text NOT NULL,
+	`recipient` text NOT NULL,
+	`amount` text NOT NULL,
+	`fee_schedule_id` text,
+	`created_at` integer NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE transactions ADD `fee_amount` text DEFAULT '0';
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE `invoice_transitions` (
+	`id` text PRIMARY KEY NOT NULL,
+	`invoice_id` text NOT NULL,
+	`from_status` text NOT NULL,
+	`to_status` text NOT NULL,
+	`actor` text NOT NULL,
+	`reason` text,
+	`created_at` integer NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE invoices ADD `expires_at` integer;--> statement-breakpoint
+CREATE INDEX `invoice_transitions_invoice_id_idx` ON `invoice_transitions` (`invoice_id`);
\ No newline at end of file
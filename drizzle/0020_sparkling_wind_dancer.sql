@@ -0,0 +1,24 @@
+CREATE TABLE `invoice_line_items` (
+	`id` text PRIMARY KEY NOT NULL,
+	`invoice_id` text NOT NULL,
+	`position` integer NOT NULL,
+	`description` text NOT NULL,
+	`quantity` text NOT NULL,
+	`unit_price` text NOT NULL,
+	`tax_rate` real,
+	`discount_percent` real,
+	`discount_amount` text,
+	`amount` text NOT NULL,
+	`discount` text NOT NULL,
+	`tax` text NOT NULL,
+	`total` text NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE invoices ADD `memo` text;--> statement-breakpoint
+ALTER TABLE invoices ADD `subtotal` text;--> statement-breakpoint
+ALTER TABLE invoices ADD `discount_total` text DEFAULT '0';--> statement-breakpoint
+ALTER TABLE invoices ADD `tax_total` text DEFAULT '0';--> statement-breakpoint
+ALTER TABLE invoices ADD `tax_rate` real;--> statement-breakpoint
+ALTER TABLE invoices ADD `discount_percent` real;--> statement-breakpoint
+ALTER TABLE invoices ADD `discount_amount` text;--> statement-breakpoint
+CREATE INDEX `invoice_line_items_invoice_id_idx` ON `invoice_line_items` (`invoice_id`);
\ No newline at end of file
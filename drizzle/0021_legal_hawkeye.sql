@@ -0,0 +1,20 @@
+CREATE TABLE `invoice_installments` (
+	`id` text PRIMARY KEY NOT NULL,
+	`invoice_id` text NOT NULL,
+	`sequence` integer NOT NULL,
+	`amount` text NOT NULL,
+	`due_at` integer NOT NULL,
+	`allowance_id` text,
+	`status` text DEFAULT 'pending',
+	`attempts` integer DEFAULT 0,
+	`last_error` text,
+	`transaction_id` text,
+	`paid_at` integer,
+	`created_at` integer NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE invoices ADD `allow_partial` integer DEFAULT false;--> statement-breakpoint
+ALTER TABLE invoices ADD `paid_amount` text DEFAULT '0';--> statement-breakpoint
+ALTER TABLE spend_approvals ADD `invoice_amount` text;--> statement-breakpoint
+CREATE INDEX `invoice_installments_invoice_id_idx` ON `invoice_installments` (`invoice_id`);--> statement-breakpoint
+UPDATE invoices SET paid_amount = amount WHERE status IN ('paid', 'partially_refunded', 'refunded');
\ No newline at end of file
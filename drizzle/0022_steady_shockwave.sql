@@ -0,0 +1,19 @@
+CREATE TABLE `invoice_escrows` (
+	`id` text PRIMARY KEY NOT NULL,
+	`invoice_id` text NOT NULL,
+	`payer_id` text NOT NULL,
+	`allowance_id` text NOT NULL,
+	`transaction_id` text NOT NULL,
+	`amount` text NOT NULL,
+	`currency` text NOT NULL,
+	`status` text DEFAULT 'held',
+	`auto_release_at` integer NOT NULL,
+	`released_by` text,
+	`dispute_reason` text,
+	`settled_at` integer,
+	`created_at` integer NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE journal_entries ADD `escrow_id` text;--> statement-breakpoint
+ALTER TABLE spend_approvals ADD `escrow_release_seconds` integer;--> statement-breakpoint
+CREATE UNIQUE INDEX `invoice_escrows_invoice_id_idx` ON `invoice_escrows` (`invoice_id`);
\ No newline at end of file
@@ -0,0 +1,43 @@
+CREATE TABLE `dispute_evidence` (
+	`id` text PRIMARY KEY NOT NULL,
+	`dispute_id` text NOT NULL,
+	`submitted_by` text NOT NULL,
+	`reference` text NOT NULL,
+	`description` text,
+	`created_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `dispute_validators` (
+	`id` text PRIMARY KEY NOT NULL,
+	`dispute_id` text NOT NULL,
+	`validator_id` text NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `dispute_votes` (
+	`id` text PRIMARY KEY NOT NULL,
+	`dispute_id` text NOT NULL,
+	`validator_id` text NOT NULL,
+	`outcome` text NOT NULL,
+	`payer_share` real,
+	`comment` text,
+	`created_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `invoice_disputes` (
+	`id` text PRIMARY KEY NOT NULL,
+	`invoice_id` text NOT NULL,
+	`opened_by` text NOT NULL,
+	`reason` text NOT NULL,
+	`previous_status` text NOT NULL,
+	`votes_required` integer NOT NULL,
+	`status` text DEFAULT 'open',
+	`outcome` text,
+	`payer_share` real,
+	`resolved_at` integer,
+	`created_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `dispute_evidence_dispute_id_idx` ON `dispute_evidence` (`dispute_id`);--> statement-breakpoint
+CREATE UNIQUE INDEX `dispute_validators_dispute_validator_idx` ON `dispute_validators` (`dispute_id`,`validator_id`);--> statement-breakpoint
+CREATE INDEX `dispute_votes_dispute_id_idx` ON `dispute_votes` (`dispute_id`);--> statement-breakpoint
+CREATE INDEX `invoice_disputes_invoice_id_idx` ON `invoice_disputes` (`invoice_id`);
\ No newline at end of file
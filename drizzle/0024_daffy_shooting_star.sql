@@ -0,0 +1 @@
+ALTER TABLE journal_entries ADD `withdrawal_id` text;
\ No newline at end of file
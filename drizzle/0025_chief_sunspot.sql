@@ -0,0 +1,5 @@
+ALTER TABLE invoice_escrows ADD `released_amount` text;--> statement-breakpoint
+ALTER TABLE invoice_escrows ADD `fee_amount` text;--> statement-breakpoint
+UPDATE invoice_escrows SET fee_amount = (SELECT fee_amount FROM transactions WHERE transactions.id = invoice_escrows.transaction_id) WHERE status IN ('released', 'split');--> statement-breakpoint
+UPDATE invoice_escrows SET released_amount = amount WHERE status = 'released';--> statement-breakpoint
+UPDATE transactions SET fee_amount = '0' WHERE id IN (SELECT transaction_id FROM invoice_escrows);
\ No newline at end of file
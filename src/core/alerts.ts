@@ -0,0 +1,107 @@
+/**
+ * Limit warnings and exhaustion
+ * Each configured threshold (e.g. 50/80/95% of a period's limit) fires allowance.limit_warning
+ * once per period; using the whole limit fires allowance.exhausted and moves the allowance to
+ * 'exhausted' until the period rolls over.
+ */
+
+import { db } from '../db';
+import { allowances, limitAlerts } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import type { Allowance } from './allowance';
+import { Period, PERIODS, DEFAULT_TIMEZONE, periodStart } from './periods';
+import { effectiveLimit } from './rollover';
+import { ratioPercent } from './money';
+import { notify } from './webhooks';
+
+export const DEFAULT_WARNING_THRESHOLDS = [50, 80, 95];
+
+// Alerts are stored with this threshold once a limit is fully used
+const EXHAUSTED = 100;
+
+const SPENT_FIELDS = {
+  daily: 'spentToday',
+  weekly: 'spentThisWeek',
+  monthly: 'spentThisMonth',
+} as const satisfies Record<Period, keyof Allowance>;
+
+export function parseThresholds(value: string | null | undefined): number[] {
+  if (value === null || value === undefined) return DEFAULT_WARNING_THRESHOLDS;
+  return value.split(',').map(Number).filter(t => t > 0 && t < EXHAUSTED).sort((a, b) => a - b);
+}
+
+/**
+ * Share of each limited period's effective limit used so far, in percent
+ */
+export function percentUsed(allowance: Allowance, now: number = Date.now()): Partial<Record<Period, number>> {
+  const used: Partial<Record<Period, number>> = {};
+  for (const period of PERIODS) {
+    const limit = effectiveLimit(allowance, period, now).effective;
+    if (limit > 0n) used[period] = ratioPercent(allowance[SPENT_FIELDS[period]] ?? 0n, limit);
+  }
+  return used;
+}
+
+/**
+ * Periods whose limit is fully used
+ */
+export function exhaustedPeriods(allowance: Allowance, now: number = Date.now()): Period[] {
+  const used = percentUsed(allowance, now);
+  return PERIODS.filter(period => (used[period] ?? 0) >= EXHAUSTED);
+}
+
+/**
+ * Claim an alert for this period; false if it already fired
+ */
+function claimAlert(allowance: Allowance, period: Period, start: number, threshold: number, now: number): boolean {
+  const result = db.insert(limitAlerts)
+    .values({ id: uuidv4(), allowanceId: allowance.id, period, periodStart: start, threshold, createdAt: now })
+    .onConflictDoNothing()
+    .run();
+  return result.changes > 0;
+}
+
+/**
+ * Fire the warnings a spend has just crossed, and exhaust the allowance if a limit is used up.
+ * Expects counters that are current for `now`.
+ */
+export function checkLimitAlerts(allowance: Allowance, now: number = Date.now()): Allowance {
+  const timezone = allowance.timezone ?? DEFAULT_TIMEZONE;
+  const thresholds = parseThresholds(allowance.warningThresholds);
+  const used = percentUsed(allowance, now);
+  let exhausted = false;
+
+  for (const period of PERIODS) {
+    const percent = used[period];
+    if (percent === undefined) continue;
+    const start = periodStart(period, now, timezone);
+
+    for (const threshold of thresholds) {
+      if (percent >= threshold && claimAlert(allowance, period, start, threshold, now)) {
+        void notify.limitWarning(allowance.agentId, allowance.id, period, Math.round(percent), threshold);
+      }
+    }
+
+    if (percent >= EXHAUSTED) {
+      exhausted = true;
+      if (claimAlert(allowance, period, start, EXHAUSTED, now)) {
+        void notify.allowanceExhausted(allowance.agentId, allowance.id, period);
+      }
+    }
+  }
+
+  if (!exhausted || allowance.status !== 'active') return allowance;
+  db.update(allowances).set({ status: 'exhausted' }).where(eq(allowances.id, allowance.id)).run();
+  return { ...allowance, status: 'exhausted' };
+}
+
+/**
+ * Return an exhausted allowance to 'active' once no period is used up any more
+ * (after a rollover, or when its limits were raised)
+ */
+export function reactivateIfReplenished(allowance: Allowance, now: number = Date.now()): Allowance {
+  if (allowance.status !== 'exhausted' || exhaustedPeriods(allowance, now).length > 0) return allowance;
+  db.update(allowances).set({ status: 'active' }).where(eq(allowances.id, allowance.id)).run();
+  return { ...allowance, status: 'active' };
+}
@@ -1,87 +1,504 @@
 import { db } from '../db';
-import { allowances, transactions } from '../db/schema';
-import { eq, sql } from 'drizzle-orm';
+import { allowances, invoices, transactions } from '../db/schema';
+import { and, eq } from 'drizzle-orm';
 import { v4 as uuidv4 } from 'uuid';
+import { Period, PERIODS, DEFAULT_TIMEZONE, periodStart } from './periods';
+import { spentSince, heldAmount } from './usage';
+import { checkCategoryLimit } from './categories';
+import { checkRecipient, requestRecipientApproval } from './recipients';
+import { requestApproval } from './approvals';
+import { computeCarryover, effectiveLimit } from './rollover';
+import { checkPools } from './pools';
+import { AllowanceSelection, rankAllowances } from './selection';
+import { VelocityRule, checkCooldown, velocityBreaches, tripVelocityRule, recordDenial } from './velocity';
+import { checkSchedule, expireIfDue } from './schedule';
+import { checkLimitAlerts, exhaustedPeriods, reactivateIfReplenished } from './alerts';
+import { DEFAULT_CURRENCY, sumUnits } from './money';
+import { journalSpend } from './journal';
+import type { FxConversion } from './fx';
+import { InsufficientFundsError, checkFunds, settleEscrowLock, settleSpend } from './balances';
+import { FEE_ACCOUNT, computeFee, recordPaymentLines } from './fees';
+import { InvalidTransitionError, transitionInvoice } from './invoiceStates';
+import { ESCROW_ACCOUNT } from './escrow';
 
-export async function checkSpend(agentId: string, amount: number, category: string, allowanceId?: string): Promise<{ allowed: boolean; reason?: string; allowanceId?: string }> {
-  // Query for allowance - either by specific ID or by agent
-  let allowance;
+export type Allowance = typeof allowances.$inferSelect;
+
+// Thrown inside a spend's transaction to roll it back and deny the spend with this message
+export class SpendConflictError extends Error {}
+
+export interface SpendOptions {
+  approved?: boolean; // already signed off through the approval queue
+  invoiceId?: string; // invoice being paid, so an approval can settle it later
+  invoiceAmount?: bigint; // part of the invoice this pays, in its currency; unset = all that is outstanding
+  subscriptionId?: string; // subscription being billed through the invoice
+  currency?: string; // currency of the amount; only allowances in it can pay (default USDC)
+  fx?: FxConversion; // how the amount was converted from what was owed, when it was
+}
+
+// What a recorded spend settles, for its journal entry and transaction
+export interface SpendSource {
+  invoiceId?: string;
+  subscriptionId?: string;
+  holdId?: string; // capture of an authorization hold, paid out of suspense
+  escrowId?: string; // locked in escrow until released to the recipient, who is paid then
+  fx?: FxConversion;
+}
+
+// Which counter, anchor and carryover column back each period
+const COUNTERS = {
+  daily: { spent: 'spentToday', anchor: 'dayStartedAt', carry: 'dailyCarryover', label: 'Daily' },
+  weekly: { spent: 'spentThisWeek', anchor: 'weekStartedAt', carry: 'weeklyCarryover', label: 'Weekly' },
+  monthly: { spent: 'spentThisMonth', anchor: 'monthStartedAt', carry: 'monthlyCarryover', label: 'Monthly' },
+} as const satisfies Record<Period, { spent: keyof Allowance; anchor: keyof Allowance; carry: keyof Allowance; label: string }>;
+
+// A spend planned against an allowance but not recorded yet (earlier entries of a simulated batch)
+export interface PendingCharge {
+  allowanceId: string;
+  amount: bigint;
+  category: string;
+}
+
+export type SpendRule =
+  | 'status' | 'currency' | 'amount' | 'schedule' | VelocityRule
+  | `${Period}_limit` | 'category' | 'pool' | 'balance' | 'recipient' | 'approval_threshold';
+
+export interface SpendFailure {
+  rule: SpendRule;
+  reason: string;
+  requiresApproval?: 'recipient' | 'threshold'; // the owner can sign off instead
+}
+
+const VELOCITY_RULES: VelocityRule[] = ['max_single_amount', 'max_tx_per_minute', 'max_tx_per_hour', 'anomaly'];
+
+// Denials on these rules count towards the allowance's denial cooldown
+const BUDGET_RULES: SpendRule[] = ['daily_limit', 'weekly_limit', 'monthly_limit', 'category', 'pool', 'recipient', 'approval_threshold'];
+
+/**
+ * Counter updates that bring an allowance up to date with the current day/week/month, without writing them
+ */
+function staleCounters(allowance: Allowance, now: number): Partial<Allowance> {
+  const timezone = allowance.timezone ?? DEFAULT_TIMEZONE;
+  const updates: Partial<Allowance> = {};
+
+  for (const period of PERIODS) {
+    const { spent, anchor, carry } = COUNTERS[period];
+    const start = periodStart(period, now, timezone);
+    if (allowance[anchor] === start) continue;
+    updates[anchor] = start;
+    updates[spent] = spentSince(allowance.id, start);
+    updates[carry] = computeCarryover(allowance, period, start);
+  }
+  return updates;
+}
+
+/**
+ * The allowance as rollPeriods would leave it, without touching the database
+ */
+export function projectPeriods(allowance: Allowance, now: number = Date.now()): Allowance {
+  return { ...allowance, ...staleCounters(allowance, now) };
+}
+
+/**
+ * Bring an allowance's counters up to date with the current day/week/month.
+ * A counter whose anchor is not the current period start is rebuilt from the
+ * transactions table, so a lazy reset and a full rebuild always agree.
+ * An exhausted allowance becomes active again once no period is used up.
+ */
+export function rollPeriods(allowance: Allowance, now: number = Date.now()): Allowance {
+  const updates = staleCounters(allowance, now);
+
+  if (Object.keys(updates).length === 0) return reactivateIfReplenished(allowance, now);
+
+  db.update(allowances).set(updates).where(eq(allowances.id, allowance.id)).run();
+  return reactivateIfReplenished({ ...allowance, ...updates }, now);
+}
+
+/**
+ * Rebuild the current period counters from the transactions table, e.g. after a refund
+ * has handed budget back
+ */
+export function recountPeriods(allowance: Allowance, now: number = Date.now()): Allowance {
+  const rolled = rollPeriods(allowance, now);
+  const timezone = rolled.timezone ?? DEFAULT_TIMEZONE;
+  const updates: Partial<Allowance> = {};
+  for (const period of PERIODS) {
+    updates[COUNTERS[period].spent] = spentSince(rolled.id, periodStart(period, now, timezone));
+  }
+
+  db.update(allowances).set(updates).where(eq(allowances.id, rolled.id)).run();
+  return reactivateIfReplenished({ ...rolled, ...updates }, now);
+}
+
+/**
+ * An allowance by id, only if it is the agent's own: an agent can never spend, or draw the
+ * prepaid balance, through another agent's allowance
+ */
+export function getAgentAllowance(agentId: string, allowanceId: string): Allowance | undefined {
+  return db.select().from(allowances).where(and(eq(allowances.id, allowanceId), eq(allowances.agentId, agentId))).get();
+}
+
+export interface SpendCheck {
+  allowed: boolean;
+  reason?: string;
+  allowanceId?: string;
+  requiresApproval?: 'recipient' | 'threshold';
+  selection?: AllowanceSelection;
+}
+
+export async function checkSpend(
+  agentId: string,
+  amount: bigint,
+  category: string,
+  allowanceId?: string,
+  recipient?: string,
+  options: SpendOptions = {}
+): Promise<SpendCheck> {
+  // An explicitly requested allowance is the only candidate
   if (allowanceId) {
-    allowance = await db.select().from(allowances).where(eq(allowances.id, allowanceId)).limit(1).get();
-  } else {
-    allowance = await db.select().from(allowances).where(eq(allowances.agentId, agentId)).limit(1).get();
+    const allowance = getAgentAllowance(agentId, allowanceId);
+    if (!allowance) {
+      return { allowed: false, reason: 'Allowance not found' };
+    }
+    const rolled = expireIfDue(rollPeriods(allowance));
+    const { check, failure } = evaluateSpend(rolled, amount, category, recipient, options);
+    if (failure) check.reason = applyDenial(rolled, failure, amount, category, recipient);
+    return { ...check, selection: { reason: 'explicit', skipped: [] } };
   }
 
-  if (!allowance) {
+  const candidates = rankAllowances(agentId, category, options.currency ?? DEFAULT_CURRENCY);
+  if (candidates.length === 0) {
     return { allowed: false, reason: 'Allowance not found' };
   }
 
-  if (allowance.status !== 'active') {
-    return { allowed: false, reason: 'Allowance is paused or inactive' };
+  // Fall through the ranking to the first allowance that can take the spend.
+  // One that only needs owner approval is kept in case none can.
+  const skipped: AllowanceSelection['skipped'] = [];
+  const denials: { allowance: Allowance; failure: SpendFailure }[] = [];
+  let pendingApproval: SpendCheck | undefined;
+
+  for (const candidate of candidates) {
+    const allowance = expireIfDue(rollPeriods(candidate.allowance));
+    const { check, failure } = evaluateSpend(allowance, amount, category, recipient, options);
+    if (!failure) {
+      return { ...check, selection: { reason: candidate.reason, skipped } };
+    }
+    if (check.requiresApproval && !pendingApproval) {
+      pendingApproval = { ...check, selection: { reason: candidate.reason, skipped: [...skipped] } };
+    }
+    denials.push({ allowance, failure });
+    skipped.push({ allowanceId: allowance.id, reason: failure.reason });
+  }
+
+  if (pendingApproval) return pendingApproval;
+
+  // Only a spend no allowance takes is denied, so only then do the skipped ones pay for it
+  denials.forEach(({ allowance, failure }, i) => {
+    skipped[i].reason = applyDenial(allowance, failure, amount, category, recipient);
+  });
+  return {
+    allowed: false,
+    reason: candidates.length === 1 ? skipped[0].reason : 'No allowance can cover this spend',
+    selection: { reason: candidates[0].reason, skipped },
+  };
+}
+
+/**
+ * Run every rule on a single allowance whose counters are already rolled. Read-only: the
+ * side effects of a denial wait until checkSpend knows no other allowance takes the spend.
+ */
+function evaluateSpend(
+  allowance: Allowance,
+  amount: bigint,
+  category: string,
+  recipient?: string,
+  options: SpendOptions = {}
+): { check: SpendCheck; failure?: SpendFailure } {
+  const [failure] = spendFailures(allowance, amount, category, recipient, options);
+  if (!failure) return { check: { allowed: true, allowanceId: allowance.id } };
+
+  return {
+    failure,
+    check: {
+      allowed: false,
+      reason: failure.reason,
+      allowanceId: failure.requiresApproval ? allowance.id : undefined,
+      requiresApproval: failure.requiresApproval,
+    },
+  };
+}
+
+/**
+ * Apply the side effects of denying a spend on an allowance: velocity breaches pause it, and
+ * budget denials count towards its cooldown. Returns the reason to deny with.
+ */
+function applyDenial(allowance: Allowance, failure: SpendFailure, amount: bigint, category: string, recipient?: string): string {
+  if (VELOCITY_RULES.includes(failure.rule as VelocityRule)) {
+    return tripVelocityRule(allowance, failure.rule as VelocityRule, amount, failure.reason);
+  }
+  if (BUDGET_RULES.includes(failure.rule) && !failure.requiresApproval) {
+    recordDenial(allowance, amount, category, recipient);
+  }
+  return failure.reason;
+}
+
+/**
+ * Every rule a spend would break, in the order checkSpend applies them. Read-only, so it
+ * also backs dry runs; `pending` adds earlier spends of a batch that are not recorded yet.
+ */
+export function spendFailures(
+  allowance: Allowance,
+  amount: bigint,
+  category: string,
+  recipient?: string,
+  options: SpendOptions = {},
+  now: number = Date.now(),
+  pending: PendingCharge[] = []
+): SpendFailure[] {
+  const failures: SpendFailure[] = [];
+
+  if (allowance.status === 'expired' || (allowance.expiresAt && allowance.expiresAt <= now)) {
+    failures.push({ rule: 'status', reason: 'Allowance has expired' });
+  } else if (allowance.status === 'exhausted' && exhaustedPeriods(allowance, now).length > 0) {
+    failures.push({ rule: 'status', reason: 'Allowance is exhausted until its limit resets' });
+  } else if (allowance.status !== 'active' && allowance.status !== 'exhausted') {
+    failures.push({ rule: 'status', reason: 'Allowance is paused or inactive' });
+  }
+
+  // Amounts in different currencies cannot be compared against the limits at all
+  const currency = options.currency ?? DEFAULT_CURRENCY;
+  if ((allowance.currency ?? DEFAULT_CURRENCY) !== currency) {
+    failures.push({ rule: 'currency', reason: `Allowance is in ${allowance.currency ?? DEFAULT_CURRENCY}, not ${currency}` });
+    return failures;
+  }
+
+  if (amount <= 0n) {
+    failures.push({ rule: 'amount', reason: 'Amount must be positive' });
+    return failures;
   }
 
-  // Check limits
-  if (amount <= 0) return { allowed: false, reason: 'Amount must be positive' };
+  const scheduleDenial = checkSchedule(allowance, now);
+  if (scheduleDenial) failures.push({ rule: 'schedule', reason: scheduleDenial });
 
-  const dailyLimit = allowance.dailyLimit ?? 0;
-  const weeklyLimit = allowance.weeklyLimit ?? 0;
-  const monthlyLimit = allowance.monthlyLimit ?? 0;
-  const spentToday = allowance.spentToday ?? 0;
-  const spentThisWeek = allowance.spentThisWeek ?? 0;
-  const spentThisMonth = allowance.spentThisMonth ?? 0;
+  const cooldownDenial = checkCooldown(allowance, now);
+  if (cooldownDenial) failures.push({ rule: 'denial_cooldown', reason: cooldownDenial });
 
-  if (dailyLimit > 0 && spentToday + amount > dailyLimit) {
-    return { allowed: false, reason: 'Daily limit exceeded' };
+  const own = pending.filter(p => p.allowanceId === allowance.id);
+  for (const breach of velocityBreaches(allowance, amount, now, own.length)) {
+    failures.push({ rule: breach.rule, reason: breach.detail });
   }
-  if (weeklyLimit > 0 && spentThisWeek + amount > weeklyLimit) {
-    return { allowed: false, reason: 'Weekly limit exceeded' };
+
+  // Open authorization holds reserve budget in every window
+  const committed = heldAmount(allowance.id, now) + sumUnits(own.map(p => p.amount));
+
+  for (const period of PERIODS) {
+    const { spent, label } = COUNTERS[period];
+    const limit = effectiveLimit(allowance, period, now).effective;
+    if (limit > 0n && (allowance[spent] ?? 0n) + committed + amount > limit) {
+      failures.push({ rule: `${period}_limit`, reason: `${label} limit exceeded` });
+    }
+  }
+
+  const plannedInCategory = sumUnits(own.filter(p => p.category === category).map(p => p.amount));
+  const categoryDenial = checkCategoryLimit(allowance, category, amount + plannedInCategory, now);
+  if (categoryDenial) failures.push({ rule: 'category', reason: categoryDenial });
+
+  const poolDenial = checkPools(allowance, amount, now, pending);
+  if (poolDenial) failures.push({ rule: 'pool', reason: poolDenial });
+
+  // The agent pays out of its prepaid balance; earlier spends of a batch may already draw on it
+  const fundsDenial = checkFunds(allowance.agentId, currency, amount, now, sumUnits(pending.map(p => p.amount)));
+  if (fundsDenial) failures.push({ rule: 'balance', reason: fundsDenial });
+
+  const recipientCheck = checkRecipient(allowance, recipient);
+  if (!recipientCheck.allowed && !(recipientCheck.requiresApproval && options.approved)) {
+    failures.push({
+      rule: 'recipient',
+      reason: recipientCheck.reason ?? 'Recipient not allowed',
+      requiresApproval: recipientCheck.requiresApproval ? 'recipient' : undefined,
+    });
   }
-  if (monthlyLimit > 0 && spentThisMonth + amount > monthlyLimit) {
-    return { allowed: false, reason: 'Monthly limit exceeded' };
+
+  const approvalThreshold = allowance.approvalThreshold ?? 0n;
+  if (!options.approved && approvalThreshold > 0n && amount > approvalThreshold) {
+    failures.push({ rule: 'approval_threshold', reason: 'Amount exceeds approval threshold', requiresApproval: 'threshold' });
   }
 
-  return { allowed: true, allowanceId: allowance.id };
+  return failures;
 }
 
-export async function deductSpend(agentId: string, amount: number, category: string, recipient: string, allowanceId?: string): Promise<{ success: boolean; transactionId?: string; reason?: string }> {
-  const check = await checkSpend(agentId, amount, category, allowanceId);
-  
+export async function deductSpend(
+  agentId: string,
+  amount: bigint,
+  category: string,
+  recipient: string,
+  allowanceId?: string,
+  options: SpendOptions = {}
+): Promise<{ success: boolean; transactionId?: string; reason?: string; approvalId?: string; allowanceId?: string; selection?: AllowanceSelection }> {
+  const check = await checkSpend(agentId, amount, category, allowanceId, recipient, options);
+  const { selection } = check;
+
+  // Spends the owner can sign off on are queued instead of failing outright
+  if (check.requiresApproval && check.allowanceId) {
+    if (check.requiresApproval === 'recipient') {
+      await requestRecipientApproval(check.allowanceId, recipient);
+    }
+    const { approvalId } = await requestApproval({
+      kind: options.invoiceId ? 'invoice_payment' : 'spend',
+      allowanceId: check.allowanceId,
+      agentId,
+      amount,
+      category,
+      recipient,
+      reason: check.reason ?? 'Approval required',
+      invoiceId: options.invoiceId,
+      invoiceAmount: options.invoiceAmount,
+    });
+    return { success: false, reason: check.reason, approvalId, allowanceId: check.allowanceId, selection };
+  }
   if (!check.allowed || !check.allowanceId) {
-    return { success: false, reason: check.reason };
+    return { success: false, reason: check.reason, selection };
+  }
+
+  try {
+    const committed = commitSpend(check.allowanceId, amount, category, recipient, options, (allowance, now) => {
+      if (options.invoiceId) settleInvoice(options.invoiceId, agentId, options.invoiceAmount, now);
+      return recordSpend(allowance.id, amount, category, recipient, {
+        invoiceId: options.invoiceId,
+        subscriptionId: options.subscriptionId,
+        fx: options.fx,
+      }, now);
+    });
+    if (!committed.success) return { success: false, reason: committed.reason, selection };
+    return { success: true, transactionId: committed.value, allowanceId: check.allowanceId, selection };
+  } catch (error) {
+    console.error("Spend error:", error);
+    return { success: false, reason: 'Database error' };
   }
+}
+
+/**
+ * Re-check a spend against the allowance as it is now and run `write` in the same immediate
+ * transaction. checkSpend runs before any lock is taken, so a concurrent spend may have used
+ * the headroom since; that spend wins and this one is denied, without the denial side effects.
+ */
+export function commitSpend<T>(
+  allowanceId: string,
+  amount: bigint,
+  category: string,
+  recipient: string | undefined,
+  options: SpendOptions,
+  write: (allowance: Allowance, now: number) => T
+): { success: true; value: T } | { success: false; reason: string } {
+  try {
+    return db.transaction(() => {
+      const now = Date.now();
+      const stored = db.select().from(allowances).where(eq(allowances.id, allowanceId)).get();
+      if (!stored) throw new SpendConflictError('Allowance not found');
 
-  const finalAllowanceId = check.allowanceId;
+      const allowance = rollPeriods(stored, now);
+      const [failure] = spendFailures(allowance, amount, category, recipient, options, now);
+      if (failure) throw new SpendConflictError(failure.reason);
 
+      return { success: true as const, value: write(allowance, now) };
+    }, { behavior: 'immediate' });
+  } catch (error) {
+    if (error instanceof SpendConflictError || error instanceof InsufficientFundsError) {
+      return { success: false, reason: error.message };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Add a payment to an invoice from inside the payment's transaction, leaving it paid or
+ * partially paid. A payment for more than is still outstanding, e.g. the second of two
+ * concurrent ones, fails here and rolls back its spend.
+ */
+function settleInvoice(invoiceId: string, payerId: string, amount: bigint | undefined, now: number): void {
+  const invoice = db.select().from(invoices).where(eq(invoices.id, invoiceId)).get();
+  if (!invoice) throw new SpendConflictError('Invoice not found');
+  // Checked again here, as a dispute may have been opened since the payment was checked
+  if (invoice.status === 'disputed') throw new SpendConflictError('Invoice is disputed');
+
+  const outstanding = invoice.amount - (invoice.paidAmount ?? 0n);
+  const paying = amount ?? outstanding;
+  if (paying > outstanding) throw new SpendConflictError('Payment exceeds the outstanding balance');
+
+  const paidAmount = (invoice.paidAmount ?? 0n) + paying;
   try {
-    // Start transaction (manual or drizzle transaction)
-    // For better-sqlite3, synchronous calls are transactions if wrapped correctly, 
-    // but Drizzle has transaction support too. 
-    // For simplicity, we'll just update sequentially as this is MVP.
-    // In production, wrap in db.transaction().
-
-    await db.update(allowances)
-      .set({
-        spentToday: sql`${allowances.spentToday} + ${amount}`,
-        spentThisWeek: sql`${allowances.spentThisWeek} + ${amount}`,
-        spentThisMonth: sql`${allowances.spentThisMonth} + ${amount}`,
-      })
-      .where(eq(allowances.id, finalAllowanceId))
-      .run();
-
-    const txId = uuidv4();
-    await db.insert(transactions).values({
-      id: txId,
-      allowanceId: finalAllowanceId,
+    transitionInvoice(invoiceId, paidAmount >= invoice.amount ? 'paid' : 'partially_paid', payerId, undefined, now, { paidAmount });
+  } catch (error) {
+    if (error instanceof InvalidTransitionError) throw new SpendConflictError(error.message);
+    throw error;
+  }
+}
+
+/**
+ * Debit the counters and write the transaction and its journal entry for a spend that has
+ * already passed checkSpend (directly, or earlier when its hold was authorized). Invoice and
+ * subscription payments also pay the platform fee out of what the recipient gets. All of it
+ * commits together, or as part of the caller's transaction.
+ */
+export function recordSpend(
+  allowanceId: string,
+  amount: bigint,
+  category: string,
+  recipient: string,
+  source: SpendSource = {},
+  now: number = Date.now()
+): string {
+  const txId = db.transaction(() => {
+    // Counters may belong to an earlier period, e.g. a hold captured after midnight
+    const stored = db.select().from(allowances).where(eq(allowances.id, allowanceId)).get();
+    const allowance = stored ? rollPeriods(stored, now) : undefined;
+
+    // Counters are text, so they are added up here rather than with SQL arithmetic
+    if (allowance) {
+      db.update(allowances)
+        .set({
+          spentToday: (allowance.spentToday ?? 0n) + amount,
+          spentThisWeek: (allowance.spentThisWeek ?? 0n) + amount,
+          spentThisMonth: (allowance.spentThisMonth ?? 0n) + amount,
+        })
+        .where(eq(allowances.id, allowanceId))
+        .run();
+    }
+
+    // An escrowed payment's fee is charged when it is released
+    const currency = allowance?.currency ?? DEFAULT_CURRENCY;
+    const fee = source.invoiceId && !source.escrowId ? computeFee(amount, currency, recipient, category) : undefined;
+
+    const id = uuidv4();
+    db.insert(transactions).values({
+      id,
+      allowanceId: allowanceId,
       amount: amount,
+      currency,
       category: category,
       recipient: recipient,
       status: 'success',
-      timestamp: Date.now(),
+      invoiceId: source.invoiceId,
+      subscriptionId: source.subscriptionId,
+      originalAmount: source.fx?.originalAmount,
+      originalCurrency: source.fx?.originalCurrency,
+      fxRate: source.fx?.rate,
+      fxRateId: source.fx?.rateId,
+      feeAmount: fee?.fee,
+      timestamp: now,
     }).run();
+    if (fee) recordPaymentLines(id, recipient, amount, fee, now);
 
-    return { success: true, transactionId: txId };
-  } catch (error) {
-    console.error("Spend error:", error);
-    return { success: false, reason: 'Database error' };
-  }
+    const { fx, ...refs } = source;
+    if (allowance) {
+      journalSpend(allowance, amount, recipient, { transactionId: id, ...refs }, now, fee?.fee);
+      if (source.escrowId) settleEscrowLock(allowance.agentId, ESCROW_ACCOUNT, currency, amount, id, now);
+      else settleSpend(allowance.agentId, recipient, currency, amount, id, now, fee && { amount: fee.fee, account: FEE_ACCOUNT });
+    }
+    return id;
+  });
+
+  const updated = db.select().from(allowances).where(eq(allowances.id, allowanceId)).get();
+  if (updated) checkLimitAlerts(updated, now);
+
+  return txId;
 }
@@ -0,0 +1,202 @@
+/**
+ * Owner approval queue for spends the allowance won't authorize on its own
+ * (amount above the approval threshold, or an unknown recipient under the 'approval' policy).
+ * Mirrors the MultiSigConfig in AgentAllowance.sol: M of N designated approvers must sign off.
+ */
+
+import { db } from '../db';
+import { allowances, allowanceApprovers, approvalVotes, spendApprovals } from '../db/schema';
+import { and, eq } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import { deductSpend } from './allowance';
+import { authorizeHold } from './holds';
+import { payInvoice } from './ledger';
+import { escrowInvoice } from './escrow';
+import { notify } from './webhooks';
+import { DEFAULT_CURRENCY, formatUnits } from './money';
+
+export type SpendApproval = typeof spendApprovals.$inferSelect;
+export type ApprovalKind = 'spend' | 'invoice_payment' | 'invoice_escrow' | 'hold';
+
+export interface ApprovalRequest {
+  kind: ApprovalKind;
+  allowanceId: string;
+  agentId: string;
+  amount: bigint; // in the allowance's currency
+  category: string;
+  recipient: string;
+  reason: string;
+  invoiceId?: string;
+  invoiceAmount?: bigint; // part of the invoice being paid, in its currency; unset = the outstanding balance
+  holdTtlSeconds?: number;
+  escrowReleaseSeconds?: number;
+}
+
+/**
+ * Designated approvers for an allowance; the owner approves alone when none are set
+ */
+export function getApprovers(allowanceId: string): string[] {
+  const rows = db.select().from(allowanceApprovers).where(eq(allowanceApprovers.allowanceId, allowanceId)).all();
+  if (rows.length > 0) return rows.map(r => r.approverId);
+
+  const allowance = db.select().from(allowances).where(eq(allowances.id, allowanceId)).get();
+  return allowance ? [allowance.ownerId] : [];
+}
+
+export async function setApprovers(allowanceId: string, approverIds: string[]): Promise<{ success: boolean; approvers?: string[]; error?: string }> {
+  try {
+    const unique = [...new Set(approverIds)];
+    await db.delete(allowanceApprovers).where(eq(allowanceApprovers.allowanceId, allowanceId)).run();
+    for (const approverId of unique) {
+      await db.insert(allowanceApprovers).values({ id: uuidv4(), allowanceId, approverId, createdAt: Date.now() }).run();
+    }
+    return { success: true, approvers: getApprovers(allowanceId) };
+  } catch (error) {
+    console.error("Set Approvers error:", error);
+    return { success: false, error: 'Database error' };
+  }
+}
+
+/**
+ * Queue a spend for approval. An invoice already waiting on approval is not queued twice.
+ */
+export async function requestApproval(request: ApprovalRequest): Promise<{ approvalId: string }> {
+  if (request.invoiceId) {
+    const existing = await db.select().from(spendApprovals)
+      .where(and(eq(spendApprovals.invoiceId, request.invoiceId), eq(spendApprovals.status, 'pending_approval')))
+      .limit(1)
+      .get();
+    if (existing) return { approvalId: existing.id };
+  }
+
+  const allowance = await db.select().from(allowances).where(eq(allowances.id, request.allowanceId)).limit(1).get();
+  const approvers = getApprovers(request.allowanceId);
+  const approvalsRequired = Math.max(1, Math.min(allowance?.approvalsRequired ?? 1, approvers.length));
+  const currency = allowance?.currency ?? DEFAULT_CURRENCY;
+
+  const approvalId = uuidv4();
+  await db.insert(spendApprovals).values({
+    id: approvalId,
+    kind: request.kind,
+    allowanceId: request.allowanceId,
+    agentId: request.agentId,
+    amount: request.amount,
+    currency,
+    category: request.category,
+    recipient: request.recipient,
+    invoiceId: request.invoiceId,
+    invoiceAmount: request.invoiceAmount,
+    holdTtlSeconds: request.holdTtlSeconds,
+    escrowReleaseSeconds: request.escrowReleaseSeconds,
+    reason: request.reason,
+    approvalsRequired,
+    status: 'pending_approval',
+    createdAt: Date.now(),
+  }).run();
+
+  for (const recipientId of new Set([request.agentId, ...approvers])) {
+    void notify.approvalRequested(recipientId, approvalId, formatUnits(request.amount, currency), currency, request.reason);
+  }
+
+  return { approvalId };
+}
+
+export function getApprovalVotes(approvalId: string) {
+  return db.select().from(approvalVotes).where(eq(approvalVotes.approvalId, approvalId)).all();
+}
+
+/**
+ * Record one approver's decision. Reaching M approvals runs the spend; a rejection
+ * that leaves fewer than M possible approvals rejects it.
+ */
+export async function decideApproval(
+  approvalId: string,
+  approverId: string,
+  decision: 'approve' | 'reject',
+  comment?: string
+): Promise<{ success: boolean; approval?: SpendApproval; error?: string }> {
+  try {
+    const approval = await db.select().from(spendApprovals).where(eq(spendApprovals.id, approvalId)).limit(1).get();
+
+    if (!approval) return { success: false, error: 'Approval not found' };
+    if (approval.status !== 'pending_approval') return { success: false, error: `Approval is ${approval.status}` };
+
+    const approvers = getApprovers(approval.allowanceId);
+    if (!approvers.includes(approverId)) return { success: false, error: 'Not a designated approver' };
+
+    const votes = getApprovalVotes(approvalId);
+    if (votes.some(v => v.approverId === approverId)) return { success: false, error: 'Approver has already voted' };
+
+    await db.insert(approvalVotes).values({
+      id: uuidv4(),
+      approvalId,
+      approverId,
+      decision,
+      comment,
+      createdAt: Date.now(),
+    }).run();
+
+    const approvals = votes.filter(v => v.decision === 'approve').length + (decision === 'approve' ? 1 : 0);
+    const rejections = votes.filter(v => v.decision === 'reject').length + (decision === 'reject' ? 1 : 0);
+
+    if (rejections > approvers.length - approval.approvalsRequired) {
+      await db.update(spendApprovals)
+        .set({ status: 'rejected', resolvedAt: Date.now() })
+        .where(eq(spendApprovals.id, approvalId))
+        .run();
+      void notify.approvalRejected(approval.agentId, approvalId, approverId);
+    } else if (approvals >= approval.approvalsRequired) {
+      await db.update(spendApprovals)
+        .set({ status: 'approved' })
+        .where(eq(spendApprovals.id, approvalId))
+        .run();
+      void notify.approvalApproved(approval.agentId, approvalId, approvals);
+      await executeApproval(approval);
+    }
+
+    const updated = await db.select().from(spendApprovals).where(eq(spendApprovals.id, approvalId)).limit(1).get();
+    return { success: true, approval: updated };
+  } catch (error) {
+    console.error("Decide Approval error:", error);
+    return { success: false, error: 'Database error' };
+  }
+}
+
+/**
+ * Run an approved spend through the normal path, skipping only the approval gates
+ */
+async function executeApproval(approval: SpendApproval): Promise<void> {
+  let result: { success: boolean; transactionId?: string; holdId?: string; reason?: string; error?: string };
+  const options = { approved: true, currency: approval.currency ?? DEFAULT_CURRENCY };
+
+  if (approval.kind === 'invoice_payment' && approval.invoiceId) {
+    result = await payInvoice(approval.invoiceId, approval.agentId, approval.allowanceId, {
+      approved: true,
+      invoiceAmount: approval.invoiceAmount ?? undefined,
+    });
+  } else if (approval.kind === 'invoice_escrow' && approval.invoiceId) {
+    result = await escrowInvoice(approval.invoiceId, approval.agentId, approval.allowanceId, approval.escrowReleaseSeconds ?? undefined, { approved: true });
+  } else if (approval.kind === 'hold') {
+    result = await authorizeHold(
+      approval.agentId, approval.amount, approval.category, approval.recipient,
+      approval.allowanceId, approval.holdTtlSeconds ?? undefined, options
+    );
+  } else {
+    result = await deductSpend(approval.agentId, approval.amount, approval.category, approval.recipient, approval.allowanceId, options);
+  }
+
+  if (result.success) {
+    await db.update(spendApprovals)
+      .set({ status: 'executed', transactionId: result.transactionId, holdId: result.holdId, resolvedAt: Date.now() })
+      .where(eq(spendApprovals.id, approval.id))
+      .run();
+    void notify.approvalExecuted(approval.agentId, approval.id, result.transactionId, result.holdId);
+  } else {
+    const failureReason = result.reason || result.error || 'Spend failed';
+    await db.update(spendApprovals)
+      .set({ status: 'failed', failureReason, resolvedAt: Date.now() })
+      .where(eq(spendApprovals.id, approval.id))
+      .run();
+    void notify.approvalFailed(approval.agentId, approval.id, failureReason);
+  }
+}
@@ -0,0 +1,297 @@
+/**
+ * Prepaid agent balances
+ * Each agent holds funds per currency. Deposits and incoming payments credit them; spends,
+ * transfers out and withdrawal requests debit them. A spend needs enough available funds
+ * (the balance less what the agent's open holds keep back) as well as allowance headroom.
+ */
+
+import { db } from '../db';
+import { agentBalances, balanceEntries, withdrawals } from '../db/schema';
+import { and, desc, eq } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import { heldForAgent } from './usage';
+import { formatUnits } from './money';
+import { LedgerAccount, PLATFORM_REF, getAccount, journalDeposit, journalTransfer, journalWithdrawal } from './journal';
+import { FEE_ACCOUNT } from './fees';
+
+export type AgentBalance = typeof agentBalances.$inferSelect;
+export type BalanceEntry = typeof balanceEntries.$inferSelect;
+export type Withdrawal = typeof withdrawals.$inferSelect;
+export type BalanceEntryKind =
+  | 'deposit' | 'withdrawal' | 'withdrawal_cancelled'
+  | 'transfer_in' | 'transfer_out'
+  | 'spend' | 'receipt' | 'refund_in' | 'refund_out'
+  | 'fee' | 'fee_refund'
+  | 'escrow_lock' | 'escrow_in' | 'escrow_out';
+
+// Thrown inside a transaction when a debit would take a balance below zero, rolling it back
+export class InsufficientFundsError extends Error {}
+
+// Thrown when a deposit, transfer or withdrawal names a platform holder it may not move
+export class PlatformHolderError extends Error {}
+
+interface EntryRefs {
+  counterparty?: string;
+  transactionId?: string;
+  withdrawalId?: string;
+  reference?: string;
+}
+
+export function getBalance(agentId: string, currency: string): bigint {
+  const row = db.select().from(agentBalances)
+    .where(and(eq(agentBalances.agentId, agentId), eq(agentBalances.currency, currency)))
+    .get();
+  return row?.balance ?? 0n;
+}
+
+/**
+ * Balance the agent can still commit: what it holds less its open holds
+ */
+export function availableBalance(agentId: string, currency: string, now: number = Date.now()): bigint {
+  return getBalance(agentId, currency) - heldForAgent(agentId, currency, now);
+}
+
+/**
+ * Denial reason when the agent cannot fund `amount` on top of `pending` (earlier spends of a
+ * batch that are not recorded yet), otherwise undefined
+ */
+export function checkFunds(agentId: string, currency: string, amount: bigint, now: number = Date.now(), pending: bigint = 0n): string | undefined {
+  const available = availableBalance(agentId, currency, now) - pending;
+  if (amount <= available) return undefined;
+  return `Insufficient funds: ${formatUnits(available > 0n ? available : 0n, currency)} ${currency} available`;
+}
+
+/**
+ * Platform holders (fees, escrow) are moved by the platform itself, never as an agent
+ */
+export function isPlatformHolder(holderId: string): boolean {
+  return holderId.startsWith(`${PLATFORM_REF}:`);
+}
+
+/**
+ * The journal account that mirrors a holder's prepaid funds: fees for the platform fee
+ * account, so a fee withdrawal draws on both. Escrow has no account of its own to mirror,
+ * so it is never deposited to, transferred or withdrawn.
+ */
+function ledgerAccount(holderId: string, currency: string): LedgerAccount {
+  if (holderId === FEE_ACCOUNT) return getAccount('fees', PLATFORM_REF, currency);
+  if (isPlatformHolder(holderId)) throw new PlatformHolderError(`${holderId} cannot be deposited to, transferred or withdrawn`);
+  return getAccount('agent', holderId, currency);
+}
+
+/**
+ * Credit (positive) or debit (negative) a balance and write its history entry. Run inside
+ * a transaction; a debit past the available funds throws InsufficientFundsError.
+ */
+function applyEntry(agentId: string, currency: string, kind: BalanceEntryKind, amount: bigint, refs: EntryRefs, now: number): BalanceEntry {
+  db.insert(agentBalances)
+    .values({ id: uuidv4(), agentId, currency, balance: 0n, updatedAt: now })
+    .onConflictDoNothing()
+    .run();
+
+  if (amount < 0n && -amount > availableBalance(agentId, currency, now)) {
+    throw new InsufficientFundsError(checkFunds(agentId, currency, -amount, now));
+  }
+
+  const balanceAfter = getBalance(agentId, currency) + amount;
+  db.update(agentBalances)
+    .set({ balance: balanceAfter, updatedAt: now })
+    .where(and(eq(agentBalances.agentId, agentId), eq(agentBalances.currency, currency)))
+    .run();
+
+  const entry: BalanceEntry = {
+    id: uuidv4(),
+    agentId,
+    currency,
+    kind,
+    amount,
+    balanceAfter,
+    counterparty: refs.counterparty ?? null,
+    transactionId: refs.transactionId ?? null,
+    withdrawalId: refs.withdrawalId ?? null,
+    reference: refs.reference ?? null,
+    createdAt: now,
+  };
+  db.insert(balanceEntries).values(entry).run();
+  return entry;
+}
+
+/**
+ * Move a recorded spend from the payer's balance to the recipient's, inside the spend's
+ * transaction; a platform fee is split off to `feeAccount`. A captured hold is settled
+ * before this runs, so the funds it kept back are available again here.
+ */
+export function settleSpend(payerId: string, recipient: string, currency: string, amount: bigint, transactionId: string, now: number = Date.now(), fee?: { amount: bigint; account: string }): void {
+  applyEntry(payerId, currency, 'spend', -amount, { counterparty: recipient, transactionId }, now);
+  applyEntry(recipient, currency, 'receipt', amount - (fee?.amount ?? 0n), { counterparty: payerId, transactionId }, now);
+  if (fee && fee.amount > 0n) {
+    applyEntry(fee.account, currency, 'fee', fee.amount, { counterparty: payerId, transactionId }, now);
+  }
+}
+
+/**
+ * Lock a spend's funds in `escrowAccount` instead of paying the recipient, inside the
+ * spend's transaction
+ */
+export function settleEscrowLock(payerId: string, escrowAccount: string, currency: string, amount: bigint, transactionId: string, now: number = Date.now()): void {
+  applyEntry(payerId, currency, 'escrow_lock', -amount, { counterparty: escrowAccount, transactionId }, now);
+  applyEntry(escrowAccount, currency, 'escrow_in', amount, { counterparty: payerId, transactionId }, now);
+}
+
+/**
+ * Pay escrowed funds out of `escrowAccount` to the recipient, splitting the platform fee
+ * off to `feeAccount`
+ */
+export function settleEscrowRelease(escrowAccount: string, payerId: string, recipient: string, currency: string, amount: bigint, transactionId: string, now: number = Date.now(), fee?: { amount: bigint; account: string }): void {
+  applyEntry(escrowAccount, currency, 'escrow_out', -amount, { counterparty: recipient, transactionId }, now);
+  applyEntry(recipient, currency, 'receipt', amount - (fee?.amount ?? 0n), { counterparty: payerId, transactionId }, now);
+  if (fee && fee.amount > 0n) {
+    applyEntry(fee.account, currency, 'fee', fee.amount, { counterparty: payerId, transactionId }, now);
+  }
+}
+
+/**
+ * Give escrowed funds back to the payer as a refund
+ */
+export function settleEscrowReturn(escrowAccount: string, payerId: string, currency: string, amount: bigint, transactionId: string, now: number = Date.now()): void {
+  applyEntry(escrowAccount, currency, 'escrow_out', -amount, { counterparty: payerId, transactionId }, now);
+  applyEntry(payerId, currency, 'refund_in', amount, { counterparty: escrowAccount, transactionId }, now);
+}
+
+/**
+ * Give a refund back from the recipient's balance to the payer's, with the share of the
+ * fee that comes back from `feeAccount`. Runs inside the refund's transaction and throws
+ * InsufficientFundsError if the recipient no longer has the funds.
+ */
+export function settleRefund(payerId: string, recipient: string, currency: string, amount: bigint, transactionId: string, now: number = Date.now(), fee?: { amount: bigint; account: string }): void {
+  applyEntry(recipient, currency, 'refund_out', -(amount - (fee?.amount ?? 0n)), { counterparty: payerId, transactionId }, now);
+  if (fee && fee.amount > 0n) {
+    applyEntry(fee.account, currency, 'fee_refund', -fee.amount, { counterparty: payerId, transactionId }, now);
+  }
+  applyEntry(payerId, currency, 'refund_in', amount, { counterparty: recipient, transactionId }, now);
+}
+
+export async function deposit(
+  agentId: string,
+  currency: string,
+  amount: bigint,
+  reference?: string
+): Promise<{ success: boolean; entry?: BalanceEntry; error?: string }> {
+  try {
+    const entry = db.transaction(() => {
+      const now = Date.now();
+      journalDeposit(ledgerAccount(agentId, currency), amount, { memo: reference }, now);
+      return applyEntry(agentId, currency, 'deposit', amount, { reference }, now);
+    });
+    return { success: true, entry };
+  } catch (error) {
+    if (error instanceof PlatformHolderError) return { success: false, error: error.message };
+    console.error("Deposit error:", error);
+    return { success: false, error: 'Database error' };
+  }
+}
+
+export async function transfer(
+  fromAgentId: string,
+  toAgentId: string,
+  currency: string,
+  amount: bigint,
+  reference?: string
+): Promise<{ success: boolean; entry?: BalanceEntry; error?: string }> {
+  if (fromAgentId === toAgentId) return { success: false, error: 'Cannot transfer to the same agent' };
+
+  try {
+    const entry = db.transaction(() => {
+      const now = Date.now();
+      const from = ledgerAccount(fromAgentId, currency);
+      const to = ledgerAccount(toAgentId, currency);
+      const out = applyEntry(fromAgentId, currency, 'transfer_out', -amount, { counterparty: toAgentId, reference }, now);
+      applyEntry(toAgentId, currency, 'transfer_in', amount, { counterparty: fromAgentId, reference }, now);
+      journalTransfer(from, to, amount, { memo: reference }, now);
+      return out;
+    }, { behavior: 'immediate' });
+    return { success: true, entry };
+  } catch (error) {
+    if (error instanceof InsufficientFundsError || error instanceof PlatformHolderError) return { success: false, error: error.message };
+    console.error("Transfer error:", error);
+    return { success: false, error: 'Database error' };
+  }
+}
+
+/**
+ * Request a payout. The funds leave the balance at once and come back if it is cancelled.
+ */
+export async function requestWithdrawal(
+  agentId: string,
+  currency: string,
+  amount: bigint,
+  destination?: string
+): Promise<{ success: boolean; withdrawal?: Withdrawal; error?: string }> {
+  try {
+    const withdrawal = db.transaction(() => {
+      const now = Date.now();
+      const account = ledgerAccount(agentId, currency);
+      const row: Withdrawal = { id: uuidv4(), agentId, amount, currency, destination: destination ?? null, status: 'pending', createdAt: now, settledAt: null };
+      applyEntry(agentId, currency, 'withdrawal', -amount, { withdrawalId: row.id, reference: destination }, now);
+      journalWithdrawal(account, amount, { withdrawalId: row.id, memo: destination }, now);
+      db.insert(withdrawals).values(row).run();
+      return row;
+    }, { behavior: 'immediate' });
+    return { success: true, withdrawal };
+  } catch (error) {
+    if (error instanceof InsufficientFundsError || error instanceof PlatformHolderError) return { success: false, error: error.message };
+    console.error("Request Withdrawal error:", error);
+    return { success: false, error: 'Database error' };
+  }
+}
+
+/**
+ * Mark a pending withdrawal paid out, or cancel it and return the funds
+ */
+export async function settleWithdrawal(
+  withdrawalId: string,
+  outcome: 'completed' | 'cancelled'
+): Promise<{ success: boolean; withdrawal?: Withdrawal; error?: string }> {
+  try {
+    const { withdrawal, claimed } = db.transaction(() => {
+      const now = Date.now();
+      const { changes } = db.update(withdrawals)
+        .set({ status: outcome, settledAt: now })
+        .where(and(eq(withdrawals.id, withdrawalId), eq(withdrawals.status, 'pending')))
+        .run();
+      const row = db.select().from(withdrawals).where(eq(withdrawals.id, withdrawalId)).get();
+
+      if (row && changes > 0 && outcome === 'cancelled') {
+        applyEntry(row.agentId, row.currency, 'withdrawal_cancelled', row.amount, { withdrawalId }, now);
+        journalWithdrawal(ledgerAccount(row.agentId, row.currency), row.amount, { withdrawalId }, now, true);
+      }
+      return { withdrawal: row, claimed: changes > 0 };
+    }, { behavior: 'immediate' });
+
+    if (!withdrawal) return { success: false, error: 'Withdrawal not found' };
+    if (!claimed) return { success: false, error: `Withdrawal is ${withdrawal.status}` };
+    return { success: true, withdrawal };
+  } catch (error) {
+    console.error("Settle Withdrawal error:", error);
+    return { success: false, error: 'Database error' };
+  }
+}
+
+export function getBalances(agentId: string, now: number = Date.now()) {
+  return db.select().from(agentBalances)
+    .where(eq(agentBalances.agentId, agentId))
+    .all()
+    .map(b => {
+      const held = heldForAgent(agentId, b.currency, now);
+      return { currency: b.currency, balance: b.balance, held, available: b.balance - held, updatedAt: b.updatedAt };
+    });
+}
+
+export function getBalanceHistory(agentId: string, currency?: string, limit: number = 50, offset: number = 0): BalanceEntry[] {
+  return db.select().from(balanceEntries)
+    .where(and(eq(balanceEntries.agentId, agentId), currency ? eq(balanceEntries.currency, currency) : undefined))
+    .orderBy(desc(balanceEntries.createdAt))
+    .limit(limit)
+    .offset(offset)
+    .all();
+}
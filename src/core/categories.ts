@@ -0,0 +1,113 @@
+/**
+ * Per-category budgets on allowances
+ * Owners can cap (or block) individual spend categories on top of the allowance-wide limits.
+ */
+
+import { db } from '../db';
+import { categoryLimits } from '../db/schema';
+import { and, eq } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import type { Allowance } from './allowance';
+import { Period, PERIODS, DEFAULT_TIMEZONE, periodStart } from './periods';
+import { spentSince, heldAmount } from './usage';
+
+export type CategoryLimit = typeof categoryLimits.$inferSelect;
+
+export interface CategoryRule {
+  dailyLimit?: bigint; // in the allowance's currency
+  weeklyLimit?: bigint;
+  monthlyLimit?: bigint;
+  blocked?: boolean;
+}
+
+const LIMIT_FIELDS = {
+  daily: 'dailyLimit',
+  weekly: 'weeklyLimit',
+  monthly: 'monthlyLimit',
+} as const satisfies Record<Period, keyof CategoryLimit>;
+
+export function getCategoryLimits(allowanceId: string): CategoryLimit[] {
+  return db.select().from(categoryLimits).where(eq(categoryLimits.allowanceId, allowanceId)).all();
+}
+
+/**
+ * Category rules for an allowance together with what has been spent in each window
+ */
+export function getCategoryUsage(allowance: Allowance, now: number = Date.now()) {
+  const timezone = allowance.timezone ?? DEFAULT_TIMEZONE;
+  return getCategoryLimits(allowance.id).map(rule => ({
+    category: rule.category,
+    blocked: rule.blocked ?? false,
+    limits: {
+      daily: rule.dailyLimit ?? 0n,
+      weekly: rule.weeklyLimit ?? 0n,
+      monthly: rule.monthlyLimit ?? 0n,
+    },
+    spent: Object.fromEntries(
+      PERIODS.map(period => [period, spentSince(allowance.id, periodStart(period, now, timezone), rule.category)])
+    ) as Record<Period, bigint>,
+  }));
+}
+
+/**
+ * Returns the denial reason if a spend would break the category's rule, otherwise undefined
+ */
+export function checkCategoryLimit(allowance: Allowance, category: string, amount: bigint, now: number = Date.now()): string | undefined {
+  const rule = db.select().from(categoryLimits)
+    .where(and(eq(categoryLimits.allowanceId, allowance.id), eq(categoryLimits.category, category)))
+    .get();
+  if (!rule) return undefined;
+
+  if (rule.blocked) return `Category '${category}' is blocked`;
+
+  const timezone = allowance.timezone ?? DEFAULT_TIMEZONE;
+  const held = heldAmount(allowance.id, now, category);
+  for (const period of PERIODS) {
+    const limit = rule[LIMIT_FIELDS[period]] ?? 0n;
+    if (limit <= 0n) continue;
+    const spent = spentSince(allowance.id, periodStart(period, now, timezone), category);
+    if (spent + held + amount > limit) {
+      return `Category '${category}' ${period} limit exceeded`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Create or replace the rule for one category on an allowance
+ */
+export async function setCategoryLimit(allowanceId: string, category: string, rule: CategoryRule): Promise<{ success: boolean; categoryLimit?: CategoryLimit; error?: string }> {
+  try {
+    const values = {
+      dailyLimit: rule.dailyLimit ?? 0n,
+      weeklyLimit: rule.weeklyLimit ?? 0n,
+      monthlyLimit: rule.monthlyLimit ?? 0n,
+      blocked: rule.blocked ?? false,
+    };
+
+    const categoryLimit = await db.insert(categoryLimits)
+      .values({ id: uuidv4(), allowanceId, category, ...values, createdAt: Date.now() })
+      .onConflictDoUpdate({ target: [categoryLimits.allowanceId, categoryLimits.category], set: values })
+      .returning()
+      .get();
+
+    return { success: true, categoryLimit };
+  } catch (error) {
+    console.error("Set Category Limit error:", error);
+    return { success: false, error: 'Database error' };
+  }
+}
+
+export async function removeCategoryLimit(allowanceId: string, category: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const result = await db.delete(categoryLimits)
+      .where(and(eq(categoryLimits.allowanceId, allowanceId), eq(categoryLimits.category, category)))
+      .run();
+
+    if (result.changes === 0) return { success: false, error: 'Category rule not found' };
+    return { success: true };
+  } catch (error) {
+    console.error("Remove Category Limit error:", error);
+    return { success: false, error: 'Database error' };
+  }
+}
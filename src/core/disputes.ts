@@ -0,0 +1,371 @@
+/**
+ * Invoice disputes, after raiseDispute and resolveDispute in InvoiceSettlement.sol
+ * Either party can dispute an invoice that is being paid, held in escrow or paid, naming
+ * the validators who will settle it. While the dispute is open the invoice is frozen: no
+ * payments, installment charges, refunds or escrow release. A majority of the validators
+ * voting for the same outcome resolves it: a full refund to the payer, a release to the
+ * issuer, or a split of what was paid between them.
+ */
+
+import { db } from '../db';
+import { disputeEvidence, disputeValidators, disputeVotes, invoiceDisputes, invoices, invoiceTransitions, transactions } from '../db/schema';
+import { and, asc, desc, eq } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import { InsufficientFundsError } from './balances';
+import { freezeEscrow, getEscrow, releaseDueEscrows, settleDisputedEscrow } from './escrow';
+import { InvalidTransitionError, InvoiceStatus, nextStatuses, resolveDisputedInvoice, transitionInvoice } from './invoiceStates';
+import { DEFAULT_CURRENCY, percentOf } from './money';
+import { invoiceRefundStatus, refundSpend } from './refunds';
+import { notify } from './webhooks';
+
+export type InvoiceDispute = typeof invoiceDisputes.$inferSelect;
+export type DisputeEvidence = typeof disputeEvidence.$inferSelect;
+export type DisputeVote = typeof disputeVotes.$inferSelect;
+export type DisputeOutcome = 'refund' | 'release' | 'split';
+
+export const DISPUTE_OUTCOMES: DisputeOutcome[] = ['refund', 'release', 'split'];
+
+export interface EvidenceInput {
+  reference: string; // e.g. a URL, content hash or on-chain tx
+  description?: string;
+}
+
+export interface DisputeRequest {
+  reason: string;
+  validators: string[];
+  evidence?: EvidenceInput[];
+}
+
+export interface VoteInput {
+  outcome: DisputeOutcome;
+  payerShare?: number; // split only: percent of what was paid that goes back to the payer
+  comment?: string;
+}
+
+export interface DisputeResult {
+  success: boolean;
+  dispute?: InvoiceDispute;
+  invoiceStatus?: string;
+  error?: string;
+  allowed?: InvoiceStatus[];
+}
+
+// Thrown inside a dispute's transaction to roll it back
+class DisputeError extends Error {}
+
+/**
+ * Votes needed to resolve a dispute: a majority of its validators, as in resolveDispute
+ */
+export function votesRequired(validators: number): number {
+  return Math.floor(validators / 2) + 1;
+}
+
+export function getDispute(disputeId: string): InvoiceDispute | undefined {
+  return db.select().from(invoiceDisputes).where(eq(invoiceDisputes.id, disputeId)).get();
+}
+
+export function getInvoiceDisputes(invoiceId: string): InvoiceDispute[] {
+  return db.select().from(invoiceDisputes)
+    .where(eq(invoiceDisputes.invoiceId, invoiceId))
+    .orderBy(desc(invoiceDisputes.createdAt))
+    .all();
+}
+
+export function getValidators(disputeId: string): string[] {
+  return db.select().from(disputeValidators).where(eq(disputeValidators.disputeId, disputeId)).all().map(v => v.validatorId);
+}
+
+export function getEvidence(disputeId: string): DisputeEvidence[] {
+  return db.select().from(disputeEvidence)
+    .where(eq(disputeEvidence.disputeId, disputeId))
+    .orderBy(asc(disputeEvidence.createdAt))
+    .all();
+}
+
+/**
+ * Every vote cast on a dispute, oldest first
+ */
+export function getVotes(disputeId: string): DisputeVote[] {
+  return db.select().from(disputeVotes)
+    .where(eq(disputeVotes.disputeId, disputeId))
+    .orderBy(asc(disputeVotes.createdAt))
+    .all();
+}
+
+/**
+ * Each validator's latest vote
+ */
+export function currentVotes(disputeId: string): DisputeVote[] {
+  const latest = new Map<string, DisputeVote>();
+  for (const vote of getVotes(disputeId)) latest.set(vote.validatorId, vote);
+  return [...latest.values()];
+}
+
+/**
+ * Open a dispute over an invoice, freezing its payments or escrow until validators resolve it.
+ * An escrow past its auto-release deadline is released first, so it is disputed as paid.
+ */
+export async function openDispute(invoiceId: string, actorId: string, request: DisputeRequest): Promise<DisputeResult> {
+  try {
+    await releaseDueEscrows();
+    const invoice = await db.select().from(invoices).where(eq(invoices.id, invoiceId)).limit(1).get();
+    if (!invoice) return { success: false, error: 'Invoice not found' };
+    if (actorId !== invoice.issuerId && actorId !== invoice.recipientId) {
+      return { success: false, error: 'Only the issuer or recipient of an invoice can dispute it' };
+    }
+
+    const validators = [...new Set(request.validators)];
+    if (validators.length === 0) return { success: false, error: 'A dispute needs at least one validator' };
+    if (validators.includes(invoice.issuerId) || validators.includes(invoice.recipientId)) {
+      return { success: false, error: 'Validators cannot be parties to the invoice' };
+    }
+
+    const dispute = db.transaction(() => {
+      const now = Date.now();
+      const current = db.select().from(invoices).where(eq(invoices.id, invoiceId)).get();
+      const previousStatus = current?.status ?? 'draft';
+      transitionInvoice(invoiceId, 'disputed', actorId, request.reason, now);
+
+      const escrow = previousStatus === 'escrowed' ? getEscrow(invoiceId) : undefined;
+      if (escrow && !freezeEscrow(escrow, request.reason)) throw new DisputeError('Escrow is already settled');
+
+      const row: InvoiceDispute = {
+        id: uuidv4(),
+        invoiceId,
+        openedBy: actorId,
+        reason: request.reason,
+        previousStatus,
+        votesRequired: votesRequired(validators.length),
+        status: 'open',
+        outcome: null,
+        payerShare: null,
+        resolvedAt: null,
+        createdAt: now,
+      };
+      db.insert(invoiceDisputes).values(row).run();
+      for (const validatorId of validators) {
+        db.insert(disputeValidators).values({ id: uuidv4(), disputeId: row.id, validatorId }).run();
+      }
+      for (const evidence of request.evidence ?? []) {
+        insertEvidence(row.id, actorId, evidence, now);
+      }
+      return row;
+    }, { behavior: 'immediate' });
+
+    for (const agentId of new Set([invoice.issuerId, invoice.recipientId, ...validators])) {
+      void notify.invoiceDisputed(agentId, invoiceId, dispute.id, actorId, request.reason, validators);
+    }
+    return { success: true, dispute, invoiceStatus: 'disputed' };
+  } catch (error) {
+    if (error instanceof InvalidTransitionError) return { success: false, error: error.message, allowed: error.allowed };
+    if (error instanceof DisputeError) return { success: false, error: error.message };
+    console.error("Open Dispute error:", error);
+    return { success: false, error: 'Database error' };
+  }
+}
+
+function insertEvidence(disputeId: string, submittedBy: string, input: EvidenceInput, now: number): DisputeEvidence {
+  const evidence: DisputeEvidence = {
+    id: uuidv4(),
+    disputeId,
+    submittedBy,
+    reference: input.reference,
+    description: input.description ?? null,
+    createdAt: now,
+  };
+  db.insert(disputeEvidence).values(evidence).run();
+  return evidence;
+}
+
+/**
+ * Either party adds a piece of evidence to an open dispute
+ */
+export async function addEvidence(disputeId: string, actorId: string, input: EvidenceInput): Promise<{ success: boolean; evidence?: DisputeEvidence; error?: string }> {
+  try {
+    const dispute = getDispute(disputeId);
+    if (!dispute) return { success: false, error: 'Dispute not found' };
+
+    const invoice = await db.select().from(invoices).where(eq(invoices.id, dispute.invoiceId)).limit(1).get();
+    if (actorId !== invoice?.issuerId && actorId !== invoice?.recipientId) {
+      return { success: false, error: 'Only the parties to a dispute can add evidence' };
+    }
+    if (dispute.status !== 'open') return { success: false, error: `Dispute is ${dispute.status}` };
+
+    return { success: true, evidence: insertEvidence(disputeId, actorId, input, Date.now()) };
+  } catch (error) {
+    console.error("Add Evidence error:", error);
+    return { success: false, error: 'Database error' };
+  }
+}
+
+const sameVote = (a: Pick<DisputeVote, 'outcome' | 'payerShare'>, b: Pick<DisputeVote, 'outcome' | 'payerShare'>) =>
+  a.outcome === b.outcome && (a.outcome !== 'split' || a.payerShare === b.payerShare);
+
+/**
+ * Record a validator's vote. Once enough of them agree on an outcome the dispute is
+ * resolved with it, in the same transaction, and the vote fails if the outcome cannot be
+ * carried out (e.g. the issuer no longer has the funds for a refund).
+ */
+export async function castVote(disputeId: string, validatorId: string, input: VoteInput): Promise<DisputeResult & { votes?: DisputeVote[] }> {
+  try {
+    const dispute = getDispute(disputeId);
+    if (!dispute) return { success: false, error: 'Dispute not found' };
+    if (!getValidators(disputeId).includes(validatorId)) return { success: false, error: 'Only a validator of the dispute can vote' };
+    if (dispute.status !== 'open') return { success: false, error: `Dispute is ${dispute.status}` };
+
+    const invoice = await db.select().from(invoices).where(eq(invoices.id, dispute.invoiceId)).limit(1).get();
+    if (!invoice) return { success: false, error: 'Invoice not found' };
+    if (input.outcome === 'split' && !(invoice.paidAmount ?? 0n)) {
+      return { success: false, error: 'Nothing has been paid on the invoice to split' };
+    }
+
+    const result = db.transaction(() => {
+      const now = Date.now();
+      const vote: DisputeVote = {
+        id: uuidv4(),
+        disputeId,
+        validatorId,
+        outcome: input.outcome,
+        payerShare: input.outcome === 'split' ? input.payerShare ?? 50 : null,
+        comment: input.comment ?? null,
+        createdAt: now,
+      };
+      db.insert(disputeVotes).values(vote).run();
+
+      const agreeing = currentVotes(disputeId).filter(v => sameVote(v, vote)).length;
+      if (agreeing < dispute.votesRequired) return { dispute, invoiceStatus: invoice.status ?? undefined };
+
+      return resolveDispute(dispute, vote, now);
+    }, { behavior: 'immediate' });
+
+    if (result.dispute.status === 'resolved') {
+      for (const agentId of new Set([invoice.issuerId, invoice.recipientId, ...getValidators(disputeId)])) {
+        void notify.disputeResolved(agentId, invoice.id, disputeId, result.dispute.outcome ?? input.outcome, result.dispute.payerShare ?? undefined, result.invoiceStatus ?? '');
+      }
+    }
+    return { success: true, ...result, votes: currentVotes(disputeId) };
+  } catch (error) {
+    if (error instanceof InvalidTransitionError || error instanceof InsufficientFundsError || error instanceof DisputeError) {
+      return { success: false, error: error.message };
+    }
+    console.error("Cast Vote error:", error);
+    return { success: false, error: 'Database error' };
+  }
+}
+
+/**
+ * Carry out the outcome the validators agreed on, inside the deciding vote's transaction.
+ * Escrowed funds are divided straight out of escrow; payments already settled are refunded
+ * from the issuer. A release of an invoice that was not escrowed puts it back as it was.
+ */
+function resolveDispute(dispute: InvoiceDispute, vote: DisputeVote, now: number): { dispute: InvoiceDispute; invoiceStatus: string } {
+  const outcome = vote.outcome as DisputeOutcome;
+  const payerShare = outcome === 'split' ? vote.payerShare : null;
+  const { changes } = db.update(invoiceDisputes)
+    .set({ status: 'resolved', outcome, payerShare, resolvedAt: now })
+    .where(and(eq(invoiceDisputes.id, dispute.id), eq(invoiceDisputes.status, 'open')))
+    .run();
+  if (changes === 0) throw new DisputeError('Dispute is already resolved');
+
+  const invoice = db.select().from(invoices).where(eq(invoices.id, dispute.invoiceId)).get();
+  if (!invoice) throw new DisputeError('Invoice not found');
+
+  const reason = `Dispute resolved: ${outcome}`;
+  const toPayer = (amount: bigint) =>
+    outcome === 'refund' ? amount : outcome === 'release' ? 0n : percentOf(amount, payerShare ?? 0);
+
+  let status: InvoiceStatus;
+  const escrow = getEscrow(invoice.id);
+  if (escrow?.status === 'disputed') {
+    const payerAmount = toPayer(escrow.amount);
+    if (!settleDisputedEscrow(escrow, invoice.issuerId, payerAmount, vote.validatorId, reason, now)) {
+      throw new DisputeError('Escrow is already settled');
+    }
+    status = payerAmount <= 0n ? 'paid' : payerAmount >= escrow.amount ? 'refunded' : 'partially_refunded';
+  } else {
+    const payments = db.select().from(transactions)
+      .where(and(eq(transactions.invoiceId, invoice.id), eq(transactions.kind, 'spend'), eq(transactions.status, 'success')))
+      .all();
+
+    let refunded = false;
+    for (const payment of payments) {
+      const amount = toPayer(payment.amount - (payment.refundedAmount ?? 0n));
+      if (amount <= 0n) continue;
+      refundSpend(payment, amount, reason, now);
+      refunded = true;
+    }
+
+    // A refund of an invoice nothing was paid on simply closes it
+    status = refunded ? invoiceRefundStatus(invoice.id)
+      : outcome === 'refund' ? 'cancelled'
+      : dispute.previousStatus as InvoiceStatus;
+  }
+
+  if (!nextStatuses('disputed').includes(status)) throw new DisputeError(`Invoice cannot move from disputed to ${status}`);
+  resolveDisputedInvoice(invoice.id, status, vote.validatorId, reason, now);
+  return { dispute: { ...dispute, status: 'resolved', outcome, payerShare, resolvedAt: now }, invoiceStatus: status };
+}
+
+/**
+ * Everything that happened to an invoice, oldest first: its status changes, payments and
+ * refunds, escrow, and its disputes with their evidence and votes. Amounts are in the
+ * entry's `currency`.
+ */
+export function getInvoiceTimeline(invoiceId: string) {
+  const invoice = db.select().from(invoices).where(eq(invoices.id, invoiceId)).get();
+  if (!invoice) return [];
+  const invoiceCurrency = invoice.currency ?? DEFAULT_CURRENCY;
+
+  const entries: { at: number; event: string; actor: string | null; [detail: string]: unknown }[] = [];
+
+  const transitions = db.select().from(invoiceTransitions).where(eq(invoiceTransitions.invoiceId, invoiceId)).all();
+  for (const t of transitions) {
+    entries.push({ at: t.createdAt, event: 'status', actor: t.actor, from: t.fromStatus, to: t.toStatus, reason: t.reason, currency: invoiceCurrency });
+  }
+
+  const txs = db.select().from(transactions).where(eq(transactions.invoiceId, invoiceId)).all();
+  for (const tx of txs) {
+    entries.push({
+      at: tx.timestamp ?? 0,
+      event: tx.kind === 'refund' ? 'refund' : 'payment',
+      actor: null,
+      transactionId: tx.id,
+      amount: tx.amount,
+      feeAmount: tx.feeAmount,
+      currency: tx.currency ?? DEFAULT_CURRENCY,
+      reason: tx.reason,
+    });
+  }
+
+  const escrow = getEscrow(invoiceId);
+  if (escrow) {
+    entries.push({ at: escrow.createdAt, event: 'escrow_locked', actor: escrow.payerId, amount: escrow.amount, currency: escrow.currency, autoReleaseAt: escrow.autoReleaseAt });
+    if (escrow.settledAt) {
+      entries.push({
+        at: escrow.settledAt,
+        event: `escrow_${escrow.status}`,
+        actor: escrow.releasedBy,
+        amount: escrow.amount,
+        releasedAmount: escrow.releasedAmount,
+        feeAmount: escrow.feeAmount,
+        currency: escrow.currency,
+      });
+    }
+  }
+
+  for (const dispute of getInvoiceDisputes(invoiceId)) {
+    entries.push({ at: dispute.createdAt, event: 'dispute_opened', actor: dispute.openedBy, disputeId: dispute.id, reason: dispute.reason, validators: getValidators(dispute.id), currency: invoiceCurrency });
+    for (const e of getEvidence(dispute.id)) {
+      entries.push({ at: e.createdAt, event: 'dispute_evidence', actor: e.submittedBy, disputeId: dispute.id, reference: e.reference, description: e.description, currency: invoiceCurrency });
+    }
+    for (const v of getVotes(dispute.id)) {
+      entries.push({ at: v.createdAt, event: 'dispute_vote', actor: v.validatorId, disputeId: dispute.id, outcome: v.outcome, payerShare: v.payerShare, comment: v.comment, currency: invoiceCurrency });
+    }
+    if (dispute.resolvedAt) {
+      entries.push({ at: dispute.resolvedAt, event: 'dispute_resolved', actor: null, disputeId: dispute.id, outcome: dispute.outcome, payerShare: dispute.payerShare, currency: invoiceCurrency });
+    }
+  }
+
+  // Stable, so entries written at the same moment keep the order they were gathered in
+  return entries.sort((a, b) => a.at - b.at);
+}
@@ -0,0 +1,292 @@
+/**
+ * Escrowed invoice settlement, after the ESCROWED state of InvoiceSettlement.sol
+ * The payer locks what the invoice is owed: it is spent from their allowance at once but
+ * parked in the platform's escrow account, out of the issuer's reach. The issuer is paid,
+ * less the platform fee, when the payer confirms delivery or once the auto-release deadline
+ * passes. Until then the invoice can be disputed instead, which keeps the funds locked
+ * until the dispute is resolved.
+ */
+
+import { db } from '../db';
+import { allowances, invoiceEscrows, invoices, transactions } from '../db/schema';
+import { and, eq, lte } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import { SpendConflictError, SpendOptions, checkSpend, commitSpend, recordSpend } from './allowance';
+import type { AllowanceSelection } from './selection';
+import { requestRecipientApproval } from './recipients';
+import { requestApproval } from './approvals';
+import { InsufficientFundsError, settleEscrowRelease, settleEscrowReturn } from './balances';
+import { journalEscrowRelease, journalEscrowReturn } from './journal';
+import { recordRefund } from './refunds';
+import { FEE_ACCOUNT, computeFee, recordPaymentLines } from './fees';
+import { convert } from './fx';
+import { InvalidTransitionError, InvoiceStatus, SYSTEM_ACTOR, nextStatuses, transitionInvoice } from './invoiceStates';
+import { chargeCurrency, expireInvoices, notifyPayment } from './ledger';
+import { DEFAULT_CURRENCY, formatUnits } from './money';
+import { notify } from './webhooks';
+
+export type InvoiceEscrow = typeof invoiceEscrows.$inferSelect;
+
+// Balance holder escrowed funds sit with until they are released
+export const ESCROW_ACCOUNT = 'platform:escrow';
+
+export const DEFAULT_ESCROW_RELEASE_SECONDS = 7 * 24 * 60 * 60;
+export const MAX_ESCROW_RELEASE_SECONDS = 90 * 24 * 60 * 60;
+
+export interface EscrowResult {
+  success: boolean;
+  escrow?: InvoiceEscrow;
+  transactionId?: string;
+  error?: string;
+  allowed?: InvoiceStatus[];
+  approvalId?: string;
+  allowanceId?: string;
+  selection?: AllowanceSelection;
+}
+
+export function getEscrow(invoiceId: string): InvoiceEscrow | undefined {
+  return db.select().from(invoiceEscrows).where(eq(invoiceEscrows.invoiceId, invoiceId)).get();
+}
+
+/**
+ * Lock what a sent invoice is owed in escrow, charged to the recipient's allowance like a
+ * payment. The funds go to the issuer `releaseAfterSeconds` from now unless the recipient
+ * confirms delivery sooner or disputes the invoice.
+ */
+export async function escrowInvoice(
+  invoiceId: string,
+  agentId: string,
+  allowanceId?: string,
+  releaseAfterSeconds: number = DEFAULT_ESCROW_RELEASE_SECONDS,
+  options: SpendOptions = {}
+): Promise<EscrowResult> {
+  try {
+    await expireInvoices();
+    const invoice = await db.select().from(invoices).where(eq(invoices.id, invoiceId)).limit(1).get();
+
+    if (!invoice) return { success: false, error: 'Invoice not found' };
+    if (!nextStatuses(invoice.status).includes('escrowed')) {
+      return { success: false, error: new InvalidTransitionError(invoice.status as InvoiceStatus, 'escrowed').message, allowed: nextStatuses(invoice.status) };
+    }
+    if (invoice.recipientId !== agentId) return { success: false, error: 'Recipient mismatch' };
+
+    const invoiceCurrency = invoice.currency ?? DEFAULT_CURRENCY;
+    const owed = invoice.amount - (invoice.paidAmount ?? 0n);
+    const currency = chargeCurrency(agentId, invoiceCurrency, allowanceId);
+    const conversion = convert(owed, invoiceCurrency, currency);
+    if (!conversion) return { success: false, error: `No FX rate from ${invoiceCurrency} to ${currency}` };
+
+    const fx = conversion.rateId ? conversion : undefined;
+    const spendOptions: SpendOptions = { ...options, invoiceId, currency, fx };
+    const check = await checkSpend(agentId, conversion.amount, 'invoice_payment', allowanceId, invoice.issuerId, spendOptions);
+    const { selection } = check;
+
+    if (check.requiresApproval && check.allowanceId) {
+      if (check.requiresApproval === 'recipient') {
+        await requestRecipientApproval(check.allowanceId, invoice.issuerId);
+      }
+      const { approvalId } = await requestApproval({
+        kind: 'invoice_escrow',
+        allowanceId: check.allowanceId,
+        agentId,
+        amount: conversion.amount,
+        category: 'invoice_payment',
+        recipient: invoice.issuerId,
+        reason: check.reason ?? 'Approval required',
+        invoiceId,
+        escrowReleaseSeconds: releaseAfterSeconds,
+      });
+      return { success: false, error: check.reason, approvalId, allowanceId: check.allowanceId, selection };
+    }
+    if (!check.allowed || !check.allowanceId) {
+      return { success: false, error: check.reason, selection };
+    }
+
+    // The invoice is locked in the same transaction as the spend, so a concurrent payment
+    // or escrow of it rolls this one back
+    const committed = commitSpend(check.allowanceId, conversion.amount, 'invoice_payment', invoice.issuerId, spendOptions, (allowance, now) => {
+      try {
+        transitionInvoice(invoiceId, 'escrowed', agentId, undefined, now, { paidAmount: invoice.amount });
+      } catch (error) {
+        if (error instanceof InvalidTransitionError) throw new SpendConflictError(error.message);
+        throw error;
+      }
+
+      const escrowId = uuidv4();
+      const transactionId = recordSpend(allowance.id, conversion.amount, 'invoice_payment', invoice.issuerId, { invoiceId, escrowId, fx }, now);
+      const escrow: InvoiceEscrow = {
+        id: escrowId,
+        invoiceId,
+        payerId: agentId,
+        allowanceId: allowance.id,
+        transactionId,
+        amount: conversion.amount,
+        currency,
+        status: 'held',
+        autoReleaseAt: now + Math.min(releaseAfterSeconds, MAX_ESCROW_RELEASE_SECONDS) * 1000,
+        releasedBy: null,
+        disputeReason: null,
+        releasedAmount: null,
+        feeAmount: null,
+        settledAt: null,
+        createdAt: now,
+      };
+      db.insert(invoiceEscrows).values(escrow).run();
+      return escrow;
+    });
+    if (!committed.success) return { success: false, error: committed.reason, selection };
+
+    const escrow = committed.value;
+    for (const id of new Set([invoice.issuerId, agentId])) {
+      void notify.invoiceEscrowed(id, invoiceId, formatUnits(escrow.amount, currency), currency, escrow.autoReleaseAt, escrow.transactionId);
+    }
+    return { success: true, escrow, transactionId: escrow.transactionId, allowanceId: escrow.allowanceId, selection };
+  } catch (error) {
+    console.error("Escrow Invoice error:", error);
+    return { success: false, error: 'Database error' };
+  }
+}
+
+/**
+ * Move an escrow on from `from`. Only one settlement can claim it, so a release racing a
+ * dispute of the same escrow gets false.
+ */
+function claimEscrow(escrowId: string, from: 'held' | 'disputed', set: Partial<InvoiceEscrow>): boolean {
+  const result = db.update(invoiceEscrows)
+    .set(set)
+    .where(and(eq(invoiceEscrows.id, escrowId), eq(invoiceEscrows.status, from)))
+    .run();
+  return result.changes > 0;
+}
+
+function escrowedSpend(escrow: InvoiceEscrow) {
+  const spend = db.select().from(transactions).where(eq(transactions.id, escrow.transactionId)).get();
+  if (!spend) throw new Error(`Escrow ${escrow.id} has lost its transaction`);
+  return spend;
+}
+
+/**
+ * Pay `amount` of an escrow out to the issuer, charging the platform fee on it. The fee is
+ * recorded on the escrow, as it was charged at release rather than when the funds were locked.
+ */
+function payOut(escrow: InvoiceEscrow, issuerId: string, amount: bigint, now: number): Pick<InvoiceEscrow, 'releasedAmount' | 'feeAmount'> {
+  if (amount <= 0n) return { releasedAmount: 0n, feeAmount: 0n };
+  const spend = escrowedSpend(escrow);
+
+  const fee = computeFee(amount, escrow.currency, issuerId, spend.category);
+  const settled = { releasedAmount: amount, feeAmount: fee.fee };
+  db.update(invoiceEscrows).set(settled).where(eq(invoiceEscrows.id, escrow.id)).run();
+  recordPaymentLines(spend.id, issuerId, amount, fee, now);
+
+  const allowance = db.select().from(allowances).where(eq(allowances.id, escrow.allowanceId)).get();
+  if (allowance) {
+    journalEscrowRelease(allowance, amount, issuerId, { transactionId: spend.id, invoiceId: escrow.invoiceId, escrowId: escrow.id }, now, fee.fee);
+  }
+  settleEscrowRelease(ESCROW_ACCOUNT, escrow.payerId, issuerId, escrow.currency, amount, spend.id, now, { amount: fee.fee, account: FEE_ACCOUNT });
+  return settled;
+}
+
+/**
+ * Give `amount` of an escrow back to the payer as a refund of the spend that locked it
+ */
+function payBack(escrow: InvoiceEscrow, amount: bigint, reason: string | undefined, now: number): void {
+  if (amount <= 0n) return;
+  recordRefund(escrowedSpend(escrow), amount, 0n, reason, now, (allowance, refundId) => {
+    journalEscrowReturn(allowance, amount, { memo: reason, transactionId: refundId, invoiceId: escrow.invoiceId, escrowId: escrow.id }, now);
+    settleEscrowReturn(ESCROW_ACCOUNT, escrow.payerId, escrow.currency, amount, refundId, now);
+  });
+}
+
+/**
+ * Pay a held escrow out to the issuer and mark the invoice paid. Runs inside the caller's
+ * transaction; undefined if the escrow was settled or disputed already.
+ */
+function releaseFunds(escrow: InvoiceEscrow, actor: string, reason: string | undefined, now: number): InvoiceEscrow | undefined {
+  if (!claimEscrow(escrow.id, 'held', { status: 'released', releasedBy: actor, settledAt: now })) return undefined;
+
+  const invoice = db.select().from(invoices).where(eq(invoices.id, escrow.invoiceId)).get();
+  if (!invoice) throw new Error(`Escrow ${escrow.id} has lost its invoice`);
+
+  const settled = payOut(escrow, invoice.issuerId, escrow.amount, now);
+  transitionInvoice(invoice.id, 'paid', actor, reason, now);
+  return { ...escrow, ...settled, status: 'released', releasedBy: actor, settledAt: now };
+}
+
+/**
+ * Keep a held escrow locked for a dispute, inside the dispute's transaction; false if it
+ * was released already
+ */
+export function freezeEscrow(escrow: InvoiceEscrow, reason: string): boolean {
+  return claimEscrow(escrow.id, 'held', { status: 'disputed', disputeReason: reason });
+}
+
+/**
+ * Settle a disputed escrow as its dispute was resolved: `payerAmount` goes back to the
+ * payer and the rest to the issuer, less the fee. Runs inside the resolution's transaction.
+ */
+export function settleDisputedEscrow(escrow: InvoiceEscrow, issuerId: string, payerAmount: bigint, actor: string, reason: string | undefined, now: number): InvoiceEscrow | undefined {
+  const status = payerAmount <= 0n ? 'released' : payerAmount >= escrow.amount ? 'refunded' : 'split';
+  const releasedBy = status === 'refunded' ? null : actor;
+  if (!claimEscrow(escrow.id, 'disputed', { status, releasedBy, settledAt: now })) return undefined;
+
+  const settled = payOut(escrow, issuerId, escrow.amount - payerAmount, now);
+  payBack(escrow, payerAmount, reason, now);
+  return { ...escrow, ...settled, status, releasedBy, settledAt: now };
+}
+
+function notifyReleased(escrow: InvoiceEscrow): void {
+  const invoice = db.select().from(invoices).where(eq(invoices.id, escrow.invoiceId)).get();
+  if (!invoice) return;
+
+  notifyPayment(invoice, invoice.amount, escrow.transactionId);
+  for (const agentId of new Set([invoice.issuerId, escrow.payerId])) {
+    void notify.escrowReleased(agentId, invoice.id, formatUnits(escrow.amount, escrow.currency), escrow.currency, escrow.releasedBy ?? SYSTEM_ACTOR, escrow.transactionId);
+  }
+}
+
+/**
+ * Release every held escrow whose auto-release deadline has passed
+ */
+export async function releaseDueEscrows(now: number = Date.now()): Promise<number> {
+  try {
+    const due = await db.select().from(invoiceEscrows)
+      .where(and(eq(invoiceEscrows.status, 'held'), lte(invoiceEscrows.autoReleaseAt, now)))
+      .all();
+
+    let released = 0;
+    for (const escrow of due) {
+      const settled = db.transaction(() => releaseFunds(escrow, SYSTEM_ACTOR, 'Auto-release deadline passed', now), { behavior: 'immediate' });
+      if (!settled) continue;
+      notifyReleased(settled);
+      released++;
+    }
+    return released;
+  } catch (error) {
+    console.error("Release Due Escrows error:", error);
+    return 0;
+  }
+}
+
+/**
+ * The payer confirms the work was delivered, releasing the escrow to the issuer
+ */
+export async function confirmDelivery(invoiceId: string, actorId: string): Promise<EscrowResult> {
+  try {
+    await releaseDueEscrows();
+    const escrow = getEscrow(invoiceId);
+
+    if (!escrow) return { success: false, error: 'Escrow not found' };
+    if (escrow.payerId !== actorId) return { success: false, error: 'Only the payer of an escrow can confirm delivery' };
+    if (escrow.status !== 'held') return { success: false, error: `Escrow is ${escrow.status}` };
+
+    const released = db.transaction(() => releaseFunds(escrow, actorId, 'Delivery confirmed', Date.now()), { behavior: 'immediate' });
+    if (!released) return { success: false, error: 'Escrow is already settled' };
+
+    notifyReleased(released);
+    return { success: true, escrow: released, transactionId: released.transactionId };
+  } catch (error) {
+    if (error instanceof InsufficientFundsError || error instanceof InvalidTransitionError) return { success: false, error: error.message };
+    console.error("Confirm Delivery error:", error);
+    return { success: false, error: 'Database error' };
+  }
+}
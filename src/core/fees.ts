@@ -0,0 +1,236 @@
+/**
+ * Platform fees on invoice and subscription payments
+ * The payer is charged the full amount; the fee comes out of what the payee receives and
+ * collects in the platform's fee account, from which it can be withdrawn. A provider's
+ * schedule beats one for the payment's category, which beats the global schedule.
+ */
+
+import { db } from '../db';
+import { feeSchedules, feeTiers, transactionLines, transactions } from '../db/schema';
+import { and, asc, desc, eq, gte, inArray, isNull, lte, or } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import { getBalance, requestWithdrawal } from './balances';
+import { sumUnits } from './money';
+
+export type FeeSchedule = typeof feeSchedules.$inferSelect;
+export type FeeTier = typeof feeTiers.$inferSelect;
+export type TransactionLine = typeof transactionLines.$inferSelect;
+export type FeeScope = 'global' | 'provider' | 'category';
+export type FeeKind = 'flat' | 'percentage' | 'tiered';
+
+export const FEE_SCOPES: FeeScope[] = ['global', 'provider', 'category'];
+export const FEE_KINDS: FeeKind[] = ['flat', 'percentage', 'tiered'];
+
+// Same as PLATFORM_FEE_BPS in contracts/src/InvoiceSettlement.sol, so a payment settled
+// off-chain pays the same fee as one settled on-chain
+export const DEFAULT_FEE_BPS = 500;
+export const BPS_DENOMINATOR = 10_000n;
+
+// Balance holder the collected fees are credited to
+export const FEE_ACCOUNT = 'platform:fees';
+
+export interface FeeScheduleInput {
+  scope: FeeScope;
+  ref?: string; // provider ID or category; not used for global
+  kind: FeeKind;
+  currency?: string;
+  bps?: number;
+  flatAmount?: bigint;
+  tiers?: { upTo?: bigint; bps?: number; flatAmount?: bigint }[];
+}
+
+export interface FeeQuote {
+  fee: bigint;
+  scheduleId: string | null; // null when the built-in default applied
+}
+
+function percentOfBps(amount: bigint, bps: number): bigint {
+  // Rounded down, like the contract
+  return (amount * BigInt(bps)) / BPS_DENOMINATOR;
+}
+
+// Ascending by upper bound, with the unbounded tier last
+function byUpperBound(a: FeeTier, b: FeeTier): number {
+  if (a.upTo === null || b.upTo === null) return a.upTo === b.upTo ? 0 : a.upTo === null ? 1 : -1;
+  return a.upTo < b.upTo ? -1 : a.upTo > b.upTo ? 1 : 0;
+}
+
+export function getTiers(scheduleId: string): FeeTier[] {
+  return db.select().from(feeTiers).where(eq(feeTiers.scheduleId, scheduleId)).all().sort(byUpperBound);
+}
+
+/**
+ * The schedule that applies to a payment: the most specific scope wins, then a schedule
+ * in the payment's currency over one for any currency, then the newest
+ */
+export function resolveSchedule(currency: string, providerId: string, category: string): FeeSchedule | undefined {
+  const candidates = db.select().from(feeSchedules)
+    .where(and(
+      or(
+        eq(feeSchedules.scope, 'global'),
+        and(eq(feeSchedules.scope, 'provider'), eq(feeSchedules.ref, providerId)),
+        and(eq(feeSchedules.scope, 'category'), eq(feeSchedules.ref, category)),
+      ),
+      or(eq(feeSchedules.currency, currency), isNull(feeSchedules.currency)),
+    ))
+    .orderBy(desc(feeSchedules.createdAt))
+    .all();
+
+  const rank = (s: FeeSchedule) => FEE_SCOPES.indexOf(s.scope as FeeScope) * 2 + (s.currency ? 1 : 0);
+  return candidates.reduce<FeeSchedule | undefined>((best, s) => (!best || rank(s) > rank(best) ? s : best), undefined);
+}
+
+/**
+ * The fee on a payment, never more than the payment itself
+ */
+export function computeFee(amount: bigint, currency: string, providerId: string, category: string): FeeQuote {
+  const schedule = resolveSchedule(currency, providerId, category);
+  if (!schedule) return { fee: percentOfBps(amount, DEFAULT_FEE_BPS), scheduleId: null };
+
+  let fee: bigint;
+  switch (schedule.kind) {
+    case 'flat':
+      fee = schedule.flatAmount ?? 0n;
+      break;
+    case 'tiered': {
+      const tier = getTiers(schedule.id).find(t => t.upTo === null || amount <= t.upTo);
+      fee = tier ? (tier.flatAmount ?? 0n) + percentOfBps(amount, tier.bps ?? 0) : 0n;
+      break;
+    }
+    default:
+      fee = percentOfBps(amount, schedule.bps ?? 0);
+  }
+  return { fee: fee > amount ? amount : fee, scheduleId: schedule.id };
+}
+
+/**
+ * Write a payment's payee and fee lines, inside its transaction
+ */
+export function recordPaymentLines(transactionId: string, recipient: string, amount: bigint, quote: FeeQuote, now: number): TransactionLine[] {
+  const lines: TransactionLine[] = [
+    { id: uuidv4(), transactionId, kind: 'payee', recipient, amount: amount - quote.fee, feeScheduleId: null, createdAt: now },
+  ];
+  if (quote.fee > 0n) {
+    lines.push({ id: uuidv4(), transactionId, kind: 'fee', recipient: FEE_ACCOUNT, amount: quote.fee, feeScheduleId: quote.scheduleId, createdAt: now });
+  }
+  for (const line of lines) db.insert(transactionLines).values(line).run();
+  return lines;
+}
+
+export function getPaymentLines(transactionId: string): TransactionLine[] {
+  return db.select().from(transactionLines)
+    .where(eq(transactionLines.transactionId, transactionId))
+    .orderBy(asc(transactionLines.kind))
+    .all();
+}
+
+export async function createSchedule(input: FeeScheduleInput): Promise<{ success: boolean; schedule?: FeeSchedule; tiers?: FeeTier[]; error?: string }> {
+  if (input.scope !== 'global' && !input.ref) return { success: false, error: `A ${input.scope} schedule needs a ref` };
+  if (input.kind !== 'percentage' && !input.currency) return { success: false, error: `A ${input.kind} schedule needs a currency` };
+  if (input.kind === 'tiered' && !input.tiers?.length) return { success: false, error: 'A tiered schedule needs at least one tier' };
+
+  try {
+    const result = db.transaction(() => {
+      const schedule: FeeSchedule = {
+        id: uuidv4(),
+        scope: input.scope,
+        ref: input.scope === 'global' ? null : input.ref!,
+        kind: input.kind,
+        currency: input.currency ?? null,
+        bps: input.kind === 'percentage' ? input.bps ?? 0 : 0,
+        flatAmount: input.kind === 'flat' ? input.flatAmount ?? 0n : 0n,
+        createdAt: Date.now(),
+      };
+      db.insert(feeSchedules).values(schedule).run();
+
+      for (const tier of input.kind === 'tiered' ? input.tiers ?? [] : []) {
+        db.insert(feeTiers).values({
+          id: uuidv4(),
+          scheduleId: schedule.id,
+          upTo: tier.upTo ?? null,
+          bps: tier.bps ?? 0,
+          flatAmount: tier.flatAmount ?? 0n,
+        }).run();
+      }
+      return { schedule, tiers: getTiers(schedule.id) };
+    });
+    return { success: true, ...result };
+  } catch (error) {
+    console.error("Create Fee Schedule error:", error);
+    return { success: false, error: 'Database error' };
+  }
+}
+
+export async function deleteSchedule(scheduleId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const deleted = db.transaction(() => {
+      db.delete(feeTiers).where(eq(feeTiers.scheduleId, scheduleId)).run();
+      return db.delete(feeSchedules).where(eq(feeSchedules.id, scheduleId)).run().changes;
+    });
+    if (deleted === 0) return { success: false, error: 'Fee schedule not found' };
+    return { success: true };
+  } catch (error) {
+    console.error("Delete Fee Schedule error:", error);
+    return { success: false, error: 'Database error' };
+  }
+}
+
+/**
+ * Fees collected and given back with refunds in a window, per currency, with what the fee
+ * account holds now
+ */
+export function feeReport(from?: number, to?: number, currency?: string) {
+  const lines = db.select({ amount: transactionLines.amount, currency: transactions.currency })
+    .from(transactionLines)
+    .innerJoin(transactions, eq(transactions.id, transactionLines.transactionId))
+    .where(and(
+      eq(transactionLines.kind, 'fee'),
+      from !== undefined ? gte(transactionLines.createdAt, from) : undefined,
+      to !== undefined ? lte(transactionLines.createdAt, to) : undefined,
+      currency ? eq(transactions.currency, currency) : undefined,
+    ))
+    .all();
+
+  const refunds = db.select({ amount: transactions.amount, currency: transactions.currency, feeAmount: transactions.feeAmount })
+    .from(transactions)
+    .where(and(
+      eq(transactions.kind, 'refund'),
+      from !== undefined ? gte(transactions.timestamp, from) : undefined,
+      to !== undefined ? lte(transactions.timestamp, to) : undefined,
+      currency ? eq(transactions.currency, currency) : undefined,
+    ))
+    .all();
+
+  const currencies = [...new Set([...lines, ...refunds].map(r => r.currency ?? '').filter(Boolean))];
+  if (currency && !currencies.includes(currency)) currencies.push(currency);
+
+  return currencies.sort().map(cur => {
+    const collected = sumUnits(lines.filter(l => l.currency === cur).map(l => l.amount));
+    const refunded = sumUnits(refunds.filter(r => r.currency === cur).map(r => r.feeAmount ?? 0n));
+    return {
+      currency: cur,
+      payments: lines.filter(l => l.currency === cur).length,
+      collected,
+      refunded,
+      net: collected - refunded,
+      balance: getBalance(FEE_ACCOUNT, cur),
+    };
+  });
+}
+
+/**
+ * Pay collected fees out of the fee account, and out of the journal's fees account with it
+ */
+export async function withdrawFees(currency: string, amount: bigint, destination?: string) {
+  return requestWithdrawal(FEE_ACCOUNT, currency, amount, destination);
+}
+
+export function listSchedules(scope?: FeeScope) {
+  const schedules = db.select().from(feeSchedules)
+    .where(scope ? eq(feeSchedules.scope, scope) : undefined)
+    .orderBy(desc(feeSchedules.createdAt))
+    .all();
+  const ids = schedules.map(s => s.id);
+  const tiers = ids.length ? db.select().from(feeTiers).where(inArray(feeTiers.scheduleId, ids)).all() : [];
+  return schedules.map(s => ({ ...s, tiers: tiers.filter(t => t.scheduleId === s.id).sort(byUpperBound) }));
+}
@@ -0,0 +1,95 @@
+/**
+ * Currency conversion against the locally managed fx_rates table
+ * A payment in one currency charged to an allowance in another is converted at the rate in
+ * effect when it is paid. Rates are exact decimals, and conversions round up so the payer
+ * never covers less than the amount owed.
+ */
+
+import { db } from '../db';
+import { fxRates } from '../db/schema';
+import { and, desc, eq, lte } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import { scaleOf } from './money';
+
+export type FxRate = typeof fxRates.$inferSelect;
+
+export const MAX_RATE_DECIMALS = 18;
+
+const RATE = /^(\d+)(?:\.(\d+))?$/;
+
+// An amount converted into the currency it is charged in
+export interface FxConversion {
+  originalAmount: bigint;
+  originalCurrency: string;
+  amount: bigint;
+  currency: string;
+  rate: string;
+  rateId?: string; // unset when no conversion was needed
+}
+
+export function isValidRate(rate: string): boolean {
+  const match = RATE.exec(rate);
+  return !!match && (match[2] ?? '').length <= MAX_RATE_DECIMALS && /[1-9]/.test(rate);
+}
+
+/**
+ * `amount` of `from` in `to` at `rate` (units of `to` per unit of `from`), rounded up
+ * to `to`'s smallest unit
+ */
+export function convertUnits(amount: bigint, from: string, to: string, rate: string): bigint {
+  const [, whole, fraction = ''] = RATE.exec(rate) ?? [];
+  if (whole === undefined) throw new Error(`Invalid FX rate '${rate}'`);
+
+  const numerator = amount * BigInt(whole + fraction) * 10n ** BigInt(scaleOf(to));
+  const denominator = 10n ** BigInt(fraction.length + scaleOf(from));
+  return (numerator + denominator - 1n) / denominator;
+}
+
+/**
+ * The rate in effect for a pair at a point in time
+ */
+export function findRate(base: string, quote: string, at: number = Date.now()): FxRate | undefined {
+  return db.select().from(fxRates)
+    .where(and(eq(fxRates.baseCurrency, base), eq(fxRates.quoteCurrency, quote), lte(fxRates.effectiveAt, at)))
+    .orderBy(desc(fxRates.effectiveAt), desc(fxRates.createdAt))
+    .limit(1)
+    .get();
+}
+
+/**
+ * Convert an amount into another currency at the rate in effect at `at`; undefined when
+ * no rate is set for the pair
+ */
+export function convert(amount: bigint, from: string, to: string, at: number = Date.now()): FxConversion | undefined {
+  if (from === to) return { originalAmount: amount, originalCurrency: from, amount, currency: to, rate: '1' };
+
+  const rate = findRate(from, to, at);
+  if (!rate) return undefined;
+  return {
+    originalAmount: amount,
+    originalCurrency: from,
+    amount: convertUnits(amount, from, to, rate.rate),
+    currency: to,
+    rate: rate.rate,
+    rateId: rate.id,
+  };
+}
+
+export async function setRate(
+  base: string,
+  quote: string,
+  rate: string,
+  effectiveAt: number = Date.now()
+): Promise<{ success: boolean; rate?: FxRate; error?: string }> {
+  if (base === quote) return { success: false, error: 'Base and quote currencies must differ' };
+  if (!isValidRate(rate)) return { success: false, error: `Rate must be a positive decimal with at most ${MAX_RATE_DECIMALS} decimal places` };
+
+  try {
+    const row: FxRate = { id: uuidv4(), baseCurrency: base, quoteCurrency: quote, rate, effectiveAt, createdAt: Date.now() };
+    await db.insert(fxRates).values(row).run();
+    return { success: true, rate: row };
+  } catch (error) {
+    console.error("Set FX Rate error:", error);
+    return { success: false, error: 'Database error' };
+  }
+}
@@ -0,0 +1,180 @@
+/**
+ * Two-phase spends: authorize a hold against an allowance, then capture or void it.
+ * An active hold reserves budget until it is settled or its TTL runs out.
+ */
+
+import { db } from '../db';
+import { allowances, spendHolds } from '../db/schema';
+import { and, eq, lte } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import { checkSpend, commitSpend, recordSpend, SpendOptions } from './allowance';
+import type { AllowanceSelection } from './selection';
+import { requestRecipientApproval } from './recipients';
+import { requestApproval } from './approvals';
+import { DEFAULT_CURRENCY } from './money';
+import { journalHold, journalHoldRelease } from './journal';
+import { InsufficientFundsError } from './balances';
+
+export type SpendHold = typeof spendHolds.$inferSelect;
+
+export const DEFAULT_HOLD_TTL_SECONDS = 15 * 60;
+export const MAX_HOLD_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+/**
+ * Give the uncaptured part of a hold back to the allowance owner in the journal
+ */
+function releaseHeldFunds(hold: SpendHold, amount: bigint, now: number): void {
+  const allowance = db.select().from(allowances).where(eq(allowances.id, hold.allowanceId)).get();
+  if (allowance) journalHoldRelease(allowance, amount, hold.id, now);
+}
+
+/**
+ * Mark every hold whose TTL has passed as expired, releasing its reservation
+ */
+export async function expireHolds(now: number = Date.now()): Promise<number> {
+  const due = await db.select().from(spendHolds)
+    .where(and(eq(spendHolds.status, 'active'), lte(spendHolds.expiresAt, now)))
+    .all();
+
+  let expired = 0;
+  for (const hold of due) {
+    db.transaction(() => {
+      if (!claimHold(hold.id, { status: 'expired', settledAt: now })) return;
+      releaseHeldFunds(hold, hold.amount, now);
+      expired++;
+    }, { behavior: 'immediate' });
+  }
+  return expired;
+}
+
+export async function authorizeHold(
+  agentId: string,
+  amount: bigint,
+  category: string,
+  recipient: string,
+  allowanceId?: string,
+  ttlSeconds: number = DEFAULT_HOLD_TTL_SECONDS,
+  options: SpendOptions = {}
+): Promise<{ success: boolean; holdId?: string; expiresAt?: number; reason?: string; approvalId?: string; allowanceId?: string; selection?: AllowanceSelection }> {
+  const check = await checkSpend(agentId, amount, category, allowanceId, recipient, options);
+  const { selection } = check;
+
+  if (check.requiresApproval && check.allowanceId) {
+    if (check.requiresApproval === 'recipient') {
+      await requestRecipientApproval(check.allowanceId, recipient);
+    }
+    const { approvalId } = await requestApproval({
+      kind: 'hold',
+      allowanceId: check.allowanceId,
+      agentId,
+      amount,
+      category,
+      recipient,
+      reason: check.reason ?? 'Approval required',
+      holdTtlSeconds: ttlSeconds,
+    });
+    return { success: false, reason: check.reason, approvalId, allowanceId: check.allowanceId, selection };
+  }
+  if (!check.allowed || !check.allowanceId) {
+    return { success: false, reason: check.reason, selection };
+  }
+
+  try {
+    const holdId = uuidv4();
+
+    // The hold reserves budget, so it is re-checked and inserted under the same lock as a spend
+    const committed = commitSpend(check.allowanceId, amount, category, recipient, options, (allowance, now) => {
+      const expiresAt = now + Math.min(ttlSeconds, MAX_HOLD_TTL_SECONDS) * 1000;
+      db.insert(spendHolds).values({
+        id: holdId,
+        allowanceId: allowance.id,
+        agentId,
+        amount,
+        currency: options.currency ?? DEFAULT_CURRENCY,
+        category,
+        recipient,
+        status: 'active',
+        expiresAt,
+        createdAt: now,
+      }).run();
+      journalHold(allowance, amount, holdId, now);
+      return expiresAt;
+    });
+    if (!committed.success) return { success: false, reason: committed.reason, selection };
+
+    return { success: true, holdId, expiresAt: committed.value, allowanceId: check.allowanceId, selection };
+  } catch (error) {
+    console.error("Authorize Hold error:", error);
+    return { success: false, reason: 'Database error' };
+  }
+}
+
+/**
+ * Move an active hold to its final status. Only one settlement can claim a hold, so a
+ * concurrent capture or void of the same hold gets false.
+ */
+function claimHold(holdId: string, set: Partial<SpendHold>): boolean {
+  const result = db.update(spendHolds)
+    .set(set)
+    .where(and(eq(spendHolds.id, holdId), eq(spendHolds.status, 'active')))
+    .run();
+  return result.changes > 0;
+}
+
+/**
+ * Settle a hold for its final cost; defaults to the full held amount
+ */
+export async function captureHold(holdId: string, amount?: bigint): Promise<{ success: boolean; transactionId?: string; error?: string }> {
+  try {
+    await expireHolds();
+    const hold = await db.select().from(spendHolds).where(eq(spendHolds.id, holdId)).limit(1).get();
+
+    if (!hold) return { success: false, error: 'Hold not found' };
+    if (hold.status !== 'active') return { success: false, error: `Hold is ${hold.status}` };
+
+    const captureAmount = amount ?? hold.amount;
+    if (captureAmount <= 0n) return { success: false, error: 'Amount must be positive' };
+    if (captureAmount > hold.amount) return { success: false, error: 'Capture amount exceeds held amount' };
+
+    // Release the reservation first so the capture is not counted twice
+    const transactionId = db.transaction(() => {
+      const now = Date.now();
+      if (!claimHold(holdId, { status: 'captured', capturedAmount: captureAmount, settledAt: now })) return undefined;
+
+      const txId = recordSpend(hold.allowanceId, captureAmount, hold.category, hold.recipient, { holdId }, now);
+      releaseHeldFunds(hold, hold.amount - captureAmount, now);
+      db.update(spendHolds).set({ transactionId: txId }).where(eq(spendHolds.id, holdId)).run();
+      return txId;
+    }, { behavior: 'immediate' });
+    if (!transactionId) return { success: false, error: 'Hold is already settled' };
+
+    return { success: true, transactionId };
+  } catch (error) {
+    if (error instanceof InsufficientFundsError) return { success: false, error: error.message };
+    console.error("Capture Hold error:", error);
+    return { success: false, error: 'Database error' };
+  }
+}
+
+export async function voidHold(holdId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    await expireHolds();
+    const hold = await db.select().from(spendHolds).where(eq(spendHolds.id, holdId)).limit(1).get();
+
+    if (!hold) return { success: false, error: 'Hold not found' };
+    if (hold.status !== 'active') return { success: false, error: `Hold is ${hold.status}` };
+
+    const voided = db.transaction(() => {
+      const now = Date.now();
+      if (!claimHold(holdId, { status: 'voided', settledAt: now })) return false;
+      releaseHeldFunds(hold, hold.amount, now);
+      return true;
+    }, { behavior: 'immediate' });
+    if (!voided) return { success: false, error: 'Hold is already settled' };
+
+    return { success: true };
+  } catch (error) {
+    console.error("Void Hold error:", error);
+    return { success: false, error: 'Database error' };
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Idempotency keys for retried mutations
+ * The first response sent for a key is stored with a fingerprint of its request and replayed
+ * to every retry; reusing the key for a different request is an error. Keys are forgotten
+ * once their retention window has passed.
+ */
+
+import { db } from '../db';
+import { idempotencyKeys } from '../db/schema';
+import { and, eq, isNull, lte } from 'drizzle-orm';
+import { createHash } from 'node:crypto';
+
+export type IdempotencyRecord = typeof idempotencyKeys.$inferSelect;
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+export const IDEMPOTENCY_RETENTION_MS = 24 * 60 * 60 * 1000;
+export const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+export type IdempotencyClaim =
+  | { status: 'new' } // the caller runs the request and must then save or release the key
+  | { status: 'replay'; record: IdempotencyRecord }
+  | { status: 'mismatch' } // the key was used for a different request
+  | { status: 'in_progress' }; // the first request with the key has not finished yet
+
+export function requestFingerprint(method: string, path: string, body: string): string {
+  return createHash('sha256').update(`${method} ${path}\n${body}`).digest('hex');
+}
+
+/**
+ * Forget every key whose retention window has passed
+ */
+export function purgeExpiredKeys(now: number = Date.now()): number {
+  return db.delete(idempotencyKeys).where(lte(idempotencyKeys.expiresAt, now)).run().changes;
+}
+
+/**
+ * Reserve a key for a request, or report what an earlier request with it left behind
+ */
+export function claimKey(key: string, method: string, path: string, fingerprint: string, now: number = Date.now()): IdempotencyClaim {
+  purgeExpiredKeys(now);
+
+  const inserted = db.insert(idempotencyKeys)
+    .values({ key, method, path, fingerprint, createdAt: now, expiresAt: now + IDEMPOTENCY_RETENTION_MS })
+    .onConflictDoNothing()
+    .run();
+  if (inserted.changes > 0) return { status: 'new' };
+
+  const record = db.select().from(idempotencyKeys).where(eq(idempotencyKeys.key, key)).get();
+  if (!record) return claimKey(key, method, path, fingerprint, now); // expired between the two statements
+  if (record.fingerprint !== fingerprint) return { status: 'mismatch' };
+  if (record.statusCode === null) return { status: 'in_progress' };
+  return { status: 'replay', record };
+}
+
+/**
+ * Store the response for a claimed key so retries get it back
+ */
+export function saveResponse(key: string, statusCode: number, contentType: string | null, responseBody: string): void {
+  db.update(idempotencyKeys)
+    .set({ statusCode, contentType, responseBody })
+    .where(and(eq(idempotencyKeys.key, key), isNull(idempotencyKeys.statusCode)))
+    .run();
+}
+
+/**
+ * Drop a claim whose request failed unexpectedly, so a retry runs it again
+ */
+export function releaseKey(key: string): void {
+  db.delete(idempotencyKeys)
+    .where(and(eq(idempotencyKeys.key, key), isNull(idempotencyKeys.statusCode)))
+    .run();
+}
@@ -0,0 +1,150 @@
+/**
+ * Installment plans: an invoice split into parts due on a schedule
+ * Installments are covered in order by whatever the invoice has been paid, so a manual
+ * partial payment counts towards them too. Charging the ones that fall due is done by
+ * processDueInstallments in ledger.ts. A refund ends the plan, as a refunded invoice takes no
+ * more payments.
+ */
+
+import { db } from '../db';
+import { invoiceInstallments, invoices } from '../db/schema';
+import { and, asc, eq, inArray, lte } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+
+export type Installment = typeof invoiceInstallments.$inferSelect;
+export type InstallmentInterval = 'daily' | 'weekly' | 'monthly';
+
+export const INSTALLMENT_INTERVALS: InstallmentInterval[] = ['daily', 'weekly', 'monthly'];
+
+export interface InstallmentPlan {
+  count: number;
+  interval: InstallmentInterval;
+  firstDueAt?: number; // defaults to now
+  allowanceId?: string; // charged when an installment falls due
+}
+
+/**
+ * `count` due dates, `interval` apart, starting at `first`
+ */
+export function scheduleDates(first: number, count: number, interval: InstallmentInterval): number[] {
+  return Array.from({ length: count }, (_, i) => {
+    const date = new Date(first);
+    if (interval === 'daily') date.setDate(date.getDate() + i);
+    else if (interval === 'weekly') date.setDate(date.getDate() + 7 * i);
+    else date.setMonth(date.getMonth() + i);
+    return date.getTime();
+  });
+}
+
+/**
+ * Equal parts of `total`, the last one taking what does not divide evenly
+ */
+export function splitAmount(total: bigint, count: number): bigint[] {
+  const part = total / BigInt(count);
+  return Array.from({ length: count }, (_, i) => (i === count - 1 ? total - part * BigInt(count - 1) : part));
+}
+
+export function getInstallments(invoiceId: string): Installment[] {
+  return db.select().from(invoiceInstallments)
+    .where(eq(invoiceInstallments.invoiceId, invoiceId))
+    .orderBy(asc(invoiceInstallments.sequence))
+    .all();
+}
+
+/**
+ * What the invoice must have been paid in all once installment `sequence` is covered
+ */
+export function paidThrough(installments: Installment[], sequence: number): bigint {
+  return installments.filter(i => i.sequence <= sequence).reduce((total, i) => total + i.amount, 0n);
+}
+
+/**
+ * Split what is outstanding on an unpaid draft or sent invoice into installments. The
+ * invoice then accepts partial payments.
+ */
+export async function createInstallmentPlan(
+  invoiceId: string,
+  actorId: string,
+  plan: InstallmentPlan
+): Promise<{ success: boolean; installments?: Installment[]; error?: string }> {
+  try {
+    const invoice = await db.select().from(invoices).where(eq(invoices.id, invoiceId)).limit(1).get();
+    if (!invoice) return { success: false, error: 'Invoice not found' };
+    if (invoice.issuerId !== actorId) return { success: false, error: 'Only the issuer of an invoice can set its installments' };
+    if (invoice.status !== 'draft' && invoice.status !== 'sent') return { success: false, error: `Invoice is ${invoice.status}` };
+    if (getInstallments(invoiceId).length > 0) return { success: false, error: 'Invoice already has an installment plan' };
+
+    const outstanding = invoice.amount - (invoice.paidAmount ?? 0n);
+    if (outstanding < BigInt(plan.count)) return { success: false, error: 'Too many installments for the amount outstanding' };
+
+    const now = Date.now();
+    const amounts = splitAmount(outstanding, plan.count);
+    const dates = scheduleDates(plan.firstDueAt ?? now, plan.count, plan.interval);
+
+    db.transaction(() => {
+      db.update(invoices).set({ allowPartial: true }).where(eq(invoices.id, invoiceId)).run();
+      amounts.forEach((amount, i) => {
+        db.insert(invoiceInstallments).values({
+          id: uuidv4(),
+          invoiceId,
+          sequence: i + 1,
+          amount,
+          dueAt: dates[i],
+          allowanceId: plan.allowanceId ?? null,
+          status: 'pending',
+          createdAt: now,
+        }).run();
+      });
+    });
+
+    return { success: true, installments: getInstallments(invoiceId) };
+  } catch (error) {
+    console.error("Create Installment Plan error:", error);
+    return { success: false, error: 'Database error' };
+  }
+}
+
+/**
+ * Mark the installments that `paidAmount` now covers as paid by `transactionId`, returning
+ * the ones newly covered
+ */
+export function coverInstallments(invoiceId: string, paidAmount: bigint, transactionId: string, now: number = Date.now()): Installment[] {
+  const installments = getInstallments(invoiceId);
+  const covered = installments.filter(i => i.status === 'pending' && paidThrough(installments, i.sequence) <= paidAmount);
+  if (covered.length === 0) return [];
+
+  db.update(invoiceInstallments)
+    .set({ status: 'paid', transactionId, paidAt: now, lastError: null })
+    .where(inArray(invoiceInstallments.id, covered.map(i => i.id)))
+    .run();
+  return covered.map(i => ({ ...i, status: 'paid', transactionId, paidAt: now, lastError: null }));
+}
+
+/**
+ * Pending installments due by `now` on invoices that can still be paid, oldest first
+ */
+export function dueInstallments(now: number = Date.now()): Installment[] {
+  return db.select({ installment: invoiceInstallments })
+    .from(invoiceInstallments)
+    .innerJoin(invoices, eq(invoices.id, invoiceInstallments.invoiceId))
+    .where(and(
+      eq(invoiceInstallments.status, 'pending'),
+      lte(invoiceInstallments.dueAt, now),
+      inArray(invoices.status, ['sent', 'partially_paid']),
+    ))
+    .orderBy(asc(invoiceInstallments.dueAt), asc(invoiceInstallments.sequence))
+    .all()
+    .map(r => r.installment);
+}
+
+/**
+ * Record a failed charge against the installments it was for
+ */
+export function recordInstallmentFailure(installments: Installment[], reason: string): void {
+  for (const installment of installments) {
+    db.update(invoiceInstallments)
+      .set({ attempts: (installment.attempts ?? 0) + 1, lastError: reason })
+      .where(eq(invoiceInstallments.id, installment.id))
+      .run();
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * Invoice state machine
+ * Every status change goes through transitionInvoice, which checks it against the
+ * transition table and records who made it. Cancelled, void, expired and refunded
+ * invoices are final; a disputed one moves on only through resolveDisputedInvoice, when
+ * its dispute is resolved.
+ */
+
+import { db } from '../db';
+import { invoices, invoiceTransitions } from '../db/schema';
+import { and, asc, eq } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+
+export type Invoice = typeof invoices.$inferSelect;
+export type InvoiceTransition = typeof invoiceTransitions.$inferSelect;
+export type InvoiceStatus =
+  | 'draft' | 'sent' | 'partially_paid' | 'escrowed' | 'disputed' | 'paid' | 'partially_refunded' | 'refunded'
+  | 'cancelled' | 'void' | 'expired';
+
+// Where each status can go next. A part-paid invoice is not cancelled or voided, which would
+// leave its payments with the issuer; refunding them closes it instead.
+export const INVOICE_TRANSITIONS: Record<InvoiceStatus, InvoiceStatus[]> = {
+  draft: ['sent', 'cancelled'],
+  sent: ['partially_paid', 'paid', 'escrowed', 'disputed', 'cancelled', 'void', 'expired'],
+  partially_paid: ['partially_paid', 'paid', 'partially_refunded', 'refunded', 'disputed'],
+  escrowed: ['paid', 'disputed'],
+  disputed: ['sent', 'partially_paid', 'paid', 'partially_refunded', 'refunded', 'cancelled'],
+  paid: ['partially_refunded', 'refunded', 'disputed'],
+  partially_refunded: ['partially_refunded', 'refunded'],
+  refunded: [],
+  cancelled: [],
+  void: [],
+  expired: [],
+};
+
+export const INVOICE_STATUSES = Object.keys(INVOICE_TRANSITIONS) as InvoiceStatus[];
+
+// Actor recorded for transitions nobody asked for, such as expiry
+export const SYSTEM_ACTOR = 'system';
+
+export class InvalidTransitionError extends Error {
+  readonly allowed: InvoiceStatus[];
+
+  constructor(readonly from: InvoiceStatus, readonly to: InvoiceStatus) {
+    super(`Invoice cannot move from ${from} to ${to}`);
+    // Nothing but the resolution of its dispute moves a disputed invoice on
+    this.allowed = from === 'disputed' ? [] : nextStatuses(from);
+  }
+}
+
+export function nextStatuses(status: string | null): InvoiceStatus[] {
+  return INVOICE_TRANSITIONS[(status ?? 'draft') as InvoiceStatus] ?? [];
+}
+
+/**
+ * Move an invoice to `to` and write its history row, inside the caller's transaction.
+ * Throws InvalidTransitionError when the table does not allow it or the invoice is disputed;
+ * undefined if there is no such invoice.
+ */
+export function transitionInvoice(
+  invoiceId: string,
+  to: InvoiceStatus,
+  actor: string,
+  reason?: string,
+  now: number = Date.now(),
+  set: Partial<Pick<Invoice, 'expiresAt' | 'paidAmount'>> = {}
+): Invoice | undefined {
+  return applyTransition(invoiceId, to, actor, reason, now, set, false);
+}
+
+/**
+ * Move a disputed invoice on to the status its resolution leaves it in. Only the dispute's
+ * resolution may do this, inside the deciding vote's transaction.
+ */
+export function resolveDisputedInvoice(invoiceId: string, to: InvoiceStatus, actor: string, reason: string, now: number = Date.now()): Invoice | undefined {
+  return applyTransition(invoiceId, to, actor, reason, now, {}, true);
+}
+
+function applyTransition(
+  invoiceId: string,
+  to: InvoiceStatus,
+  actor: string,
+  reason: string | undefined,
+  now: number,
+  set: Partial<Pick<Invoice, 'expiresAt' | 'paidAmount'>>,
+  resolvingDispute: boolean
+): Invoice | undefined {
+  const invoice = db.select().from(invoices).where(eq(invoices.id, invoiceId)).get();
+  if (!invoice) return undefined;
+
+  const from = (invoice.status ?? 'draft') as InvoiceStatus;
+  if ((from === 'disputed') !== resolvingDispute || !nextStatuses(from).includes(to)) {
+    throw new InvalidTransitionError(from, to);
+  }
+
+  // The status guard keeps two concurrent transitions from both applying
+  const { changes } = db.update(invoices)
+    .set({ ...set, status: to })
+    .where(and(eq(invoices.id, invoiceId), eq(invoices.status, from)))
+    .run();
+  if (changes === 0) throw new InvalidTransitionError(from, to);
+
+  db.insert(invoiceTransitions).values({
+    id: uuidv4(),
+    invoiceId,
+    fromStatus: from,
+    toStatus: to,
+    actor,
+    reason: reason ?? null,
+    createdAt: now,
+  }).run();
+
+  return { ...invoice, ...set, status: to };
+}
+
+export function getInvoiceHistory(invoiceId: string): InvoiceTransition[] {
+  return db.select().from(invoiceTransitions)
+    .where(eq(invoiceTransitions.invoiceId, invoiceId))
+    .orderBy(asc(invoiceTransitions.createdAt))
+    .all();
+}
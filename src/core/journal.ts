@@ -0,0 +1,261 @@
+/**
+ * Double-entry journal underneath allowances, invoices and subscriptions
+ * Value moves between accounts (agent, owner, provider, fees, suspense, clearing) in journal
+ * entries whose debits and credits always balance. Deposits and withdrawals move prepaid funds
+ * between clearing, which stands for the world outside the platform, and the agent's account;
+ * a spend pays them from there to the recipient's provider account. Authorization holds and
+ * escrowed invoice payments park funds in suspense until they are captured or released.
+ * Owner accounts only carry entries from before prepaid balances, when the allowance owner
+ * funded each spend.
+ *
+ * An agent's prepaid balance is its agent and provider accounts together plus what its open
+ * holds have parked in suspense; the fee account's is the fees account.
+ */
+
+import { db } from '../db';
+import { journalEntries, journalPostings, ledgerAccounts } from '../db/schema';
+import { and, eq, lte } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import type { Allowance } from './allowance';
+import { DEFAULT_CURRENCY, sumUnits } from './money';
+
+export type AccountKind = 'agent' | 'owner' | 'provider' | 'fees' | 'suspense' | 'clearing';
+export type EntryKind =
+  | 'spend' | 'invoice_payment' | 'subscription_billing' | 'hold_authorized' | 'hold_captured' | 'hold_released' | 'refund'
+  | 'escrow_locked' | 'escrow_released' | 'escrow_returned'
+  | 'deposit' | 'transfer' | 'withdrawal' | 'withdrawal_cancelled';
+export type LedgerAccount = typeof ledgerAccounts.$inferSelect;
+export type JournalEntry = typeof journalEntries.$inferSelect;
+export type JournalPosting = typeof journalPostings.$inferSelect;
+
+export const ACCOUNT_KINDS: AccountKind[] = ['agent', 'owner', 'provider', 'fees', 'suspense', 'clearing'];
+
+// Fees, suspense and clearing belong to the platform rather than to a participant
+export const PLATFORM_REF = 'platform';
+
+export class UnbalancedEntryError extends Error {}
+
+export interface EntryRefs {
+  memo?: string;
+  transactionId?: string;
+  invoiceId?: string;
+  subscriptionId?: string;
+  holdId?: string;
+  escrowId?: string;
+  withdrawalId?: string;
+}
+
+// `amount` leaves `from` (credit) and arrives at `to` (debit)
+interface Transfer {
+  from: LedgerAccount;
+  to: LedgerAccount;
+  amount: bigint;
+}
+
+export interface AccountBalance {
+  debits: bigint;
+  credits: bigint;
+  balance: bigint; // debits - credits
+}
+
+/**
+ * The account for a participant in one currency, opened on first use
+ */
+export function getAccount(kind: AccountKind, ref: string, currency: string): LedgerAccount {
+  const owner = kind === 'fees' || kind === 'suspense' || kind === 'clearing' ? PLATFORM_REF : ref;
+  db.insert(ledgerAccounts)
+    .values({ id: uuidv4(), kind, ref: owner, currency, createdAt: Date.now() })
+    .onConflictDoNothing()
+    .run();
+  return db.select().from(ledgerAccounts)
+    .where(and(eq(ledgerAccounts.kind, kind), eq(ledgerAccounts.ref, owner), eq(ledgerAccounts.currency, currency)))
+    .get()!;
+}
+
+export function getAccountById(accountId: string): LedgerAccount | undefined {
+  return db.select().from(ledgerAccounts).where(eq(ledgerAccounts.id, accountId)).get();
+}
+
+/**
+ * Write one journal entry. Throws UnbalancedEntryError unless every leg is positive, in the
+ * entry's currency, and debits equal credits.
+ */
+function postEntry(kind: EntryKind, currency: string, transfers: Transfer[], refs: EntryRefs, now: number): string {
+  const legs = transfers.filter(t => t.amount !== 0n);
+  if (legs.length === 0) throw new UnbalancedEntryError('A journal entry needs at least one posting');
+  for (const { from, to, amount } of legs) {
+    if (amount < 0n) throw new UnbalancedEntryError('Postings must be positive');
+    if (from.currency !== currency || to.currency !== currency) {
+      throw new UnbalancedEntryError(`Every account in a ${currency} entry must be in ${currency}`);
+    }
+  }
+
+  const postings = legs.flatMap(({ from, to, amount }) => [
+    { accountId: to.id, direction: 'debit', amount },
+    { accountId: from.id, direction: 'credit', amount },
+  ]);
+  const debits = sumUnits(postings.filter(p => p.direction === 'debit').map(p => p.amount));
+  const credits = sumUnits(postings.filter(p => p.direction === 'credit').map(p => p.amount));
+  if (debits !== credits) throw new UnbalancedEntryError('Debits and credits do not balance');
+
+  const entryId = uuidv4();
+  db.insert(journalEntries).values({ id: entryId, kind, currency, ...refs, createdAt: now }).run();
+  for (const posting of postings) {
+    db.insert(journalPostings).values({ id: uuidv4(), entryId, ...posting, createdAt: now }).run();
+  }
+  return entryId;
+}
+
+function parties(allowance: Allowance) {
+  const currency = allowance.currency ?? DEFAULT_CURRENCY;
+  return {
+    currency,
+    agent: getAccount('agent', allowance.agentId, currency),
+    suspense: getAccount('suspense', PLATFORM_REF, currency),
+  };
+}
+
+/**
+ * A spend charged to an allowance: agent -> recipient, less any platform fee, which goes to
+ * fees. A captured hold is paid out of suspense instead, where its funds were parked at
+ * authorization; an escrowed payment is parked there itself, and its fee is charged when it
+ * is released.
+ */
+export function journalSpend(allowance: Allowance, amount: bigint, recipient: string, refs: EntryRefs, now: number = Date.now(), fee: bigint = 0n): string {
+  const { currency, agent, suspense } = parties(allowance);
+  const provider = getAccount('provider', recipient, currency);
+
+  if (refs.holdId) {
+    return postEntry('hold_captured', currency, [{ from: suspense, to: provider, amount }], refs, now);
+  }
+  if (refs.escrowId) {
+    return postEntry('escrow_locked', currency, [{ from: agent, to: suspense, amount }], refs, now);
+  }
+
+  const kind: EntryKind = refs.subscriptionId ? 'subscription_billing' : refs.invoiceId ? 'invoice_payment' : 'spend';
+  return postEntry(kind, currency, [
+    { from: agent, to: provider, amount: amount - fee },
+    { from: agent, to: getAccount('fees', PLATFORM_REF, currency), amount: fee },
+  ], refs, now);
+}
+
+/**
+ * Pay an escrowed payment out of suspense to its recipient, less the fee
+ */
+export function journalEscrowRelease(allowance: Allowance, amount: bigint, recipient: string, refs: EntryRefs, now: number = Date.now(), fee: bigint = 0n): string {
+  const { currency, suspense } = parties(allowance);
+  return postEntry('escrow_released', currency, [
+    { from: suspense, to: getAccount('provider', recipient, currency), amount: amount - fee },
+    { from: suspense, to: getAccount('fees', PLATFORM_REF, currency), amount: fee },
+  ], refs, now);
+}
+
+/**
+ * Give escrowed funds back to the payer: suspense -> agent
+ */
+export function journalEscrowReturn(allowance: Allowance, amount: bigint, refs: EntryRefs, now: number = Date.now()): string {
+  const { currency, agent, suspense } = parties(allowance);
+  return postEntry('escrow_returned', currency, [{ from: suspense, to: agent, amount }], refs, now);
+}
+
+/**
+ * Give a spend back: recipient -> agent, with `fee` of it coming back from fees
+ */
+export function journalRefund(allowance: Allowance, amount: bigint, recipient: string, refs: EntryRefs, now: number = Date.now(), fee: bigint = 0n): string {
+  const { currency, agent } = parties(allowance);
+  const provider = getAccount('provider', recipient, currency);
+  return postEntry('refund', currency, [
+    { from: provider, to: agent, amount: amount - fee },
+    { from: getAccount('fees', PLATFORM_REF, currency), to: agent, amount: fee },
+  ], refs, now);
+}
+
+/**
+ * Park a hold's funds in suspense: agent -> suspense
+ */
+export function journalHold(allowance: Allowance, amount: bigint, holdId: string, now: number = Date.now()): string {
+  const { currency, agent, suspense } = parties(allowance);
+  return postEntry('hold_authorized', currency, [{ from: agent, to: suspense, amount }], { holdId }, now);
+}
+
+/**
+ * Return the uncaptured part of a hold to the agent: suspense -> agent
+ */
+export function journalHoldRelease(allowance: Allowance, amount: bigint, holdId: string, now: number = Date.now()): string | undefined {
+  if (amount <= 0n) return undefined;
+  const { currency, agent, suspense } = parties(allowance);
+  return postEntry('hold_released', currency, [{ from: suspense, to: agent, amount }], { holdId }, now);
+}
+
+/**
+ * Prepaid funds coming into the platform: clearing -> holder
+ */
+export function journalDeposit(holder: LedgerAccount, amount: bigint, refs: EntryRefs, now: number = Date.now()): string {
+  const clearing = getAccount('clearing', PLATFORM_REF, holder.currency);
+  return postEntry('deposit', holder.currency, [{ from: clearing, to: holder, amount }], refs, now);
+}
+
+/**
+ * Prepaid funds moving from one holder to another
+ */
+export function journalTransfer(from: LedgerAccount, to: LedgerAccount, amount: bigint, refs: EntryRefs, now: number = Date.now()): string {
+  return postEntry('transfer', from.currency, [{ from, to, amount }], refs, now);
+}
+
+/**
+ * Prepaid funds leaving the platform when a withdrawal is requested: holder -> clearing.
+ * A cancelled withdrawal brings them back.
+ */
+export function journalWithdrawal(holder: LedgerAccount, amount: bigint, refs: EntryRefs, now: number = Date.now(), cancelled: boolean = false): string {
+  const clearing = getAccount('clearing', PLATFORM_REF, holder.currency);
+  return cancelled
+    ? postEntry('withdrawal_cancelled', holder.currency, [{ from: clearing, to: holder, amount }], refs, now)
+    : postEntry('withdrawal', holder.currency, [{ from: holder, to: clearing, amount }], refs, now);
+}
+
+function balanceOf(postings: Pick<JournalPosting, 'direction' | 'amount'>[]): AccountBalance {
+  const debits = sumUnits(postings.filter(p => p.direction === 'debit').map(p => p.amount));
+  const credits = sumUnits(postings.filter(p => p.direction === 'credit').map(p => p.amount));
+  return { debits, credits, balance: debits - credits };
+}
+
+/**
+ * An account's balance as of a point in time (inclusive)
+ */
+export function accountBalance(accountId: string, at: number = Date.now()): AccountBalance {
+  const postings = db.select({ direction: journalPostings.direction, amount: journalPostings.amount })
+    .from(journalPostings)
+    .where(and(eq(journalPostings.accountId, accountId), lte(journalPostings.createdAt, at)))
+    .all();
+  return balanceOf(postings);
+}
+
+/**
+ * Every account's balance as of a point in time, grouped by currency. Each currency's
+ * debits and credits must match; `balanced` is false only if the journal is corrupt.
+ */
+export function trialBalance(at: number = Date.now(), currency?: string) {
+  const accounts = db.select().from(ledgerAccounts)
+    .where(currency ? eq(ledgerAccounts.currency, currency) : undefined)
+    .all();
+  const postings = db.select().from(journalPostings).where(lte(journalPostings.createdAt, at)).all();
+
+  const byAccount = new Map<string, JournalPosting[]>();
+  for (const posting of postings) {
+    byAccount.set(posting.accountId, [...(byAccount.get(posting.accountId) ?? []), posting]);
+  }
+
+  const currencies = [...new Set(accounts.map(a => a.currency))].sort();
+  return currencies.map(cur => {
+    const rows = accounts
+      .filter(a => a.currency === cur)
+      .map(a => ({ accountId: a.id, kind: a.kind, ref: a.ref, ...balanceOf(byAccount.get(a.id) ?? []) }));
+    const totalDebits = sumUnits(rows.map(r => r.debits));
+    const totalCredits = sumUnits(rows.map(r => r.credits));
+    return { currency: cur, accounts: rows, totalDebits, totalCredits, balanced: totalDebits === totalCredits };
+  });
+}
+
+export function getEntryPostings(entryId: string): JournalPosting[] {
+  return db.select().from(journalPostings).where(eq(journalPostings.entryId, entryId)).all();
+}
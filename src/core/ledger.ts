@@ -1,74 +1,348 @@
 import { db } from '../db';
 import { invoices, transactions } from '../db/schema';
-import { eq, sql } from 'drizzle-orm';
+import { and, eq, lte } from 'drizzle-orm';
 import { v4 as uuidv4 } from 'uuid';
-import { checkSpend, deductSpend } from './allowance';
+import { checkSpend, deductSpend, getAgentAllowance, SpendOptions } from './allowance';
+import { AllowanceSelection, rankAllowances } from './selection';
+import { DEFAULT_CURRENCY, WithMoneyAsStrings, formatUnits, serializeMoney } from './money';
+import { convert } from './fx';
+import { Invoice, InvoiceStatus, InvalidTransitionError, SYSTEM_ACTOR, nextStatuses, transitionInvoice } from './invoiceStates';
+import { Discount, InvoiceLineItem, LineItemInput, getLineItems, priceInvoice, saveLineItems } from './lineItems';
+import { Installment, coverInstallments, dueInstallments, getInstallments, paidThrough, recordInstallmentFailure } from './installments';
+import { notify } from './webhooks';
+
+export interface InvoiceTransitionResult {
+  success: boolean;
+  invoice?: Invoice;
+  error?: string;
+  allowed?: InvoiceStatus[]; // next statuses the invoice could take, when this one was refused
+}
+
+export interface InvoiceDetails {
+  expiresAt?: number;
+  memo?: string;
+  lineItems?: LineItemInput[]; // when given, the invoice's amount is their total
+  taxRate?: number; // percent, for lines without a rate of their own
+  discount?: Discount; // off the whole invoice
+  allowPartial?: boolean; // accept payments of part of the total
+}
+
+/**
+ * Create a draft. Its total is worked out from the line items, or from `amount` as a single
+ * undescribed line, less discounts and plus tax.
+ */
+export async function createInvoice(
+  issuerId: string,
+  recipientId: string,
+  amount: bigint,
+  dueAt?: number,
+  currency: string = DEFAULT_CURRENCY,
+  details: InvoiceDetails = {}
+): Promise<{ success: boolean; invoiceId?: string; invoice?: Invoice; lineItems?: InvoiceLineItem[]; error?: string }> {
+  const { lineItems, taxRate, discount } = details;
+  const priced = priceInvoice({
+    lineItems: lineItems?.length ? lineItems : [{ description: details.memo ?? 'Amount', quantity: '1', unitPrice: amount }],
+    taxRate,
+    discount,
+  });
+  if (priced.total <= 0n) return { success: false, error: 'Invoice total must be positive' };
 
-export async function createInvoice(issuerId: string, recipientId: string, amount: number, dueAt?: number): Promise<{ success: boolean; invoiceId?: string; error?: string }> {
   try {
     const invoiceId = uuidv4();
-    await db.insert(invoices).values({
+    const invoice: Invoice = {
       id: invoiceId,
       issuerId: issuerId,
       recipientId: recipientId,
-      amount: amount,
-      dueAt: dueAt,
+      amount: priced.total,
+      currency: currency,
       status: 'draft',
+      allowPartial: details.allowPartial ?? false,
+      paidAmount: 0n,
+      dueAt: dueAt ?? null,
+      expiresAt: details.expiresAt ?? null,
+      memo: details.memo ?? null,
+      subtotal: priced.subtotal,
+      discountTotal: priced.discountTotal,
+      taxTotal: priced.taxTotal,
+      taxRate: taxRate ?? null,
+      discountPercent: discount?.percent ?? null,
+      discountAmount: discount?.amount ?? null,
       createdAt: Date.now(),
-    }).run();
+    };
+    db.transaction(() => {
+      db.insert(invoices).values(invoice).run();
+      if (lineItems?.length) saveLineItems(invoiceId, priced);
+    });
 
-    return { success: true, invoiceId: invoiceId };
+    return { success: true, invoiceId: invoiceId, invoice, lineItems: getLineItems(invoiceId) };
   } catch (error) {
     console.error("Create Invoice error:", error);
     return { success: false, error: 'Database error' };
   }
 }
 
-export async function sendInvoice(invoiceId: string): Promise<{ success: boolean; error?: string }> {
+/**
+ * Apply an issuer's transition. Without an actor the issuer is assumed, as for
+ * subscription billing.
+ */
+async function issuerTransition(
+  invoiceId: string,
+  to: InvoiceStatus,
+  actorId?: string,
+  reason?: string,
+  set: { expiresAt?: number } = {}
+): Promise<InvoiceTransitionResult> {
   try {
     const invoice = await db.select().from(invoices).where(eq(invoices.id, invoiceId)).limit(1).get();
-    
     if (!invoice) return { success: false, error: 'Invoice not found' };
-    if (invoice.status !== 'draft') return { success: false, error: 'Invoice must be in draft status to send' };
-
-    await db.update(invoices)
-      .set({ status: 'sent' })
-      .where(eq(invoices.id, invoiceId))
-      .run();
+    if (actorId && actorId !== invoice.issuerId) return { success: false, error: 'Only the issuer of an invoice can change its status' };
+    if (invoice.status === 'disputed') return { success: false, error: 'Invoice is disputed', allowed: [] };
 
-    return { success: true };
+    const updated = db.transaction(
+      () => transitionInvoice(invoiceId, to, actorId ?? invoice.issuerId, reason, Date.now(), set),
+      { behavior: 'immediate' }
+    );
+    return { success: true, invoice: updated };
   } catch (error) {
-    console.error("Send Invoice error:", error);
+    if (error instanceof InvalidTransitionError) return { success: false, error: error.message, allowed: error.allowed };
+    console.error("Invoice Transition error:", error);
     return { success: false, error: 'Database error' };
   }
 }
 
-export async function payInvoice(invoiceId: string, agentId: string, allowanceId?: string): Promise<{ success: boolean; transactionId?: string; error?: string }> {
+/**
+ * Send a draft to its recipient, optionally setting when it expires if left unpaid
+ */
+export async function sendInvoice(invoiceId: string, actorId?: string, expiresAt?: number): Promise<InvoiceTransitionResult> {
+  const result = await issuerTransition(invoiceId, 'sent', actorId, undefined, expiresAt === undefined ? {} : { expiresAt });
+  const invoice = result.invoice;
+  if (invoice) {
+    const currency = invoice.currency ?? DEFAULT_CURRENCY;
+    void notify.invoiceSent(invoice.recipientId, invoice.id, formatUnits(invoice.amount, currency), currency, invoice.dueAt ?? undefined);
+  }
+  return result;
+}
+
+export async function cancelInvoice(invoiceId: string, actorId: string, reason?: string): Promise<InvoiceTransitionResult> {
+  const result = await issuerTransition(invoiceId, 'cancelled', actorId, reason);
+  if (result.invoice) notifyClosed(result.invoice, actorId, reason);
+  return result;
+}
+
+/**
+ * Void a sent invoice, e.g. one issued in error after the recipient has seen it
+ */
+export async function voidInvoice(invoiceId: string, actorId: string, reason?: string): Promise<InvoiceTransitionResult> {
+  const result = await issuerTransition(invoiceId, 'void', actorId, reason);
+  if (result.invoice) notifyClosed(result.invoice, actorId, reason);
+  return result;
+}
+
+/**
+ * Expire every sent invoice whose expiry date has passed
+ */
+export async function expireInvoices(now: number = Date.now()): Promise<number> {
   try {
+    const due = await db.select().from(invoices)
+      .where(and(eq(invoices.status, 'sent'), lte(invoices.expiresAt, now)))
+      .all();
+
+    let expired = 0;
+    for (const invoice of due) {
+      try {
+        db.transaction(() => transitionInvoice(invoice.id, 'expired', SYSTEM_ACTOR, 'Expiry date passed', now), { behavior: 'immediate' });
+      } catch (error) {
+        if (error instanceof InvalidTransitionError) continue; // paid or closed in the meantime
+        throw error;
+      }
+      notifyClosed(invoice, SYSTEM_ACTOR);
+      expired++;
+    }
+    return expired;
+  } catch (error) {
+    console.error("Expire Invoices error:", error);
+    return 0;
+  }
+}
+
+function notifyClosed(invoice: Invoice, actor: string, reason?: string): void {
+  const status = invoice.status as 'cancelled' | 'void' | 'expired';
+  for (const agentId of new Set([invoice.issuerId, invoice.recipientId])) {
+    void notify.invoiceClosed(agentId, invoice.id, status, actor, reason);
+  }
+}
+
+/**
+ * Currency the payer's allowance is charged in: the named allowance's; otherwise the
+ * invoice's own if the agent has an allowance in it, else that of the agent's top-ranked allowance
+ */
+export function chargeCurrency(agentId: string, invoiceCurrency: string, allowanceId?: string): string {
+  if (allowanceId) {
+    return getAgentAllowance(agentId, allowanceId)?.currency ?? invoiceCurrency;
+  }
+  if (rankAllowances(agentId, 'invoice_payment', invoiceCurrency).length > 0) return invoiceCurrency;
+  const [top] = rankAllowances(agentId, 'invoice_payment');
+  return top?.allowance.currency ?? invoiceCurrency;
+}
+
+export interface InvoicePaymentResult {
+  success: boolean;
+  transactionId?: string;
+  error?: string;
+  allowed?: InvoiceStatus[];
+  approvalId?: string;
+  allowanceId?: string;
+  selection?: AllowanceSelection;
+  // After a successful payment, in the invoice's currency
+  invoiceStatus?: string;
+  paidAmount?: bigint;
+  outstanding?: bigint;
+  currency?: string;
+}
+
+/**
+ * Pay an invoice, or part of it when it allows partial payments: `options.invoiceAmount`
+ * (in the invoice's currency) defaults to everything outstanding
+ */
+export async function payInvoice(invoiceId: string, agentId: string, allowanceId?: string, options: SpendOptions = {}): Promise<InvoicePaymentResult> {
+  try {
+    await expireInvoices();
     const invoice = await db.select().from(invoices).where(eq(invoices.id, invoiceId)).limit(1).get();
     
     if (!invoice) return { success: false, error: 'Invoice not found' };
-    if (invoice.status === 'paid') return { success: false, error: 'Invoice already paid' };
-    // Allow paying if 'sent' or 'draft' (auto-generated invoices might skip 'sent' state if internal)
-    // But strictly speaking, better to enforce flow. For now, let's allow both to be safe for subscriptions.
+    if (invoice.status === 'escrowed') {
+      return { success: false, error: 'Invoice is paid from escrow once delivery is confirmed', allowed: nextStatuses(invoice.status) };
+    }
+    if (invoice.status === 'disputed') return { success: false, error: 'Invoice is disputed', allowed: [] };
+    if (!nextStatuses(invoice.status).includes('paid')) {
+      return { success: false, error: new InvalidTransitionError(invoice.status as InvoiceStatus, 'paid').message, allowed: nextStatuses(invoice.status) };
+    }
     if (invoice.recipientId !== agentId) return { success: false, error: 'Recipient mismatch' };
 
-    // Check allowance and deduct
-    const spendResult = await deductSpend(agentId, invoice.amount, 'invoice_payment', invoice.issuerId, allowanceId);
+    const invoiceCurrency = invoice.currency ?? DEFAULT_CURRENCY;
+    const outstanding = invoice.amount - (invoice.paidAmount ?? 0n);
+    const paying = options.invoiceAmount ?? outstanding;
+    if (paying <= 0n) return { success: false, error: 'Amount must be positive' };
+    if (paying > outstanding) {
+      return { success: false, error: `Payment exceeds the outstanding balance of ${formatUnits(outstanding, invoiceCurrency)} ${invoiceCurrency}` };
+    }
+    if (paying < outstanding && !invoice.allowPartial) return { success: false, error: 'Invoice does not allow partial payments' };
+
+    // An invoice in another currency is converted at today's rate into the allowance's
+    const currency = chargeCurrency(agentId, invoiceCurrency, allowanceId);
+    const conversion = convert(paying, invoiceCurrency, currency);
+    if (!conversion) return { success: false, error: `No FX rate from ${invoiceCurrency} to ${currency}` };
+
+    // Check allowance and deduct; the payment is added to the invoice in the same transaction as the spend
+    const spendResult = await deductSpend(agentId, conversion.amount, 'invoice_payment', invoice.issuerId, allowanceId, {
+      ...options,
+      invoiceId,
+      invoiceAmount: paying,
+      currency,
+      fx: conversion.rateId ? conversion : undefined,
+    });
 
     if (!spendResult.success) {
-      return { success: false, error: spendResult.reason || 'Spend failed' };
+      return {
+        success: false,
+        error: spendResult.reason || 'Spend failed',
+        approvalId: spendResult.approvalId,
+        allowanceId: spendResult.allowanceId,
+        selection: spendResult.selection,
+      };
     }
 
-    await db.update(invoices)
-      .set({ status: 'paid' })
-      .where(eq(invoices.id, invoiceId))
-      .run();
+    const transactionId = spendResult.transactionId!;
+    const paid = db.select().from(invoices).where(eq(invoices.id, invoiceId)).get() ?? invoice;
+    const paidAmount = paid.paidAmount ?? 0n;
+    notifyPayment(paid, paying, transactionId);
 
-    return { success: true, transactionId: spendResult.transactionId };
+    return {
+      success: true,
+      transactionId,
+      allowanceId: spendResult.allowanceId,
+      selection: spendResult.selection,
+      invoiceStatus: paid.status ?? undefined,
+      paidAmount,
+      outstanding: paid.amount - paidAmount,
+      currency: invoiceCurrency,
+    };
 
   } catch (error) {
     console.error("Pay Invoice error:", error);
     return { success: false, error: 'Database error' };
   }
 }
+
+/**
+ * Tell the issuer about a payment, and both parties about the installments it covered
+ */
+export function notifyPayment(invoice: Invoice, amount: bigint, transactionId: string): void {
+  const currency = invoice.currency ?? DEFAULT_CURRENCY;
+  const paidAmount = invoice.paidAmount ?? 0n;
+  if (invoice.status === 'paid') {
+    void notify.invoicePaid(invoice.issuerId, invoice.id, formatUnits(amount, currency), currency, transactionId);
+  } else {
+    void notify.invoicePartiallyPaid(
+      invoice.issuerId, invoice.id, formatUnits(amount, currency), currency,
+      formatUnits(paidAmount, currency), formatUnits(invoice.amount - paidAmount, currency), transactionId
+    );
+  }
+
+  for (const installment of coverInstallments(invoice.id, paidAmount, transactionId)) {
+    for (const agentId of new Set([invoice.issuerId, invoice.recipientId])) {
+      void notify.installmentPaid(agentId, invoice.id, installment.id, installment.sequence, formatUnits(installment.amount, currency), currency, transactionId);
+    }
+  }
+}
+
+// One invoice's charge in an installment run, with its amounts as decimal strings
+export interface DueInstallmentDetail extends WithMoneyAsStrings<InvoicePaymentResult> {
+  invoiceId: string;
+  installments: number[]; // sequences the charge was for
+  amount: string; // what was owed, in the invoice's currency
+  currency: string;
+}
+
+/**
+ * Charge every installment that has fallen due and is not covered yet to the recipient's
+ * allowance, one payment per invoice for all it owes so far. A payment queued for approval
+ * is left to the approval; a failed one is retried on the next run.
+ */
+export async function processDueInstallments(now: number = Date.now()): Promise<{ charged: number; failures: number; details: DueInstallmentDetail[] }> {
+  const byInvoice = new Map<string, Installment[]>();
+  for (const installment of dueInstallments(now)) {
+    byInvoice.set(installment.invoiceId, [...(byInvoice.get(installment.invoiceId) ?? []), installment]);
+  }
+
+  const details: DueInstallmentDetail[] = [];
+  let charged = 0;
+  let failures = 0;
+
+  for (const [invoiceId, due] of byInvoice) {
+    const invoice = await db.select().from(invoices).where(eq(invoices.id, invoiceId)).limit(1).get();
+    if (!invoice) continue;
+
+    const last = due[due.length - 1];
+    const owed = paidThrough(getInstallments(invoiceId), last.sequence) - (invoice.paidAmount ?? 0n);
+    const currency = invoice.currency ?? DEFAULT_CURRENCY;
+    if (owed <= 0n) continue;
+
+    const result = await payInvoice(invoiceId, invoice.recipientId, last.allowanceId ?? undefined, { invoiceAmount: owed });
+    details.push({ invoiceId, installments: due.map(i => i.sequence), amount: formatUnits(owed, currency), currency, ...serializeMoney(result, currency) });
+    if (result.success) {
+      charged++;
+    } else if (!result.approvalId) {
+      const reason = result.error || 'Payment failed';
+      recordInstallmentFailure(due, reason);
+      for (const installment of due) {
+        for (const agentId of new Set([invoice.issuerId, invoice.recipientId])) {
+          void notify.installmentFailed(agentId, invoiceId, installment.id, installment.sequence, formatUnits(installment.amount, currency), currency, reason);
+        }
+      }
+      failures++;
+    }
+  }
+
+  return { charged, failures, details };
+}
@@ -0,0 +1,139 @@
+/**
+ * Invoice line items, discounts and taxes
+ * Totals are always worked out here rather than taken from the client. Each line's own
+ * discount comes off first, then an invoice-wide discount is shared across the lines in
+ * proportion to what is left of them, and tax is charged on each line's discounted amount
+ * at its own rate or the invoice's.
+ */
+
+import { db } from '../db';
+import { invoiceLineItems } from '../db/schema';
+import { asc, eq } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import { MoneyError, percentOf, sumUnits } from './money';
+
+export type InvoiceLineItem = typeof invoiceLineItems.$inferSelect;
+
+export const MAX_QUANTITY_DECIMALS = 6;
+
+const QUANTITY = /^(\d+)(?:\.(\d+))?$/;
+
+export type Discount =
+  | { percent: number; amount?: undefined }
+  | { amount: bigint; percent?: undefined };
+
+export interface LineItemInput {
+  description: string;
+  quantity: string; // decimal, e.g. "1.5" hours
+  unitPrice: bigint;
+  taxRate?: number; // percent; defaults to the invoice's
+  discount?: Discount;
+}
+
+export interface InvoicePricing {
+  lineItems: LineItemInput[];
+  taxRate?: number; // percent
+  discount?: Discount; // off the whole invoice
+}
+
+export interface PricedLine {
+  input: LineItemInput;
+  amount: bigint;
+  discount: bigint; // its own plus its share of the invoice's
+  tax: bigint;
+  total: bigint;
+}
+
+export interface PricedInvoice {
+  lines: PricedLine[];
+  subtotal: bigint;
+  discountTotal: bigint;
+  taxTotal: bigint;
+  total: bigint;
+}
+
+export function isValidQuantity(quantity: string): boolean {
+  const match = QUANTITY.exec(quantity);
+  return !!match && (match[2] ?? '').length <= MAX_QUANTITY_DECIMALS && /[1-9]/.test(quantity);
+}
+
+/**
+ * `unitPrice * quantity`, rounded half up to the smallest unit
+ */
+export function lineAmount(unitPrice: bigint, quantity: string): bigint {
+  const [, whole, fraction = ''] = QUANTITY.exec(quantity) ?? [];
+  if (whole === undefined) throw new MoneyError(`Invalid quantity '${quantity}'`);
+
+  const denominator = 10n ** BigInt(fraction.length);
+  return (unitPrice * BigInt(whole + fraction) * 2n + denominator) / (2n * denominator);
+}
+
+function discountOn(amount: bigint, discount?: Discount): bigint {
+  if (!discount) return 0n;
+  const off = discount.amount ?? percentOf(amount, discount.percent);
+  return off > amount ? amount : off;
+}
+
+/**
+ * Work out every line and the invoice's subtotal, discounts, tax and total
+ */
+export function priceInvoice(pricing: InvoicePricing): PricedInvoice {
+  const gross = pricing.lineItems.map(item => lineAmount(item.unitPrice, item.quantity));
+  const own = pricing.lineItems.map((item, i) => discountOn(gross[i], item.discount));
+  const net = gross.map((amount, i) => amount - own[i]);
+
+  // Shares are taken off running totals so they add up to the invoice discount exactly
+  const netTotal = sumUnits(net);
+  const invoiceDiscount = discountOn(netTotal, pricing.discount);
+  let before = 0n;
+  let allocated = 0n;
+  const shares = net.map(amount => {
+    before += amount;
+    const upTo = netTotal === 0n ? 0n : (invoiceDiscount * before) / netTotal;
+    const share = upTo - allocated;
+    allocated = upTo;
+    return share;
+  });
+
+  const lines = pricing.lineItems.map((input, i) => {
+    const discount = own[i] + shares[i];
+    const taxable = gross[i] - discount;
+    const tax = percentOf(taxable, input.taxRate ?? pricing.taxRate ?? 0);
+    return { input, amount: gross[i], discount, tax, total: taxable + tax };
+  });
+
+  const subtotal = sumUnits(lines.map(l => l.amount));
+  const discountTotal = sumUnits(lines.map(l => l.discount));
+  const taxTotal = sumUnits(lines.map(l => l.tax));
+  return { lines, subtotal, discountTotal, taxTotal, total: subtotal - discountTotal + taxTotal };
+}
+
+/**
+ * Store an invoice's priced lines, inside its transaction
+ */
+export function saveLineItems(invoiceId: string, priced: PricedInvoice): void {
+  priced.lines.forEach(({ input, amount, discount, tax, total }, position) => {
+    db.insert(invoiceLineItems).values({
+      id: uuidv4(),
+      invoiceId,
+      position,
+      description: input.description,
+      quantity: input.quantity,
+      unitPrice: input.unitPrice,
+      taxRate: input.taxRate ?? null,
+      discountPercent: input.discount?.percent ?? null,
+      discountAmount: input.discount?.amount ?? null,
+      amount,
+      discount,
+      tax,
+      total,
+    }).run();
+  });
+}
+
+export function getLineItems(invoiceId: string): InvoiceLineItem[] {
+  return db.select().from(invoiceLineItems)
+    .where(eq(invoiceLineItems.invoiceId, invoiceId))
+    .orderBy(asc(invoiceLineItems.position))
+    .all();
+}
@@ -0,0 +1,99 @@
+/**
+ * Exact money arithmetic
+ * Amounts are held as bigint counts of a currency's smallest unit (cents, USDC's 6 decimals,
+ * wei-style 18 decimals for tokens) and only become decimal strings at the API edge.
+ */
+
+export const CURRENCY_SCALES: Record<string, number> = {
+  USD: 2,
+  EUR: 2,
+  GBP: 2,
+  USDC: 6,
+  OPENWORK: 18,
+  ETH: 18,
+};
+
+export const DEFAULT_CURRENCY = 'USDC';
+
+const DECIMAL = /^(\d+)(?:\.(\d+))?$/;
+
+export class MoneyError extends Error {}
+
+export function isSupportedCurrency(currency: string): boolean {
+  return currency in CURRENCY_SCALES;
+}
+
+export function scaleOf(currency: string): number {
+  const scale = CURRENCY_SCALES[currency];
+  if (scale === undefined) throw new MoneyError(`Unsupported currency '${currency}'`);
+  return scale;
+}
+
+/**
+ * Parse a non-negative decimal string into base units, rejecting more precision than the currency has
+ */
+export function toUnits(amount: string, currency: string): bigint {
+  const scale = scaleOf(currency);
+  const match = DECIMAL.exec(amount.trim());
+  if (!match) throw new MoneyError(`Invalid amount '${amount}'`);
+
+  const [, whole, fraction = ''] = match;
+  const significant = fraction.replace(/0+$/, '');
+  if (significant.length > scale) {
+    throw new MoneyError(`${currency} amounts have at most ${scale} decimal places`);
+  }
+  return BigInt(whole + fraction.padEnd(scale, '0').slice(0, scale));
+}
+
+/**
+ * Render base units as a decimal string, without trailing zeros
+ */
+export function formatUnits(units: bigint, currency: string): string {
+  const scale = scaleOf(currency);
+  const sign = units < 0n ? '-' : '';
+  const digits = (units < 0n ? -units : units).toString().padStart(scale + 1, '0');
+  const whole = digits.slice(0, digits.length - scale);
+  const fraction = digits.slice(digits.length - scale).replace(/0+$/, '');
+  return fraction ? `${sign}${whole}.${fraction}` : `${sign}${whole}`;
+}
+
+export function sumUnits(values: Iterable<bigint>): bigint {
+  let total = 0n;
+  for (const value of values) total += value;
+  return total;
+}
+
+/**
+ * `units * percent / 100`, rounded down
+ */
+export function percentOf(units: bigint, percent: number): bigint {
+  return (units * BigInt(Math.round(percent * 100))) / 10_000n;
+}
+
+/**
+ * `part / whole` as a percentage, for display and thresholds
+ */
+export function ratioPercent(part: bigint, whole: bigint): number {
+  if (whole === 0n) return 0;
+  return Number((part * 1_000_000n) / whole) / 10_000;
+}
+
+export type WithMoneyAsStrings<T> =
+  T extends bigint ? string
+  : T extends Array<infer U> ? WithMoneyAsStrings<U>[]
+  : T extends object ? { [K in keyof T]: WithMoneyAsStrings<T[K]> }
+  : T;
+
+/**
+ * Replace every bigint amount in a row (or nested report) with its decimal string, so it can be sent as JSON
+ */
+export function serializeMoney<T>(value: T, currency: string): WithMoneyAsStrings<T> {
+  if (typeof value === 'bigint') return formatUnits(value, currency) as WithMoneyAsStrings<T>;
+  if (Array.isArray(value)) return value.map(v => serializeMoney(v, currency)) as WithMoneyAsStrings<T>;
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, v]) => [key, serializeMoney(v, currency)])
+    ) as WithMoneyAsStrings<T>;
+  }
+  return value as WithMoneyAsStrings<T>;
+}
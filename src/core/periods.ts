@@ -0,0 +1,119 @@
+/**
+ * Calendar periods for allowance accounting
+ * Windows follow the allowance's IANA timezone: local day, ISO week (Monday start) and month.
+ */
+
+export type Period = 'daily' | 'weekly' | 'monthly';
+
+export const PERIODS: Period[] = ['daily', 'weekly', 'monthly'];
+
+export const DEFAULT_TIMEZONE = 'UTC';
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number; // 0 = Monday ... 6 = Sunday
+}
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const formatters: Map<string, Intl.DateTimeFormat> = new Map();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      weekday: 'short',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Check that a string is a timezone the runtime understands
+ */
+export function isValidTimezone(timeZone: string): boolean {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wall-clock fields of an instant in the given timezone
+ */
+export function zonedParts(at: number, timeZone: string): ZonedParts {
+  const fields: Record<string, string> = {};
+  for (const part of formatterFor(timeZone).formatToParts(new Date(at))) {
+    fields[part.type] = part.value;
+  }
+  return {
+    year: Number(fields.year),
+    month: Number(fields.month),
+    day: Number(fields.day),
+    hour: Number(fields.hour),
+    minute: Number(fields.minute),
+    second: Number(fields.second),
+    weekday: WEEKDAYS.indexOf(fields.weekday),
+  };
+}
+
+function offsetAt(at: number, timeZone: string): number {
+  const p = zonedParts(at, timeZone);
+  const wallClock = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return wallClock - Math.floor(at / 1000) * 1000;
+}
+
+/**
+ * UTC instant of local midnight on the given date (day may overflow, like Date.UTC)
+ */
+function localMidnight(year: number, month: number, day: number, timeZone: string): number {
+  const guess = Date.UTC(year, month - 1, day);
+  const first = guess - offsetAt(guess, timeZone);
+  // Re-resolve once so a DST change between the guess and the result is accounted for
+  return guess - offsetAt(first, timeZone);
+}
+
+/**
+ * Start and (exclusive) end of the period containing `at`
+ */
+export function periodBounds(period: Period, at: number, timeZone: string = DEFAULT_TIMEZONE): { start: number; end: number } {
+  const p = zonedParts(at, timeZone);
+
+  if (period === 'daily') {
+    return {
+      start: localMidnight(p.year, p.month, p.day, timeZone),
+      end: localMidnight(p.year, p.month, p.day + 1, timeZone),
+    };
+  }
+  if (period === 'weekly') {
+    const monday = p.day - p.weekday;
+    return {
+      start: localMidnight(p.year, p.month, monday, timeZone),
+      end: localMidnight(p.year, p.month, monday + 7, timeZone),
+    };
+  }
+  return {
+    start: localMidnight(p.year, p.month, 1, timeZone),
+    end: localMidnight(p.year, p.month + 1, 1, timeZone),
+  };
+}
+
+export function periodStart(period: Period, at: number, timeZone: string = DEFAULT_TIMEZONE): number {
+  return periodBounds(period, at, timeZone).start;
+}
@@ -0,0 +1,204 @@
+/**
+ * Hierarchical budget pools shared by a fleet of agents
+ * Child allowances keep their own sub-limits; a spend also has to fit the pool they
+ * belong to and every pool above it. Pool usage is read from the transactions table.
+ */
+
+import { db } from '../db';
+import { allowances, budgetPools } from '../db/schema';
+import { eq, inArray } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import type { Allowance, PendingCharge } from './allowance';
+import { Period, PERIODS, DEFAULT_TIMEZONE, periodStart } from './periods';
+import { committedAcross } from './usage';
+import { DEFAULT_CURRENCY, sumUnits } from './money';
+
+export type BudgetPool = typeof budgetPools.$inferSelect;
+
+export interface PoolInput {
+  ownerId: string;
+  name: string;
+  parentPoolId?: string | null;
+  currency?: string;
+  dailyLimit?: bigint;
+  weeklyLimit?: bigint;
+  monthlyLimit?: bigint;
+  timezone?: string;
+}
+
+const LIMIT_FIELDS = {
+  daily: 'dailyLimit',
+  weekly: 'weeklyLimit',
+  monthly: 'monthlyLimit',
+} as const satisfies Record<Period, keyof BudgetPool>;
+
+export function getPool(poolId: string): BudgetPool | undefined {
+  return db.select().from(budgetPools).where(eq(budgetPools.id, poolId)).get();
+}
+
+/**
+ * The pool itself followed by its parent, grandparent, ... up to the root
+ */
+export function getPoolChain(poolId: string): BudgetPool[] {
+  const chain: BudgetPool[] = [];
+  const seen = new Set<string>();
+  let current = getPool(poolId);
+  while (current && !seen.has(current.id)) {
+    chain.push(current);
+    seen.add(current.id);
+    current = current.parentPoolId ? getPool(current.parentPoolId) : undefined;
+  }
+  return chain;
+}
+
+/**
+ * IDs of the pool and all pools nested beneath it
+ */
+function subtreePoolIds(poolId: string): string[] {
+  const ids = [poolId];
+  for (let i = 0; i < ids.length; i++) {
+    const children = db.select({ id: budgetPools.id }).from(budgetPools).where(eq(budgetPools.parentPoolId, ids[i])).all();
+    for (const child of children) {
+      if (!ids.includes(child.id)) ids.push(child.id);
+    }
+  }
+  return ids;
+}
+
+function subtreeAllowanceIds(poolId: string): string[] {
+  return db.select({ id: allowances.id }).from(allowances)
+    .where(inArray(allowances.poolId, subtreePoolIds(poolId)))
+    .all()
+    .map(a => a.id);
+}
+
+function poolUsage(allowanceIds: string[], timezone: string, now: number) {
+  return Object.fromEntries(
+    PERIODS.map(period => [period, committedAcross(allowanceIds, periodStart(period, now, timezone), now)])
+  ) as Record<Period, { spent: bigint; held: bigint }>;
+}
+
+/**
+ * Returns the denial reason if any pool above the allowance lacks headroom, otherwise undefined.
+ * `pending` adds planned spends on any allowance in the pools that are not recorded yet.
+ */
+export function checkPools(allowance: Allowance, amount: bigint, now: number = Date.now(), pending: PendingCharge[] = []): string | undefined {
+  if (!allowance.poolId) return undefined;
+
+  for (const pool of getPoolChain(allowance.poolId)) {
+    if (pool.status !== 'active') return `Budget pool '${pool.name}' is ${pool.status}`;
+
+    const allowanceIds = subtreeAllowanceIds(pool.id);
+    const planned = sumUnits(pending.filter(p => allowanceIds.includes(p.allowanceId)).map(p => p.amount));
+    const timezone = pool.timezone ?? DEFAULT_TIMEZONE;
+    for (const period of PERIODS) {
+      const limit = pool[LIMIT_FIELDS[period]] ?? 0n;
+      if (limit <= 0n) continue;
+      const { spent, held } = committedAcross(allowanceIds, periodStart(period, now, timezone), now);
+      if (spent + held + planned + amount > limit) {
+        return `Budget pool '${pool.name}' ${period} limit exceeded`;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Pool limits and consumption, broken down by child allowance and child pool
+ */
+export function getPoolReport(poolId: string, now: number = Date.now()) {
+  const pool = getPool(poolId);
+  if (!pool) return undefined;
+
+  const timezone = pool.timezone ?? DEFAULT_TIMEZONE;
+  const childAllowances = db.select().from(allowances).where(eq(allowances.poolId, poolId)).all();
+  const childPools = db.select().from(budgetPools).where(eq(budgetPools.parentPoolId, poolId)).all();
+
+  return {
+    ...pool,
+    limits: {
+      daily: pool.dailyLimit ?? 0n,
+      weekly: pool.weeklyLimit ?? 0n,
+      monthly: pool.monthlyLimit ?? 0n,
+    },
+    usage: poolUsage(subtreeAllowanceIds(pool.id), timezone, now),
+    children: {
+      allowances: childAllowances.map(a => ({
+        allowanceId: a.id,
+        agentId: a.agentId,
+        status: a.status,
+        usage: poolUsage([a.id], timezone, now),
+      })),
+      pools: childPools.map(p => ({
+        poolId: p.id,
+        name: p.name,
+        status: p.status,
+        usage: poolUsage(subtreeAllowanceIds(p.id), timezone, now),
+      })),
+    },
+  };
+}
+
+export async function createPool(input: PoolInput): Promise<{ success: boolean; poolId?: string; error?: string }> {
+  try {
+    const currency = input.currency ?? DEFAULT_CURRENCY;
+    if (input.parentPoolId) {
+      const parent = getPool(input.parentPoolId);
+      if (!parent) return { success: false, error: 'Parent pool not found' };
+      if ((parent.currency ?? DEFAULT_CURRENCY) !== currency) {
+        return { success: false, error: 'A pool must use the same currency as its parent' };
+      }
+    }
+
+    const poolId = uuidv4();
+    await db.insert(budgetPools).values({
+      id: poolId,
+      ownerId: input.ownerId,
+      name: input.name,
+      parentPoolId: input.parentPoolId ?? null,
+      currency,
+      dailyLimit: input.dailyLimit ?? 0n,
+      weeklyLimit: input.weeklyLimit ?? 0n,
+      monthlyLimit: input.monthlyLimit ?? 0n,
+      timezone: input.timezone ?? DEFAULT_TIMEZONE,
+      status: 'active',
+      createdAt: Date.now(),
+    }).run();
+
+    return { success: true, poolId };
+  } catch (error) {
+    console.error("Create Pool error:", error);
+    return { success: false, error: 'Database error' };
+  }
+}
+
+export async function updatePool(
+  poolId: string,
+  updates: Partial<Omit<PoolInput, 'ownerId' | 'currency'>> & { status?: 'active' | 'paused' }
+): Promise<{ success: boolean; pool?: BudgetPool; error?: string }> {
+  try {
+    const pool = getPool(poolId);
+    if (!pool) return { success: false, error: 'Pool not found' };
+
+    if (updates.parentPoolId) {
+      const parent = getPool(updates.parentPoolId);
+      if (!parent) return { success: false, error: 'Parent pool not found' };
+      if (parent.currency !== pool.currency) {
+        return { success: false, error: 'A pool must use the same currency as its parent' };
+      }
+      if (subtreePoolIds(poolId).includes(updates.parentPoolId)) {
+        return { success: false, error: 'A pool cannot be nested inside itself' };
+      }
+    }
+
+    const values = Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined));
+    if (Object.keys(values).length > 0) {
+      await db.update(budgetPools).set(values).where(eq(budgetPools.id, poolId)).run();
+    }
+
+    return { success: true, pool: getPool(poolId) };
+  } catch (error) {
+    console.error("Update Pool error:", error);
+    return { success: false, error: 'Database error' };
+  }
+}
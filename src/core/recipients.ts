@@ -0,0 +1,102 @@
+/**
+ * Counterparty controls on allowances
+ * An allowlist/denylist of agent IDs or wallet addresses, plus a policy for recipients on neither list:
+ *   open      - anyone not denylisted may be paid
+ *   allowlist - only allowlisted recipients may be paid
+ *   approval  - unknown recipients are parked as pending until the owner allows them
+ */
+
+import { db } from '../db';
+import { recipientRules } from '../db/schema';
+import { and, eq } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import type { Allowance } from './allowance';
+
+export type RecipientPolicy = 'open' | 'allowlist' | 'approval';
+export type RecipientRuleKind = 'allow' | 'deny' | 'pending';
+export type RecipientRule = typeof recipientRules.$inferSelect;
+
+const WALLET_ADDRESS = /^0x[a-fA-F0-9]{40}$/;
+
+/**
+ * Wallet addresses are matched case-insensitively; agent IDs as-is
+ */
+export function normalizeRecipient(recipient: string): string {
+  return WALLET_ADDRESS.test(recipient) ? recipient.toLowerCase() : recipient;
+}
+
+export function getRecipientRules(allowanceId: string): RecipientRule[] {
+  return db.select().from(recipientRules).where(eq(recipientRules.allowanceId, allowanceId)).all();
+}
+
+/**
+ * Decide whether an allowance may pay a recipient.
+ * `requiresApproval` marks denials the owner can lift by allowlisting the recipient.
+ */
+export function checkRecipient(allowance: Allowance, recipient?: string): { allowed: boolean; reason?: string; requiresApproval?: boolean } {
+  const policy = (allowance.recipientPolicy ?? 'open') as RecipientPolicy;
+
+  if (!recipient) {
+    if (policy === 'open') return { allowed: true };
+    return { allowed: false, reason: 'Recipient is required by this allowance' };
+  }
+
+  const normalized = normalizeRecipient(recipient);
+  const rule = db.select().from(recipientRules)
+    .where(and(eq(recipientRules.allowanceId, allowance.id), eq(recipientRules.recipient, normalized)))
+    .get();
+
+  if (rule?.kind === 'deny') return { allowed: false, reason: `Recipient '${recipient}' is denylisted` };
+  if (rule?.kind === 'allow') return { allowed: true };
+
+  if (policy === 'allowlist') {
+    return { allowed: false, reason: `Recipient '${recipient}' is not on the allowlist` };
+  }
+  if (policy === 'approval') {
+    return { allowed: false, reason: `Recipient '${recipient}' requires owner approval`, requiresApproval: true };
+  }
+  return { allowed: true };
+}
+
+/**
+ * Add, replace or re-classify a recipient on an allowance's lists
+ */
+export async function setRecipientRule(allowanceId: string, recipient: string, kind: RecipientRuleKind): Promise<{ success: boolean; rule?: RecipientRule; error?: string }> {
+  try {
+    const normalized = normalizeRecipient(recipient);
+    const rule = await db.insert(recipientRules)
+      .values({ id: uuidv4(), allowanceId, recipient: normalized, kind, createdAt: Date.now() })
+      .onConflictDoUpdate({ target: [recipientRules.allowanceId, recipientRules.recipient], set: { kind } })
+      .returning()
+      .get();
+
+    return { success: true, rule };
+  } catch (error) {
+    console.error("Set Recipient Rule error:", error);
+    return { success: false, error: 'Database error' };
+  }
+}
+
+/**
+ * Park an unknown recipient for owner review; never downgrades an existing allow/deny entry
+ */
+export async function requestRecipientApproval(allowanceId: string, recipient: string): Promise<void> {
+  await db.insert(recipientRules)
+    .values({ id: uuidv4(), allowanceId, recipient: normalizeRecipient(recipient), kind: 'pending', createdAt: Date.now() })
+    .onConflictDoNothing()
+    .run();
+}
+
+export async function removeRecipientRule(allowanceId: string, recipient: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const result = await db.delete(recipientRules)
+      .where(and(eq(recipientRules.allowanceId, allowanceId), eq(recipientRules.recipient, normalizeRecipient(recipient))))
+      .run();
+
+    if (result.changes === 0) return { success: false, error: 'Recipient rule not found' };
+    return { success: true };
+  } catch (error) {
+    console.error("Remove Recipient Rule error:", error);
+    return { success: false, error: 'Database error' };
+  }
+}
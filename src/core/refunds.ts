@@ -0,0 +1,212 @@
+/**
+ * Refunds: the recipient of a spend gives all or part of it back
+ * Each refund is a transaction of its own, linked to the spend it reverses. The refunded
+ * budget returns to the payer's allowance in the current period, whenever the spend was made.
+ */
+
+import { db } from '../db';
+import { allowances, invoiceEscrows, invoices, transactions } from '../db/schema';
+import { and, desc, eq } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import { Allowance, recountPeriods } from './allowance';
+import { journalRefund } from './journal';
+import { InsufficientFundsError, settleRefund } from './balances';
+import { FEE_ACCOUNT } from './fees';
+import { InvalidTransitionError, transitionInvoice } from './invoiceStates';
+import { DEFAULT_CURRENCY, formatUnits, sumUnits } from './money';
+import { notify } from './webhooks';
+
+export type Transaction = typeof transactions.$inferSelect;
+
+export interface RefundRequest {
+  providerId: string; // must be the spend's recipient
+  amount?: bigint; // defaults to everything not refunded yet
+  reason?: string;
+}
+
+export interface RefundResult {
+  success: boolean;
+  refundId?: string;
+  transactionId?: string;
+  amount?: bigint;
+  refundedAmount?: bigint; // total refunded on the spend so far
+  currency?: string; // of the amounts: the spend's, which differs from the invoice's after FX
+  invoiceStatus?: 'refunded' | 'partially_refunded';
+  error?: string;
+}
+
+// Thrown inside a refund's transaction to roll it back
+class RefundError extends Error {}
+
+/**
+ * Write a refund of `amount` of a spend and hand the budget back to its allowance, inside
+ * the caller's transaction. `settle` moves the money back to the payer from wherever it
+ * sits now.
+ */
+export function recordRefund(
+  spend: Transaction,
+  amount: bigint,
+  feeAmount: bigint,
+  reason: string | undefined,
+  now: number,
+  settle: (allowance: Allowance, refundId: string) => void
+): { refundId: string; refundedAmount: bigint; payerId?: string } {
+  const refundId = uuidv4();
+  db.insert(transactions).values({
+    id: refundId,
+    allowanceId: spend.allowanceId,
+    amount,
+    currency: spend.currency,
+    category: spend.category,
+    recipient: spend.recipient,
+    status: 'success',
+    kind: 'refund',
+    reversesId: spend.id,
+    reason,
+    feeAmount,
+    invoiceId: spend.invoiceId,
+    subscriptionId: spend.subscriptionId,
+    timestamp: now,
+  }).run();
+
+  const refundedAmount = (spend.refundedAmount ?? 0n) + amount;
+  db.update(transactions).set({ refundedAmount }).where(eq(transactions.id, spend.id)).run();
+
+  const allowance = db.select().from(allowances).where(eq(allowances.id, spend.allowanceId)).get();
+  if (allowance) {
+    settle(allowance, refundId);
+    recountPeriods(allowance, now);
+  }
+  return { refundId, refundedAmount, payerId: allowance?.agentId };
+}
+
+/**
+ * The platform fee a spend paid and the amount it was charged on. An escrowed payment pays
+ * its fee at release, on the part that was released to the payee.
+ */
+function chargedFee(spend: Transaction): { fee: bigint; base: bigint } {
+  const escrow = db.select().from(invoiceEscrows).where(eq(invoiceEscrows.transactionId, spend.id)).get();
+  if (escrow) return { fee: escrow.feeAmount ?? 0n, base: escrow.releasedAmount ?? 0n };
+  return { fee: spend.feeAmount ?? 0n, base: spend.amount };
+}
+
+/**
+ * Give `amount` of a settled spend back from its recipient, inside the caller's transaction.
+ * The platform returns the same share of its fee as the payee does of the payment; the
+ * refund that completes it takes whatever rounding left over.
+ */
+export function refundSpend(spend: Transaction, amount: bigint, reason: string | undefined, now: number) {
+  const remaining = spend.amount - (spend.refundedAmount ?? 0n);
+  const { fee, base } = chargedFee(spend);
+  const feeAmount = amount === remaining
+    ? fee - sumUnits(getRefunds(spend.id).map(r => r.feeAmount ?? 0n))
+    : base > 0n ? (fee * amount) / base : 0n;
+
+  return recordRefund(spend, amount, feeAmount, reason, now, (allowance, refundId) => {
+    journalRefund(allowance, amount, spend.recipient, {
+      memo: reason,
+      transactionId: refundId,
+      invoiceId: spend.invoiceId ?? undefined,
+      subscriptionId: spend.subscriptionId ?? undefined,
+    }, now, feeAmount);
+    settleRefund(allowance.agentId, spend.recipient, spend.currency ?? DEFAULT_CURRENCY, amount, refundId, now, { amount: feeAmount, account: FEE_ACCOUNT });
+  });
+}
+
+/**
+ * Refund status of an invoice once its payments are refunded as far as they are now: an
+ * invoice paid in parts is refunded once every one of its payments is
+ */
+export function invoiceRefundStatus(invoiceId: string): 'refunded' | 'partially_refunded' {
+  const payments = db.select().from(transactions)
+    .where(and(eq(transactions.invoiceId, invoiceId), eq(transactions.kind, 'spend'), eq(transactions.status, 'success')))
+    .all();
+  const unrefunded = sumUnits(payments.map(p => p.amount - (p.refundedAmount ?? 0n)));
+  return unrefunded <= 0n ? 'refunded' : 'partially_refunded';
+}
+
+export async function refundTransaction(transactionId: string, request: RefundRequest): Promise<RefundResult> {
+  try {
+    const refund = db.transaction(() => {
+      const now = Date.now();
+      const spend = db.select().from(transactions).where(eq(transactions.id, transactionId)).get();
+
+      if (!spend) throw new RefundError('Transaction not found');
+      if (spend.kind === 'refund') throw new RefundError('A refund cannot be refunded');
+      if (spend.status !== 'success') throw new RefundError('Only successful transactions can be refunded');
+      if (spend.recipient !== request.providerId) throw new RefundError('Only the recipient of a payment can refund it');
+
+      const remaining = spend.amount - (spend.refundedAmount ?? 0n);
+      const amount = request.amount ?? remaining;
+      if (remaining <= 0n) throw new RefundError('Transaction is already fully refunded');
+      if (amount <= 0n) throw new RefundError('Amount must be positive');
+      if (amount > remaining) throw new RefundError('Refund exceeds the amount not refunded yet');
+
+      // A disputed invoice's payments are refunded only through the dispute's resolution
+      const invoice = spend.invoiceId ? db.select().from(invoices).where(eq(invoices.id, spend.invoiceId)).get() : undefined;
+      if (invoice?.status === 'disputed') throw new RefundError('Invoice is disputed');
+
+      const { refundId, refundedAmount, payerId } = refundSpend(spend, amount, request.reason, now);
+
+      let invoiceStatus: RefundResult['invoiceStatus'];
+      if (spend.invoiceId) {
+        invoiceStatus = invoiceRefundStatus(spend.invoiceId);
+        transitionInvoice(spend.invoiceId, invoiceStatus, request.providerId, request.reason, now);
+      }
+
+      return { spend, refundId, amount, refundedAmount, invoiceStatus, payerId };
+    }, { behavior: 'immediate' });
+
+    const { spend, refundId, amount, refundedAmount, invoiceStatus, payerId } = refund;
+    const currency = spend.currency ?? DEFAULT_CURRENCY;
+    const recipients = new Set([payerId, spend.recipient].filter((id): id is string => !!id));
+    for (const agentId of recipients) {
+      void notify.transactionRefunded(agentId, spend.id, refundId, formatUnits(amount, currency), currency, request.reason);
+      if (spend.invoiceId && invoiceStatus) {
+        void notify.invoiceRefunded(agentId, spend.invoiceId, invoiceStatus, formatUnits(amount, currency), currency, formatUnits(refundedAmount, currency));
+      }
+    }
+
+    return { success: true, refundId, transactionId: spend.id, amount, refundedAmount, currency, invoiceStatus };
+  } catch (error) {
+    if (error instanceof RefundError || error instanceof InsufficientFundsError || error instanceof InvalidTransitionError) return { success: false, error: error.message };
+    console.error("Refund error:", error);
+    return { success: false, error: 'Database error' };
+  }
+}
+
+/**
+ * Refund the payment that settled an invoice
+ */
+export async function refundInvoice(invoiceId: string, request: RefundRequest): Promise<RefundResult> {
+  try {
+    const invoice = await db.select().from(invoices).where(eq(invoices.id, invoiceId)).limit(1).get();
+    if (!invoice) return { success: false, error: 'Invoice not found' };
+    if (invoice.issuerId !== request.providerId) return { success: false, error: 'Only the issuer of an invoice can refund it' };
+
+    // The latest payment with something left to refund; an invoice paid in parts has several
+    const payments = await db.select().from(transactions)
+      .where(and(eq(transactions.invoiceId, invoiceId), eq(transactions.kind, 'spend'), eq(transactions.status, 'success')))
+      .orderBy(desc(transactions.timestamp))
+      .all();
+    if (payments.length === 0) return { success: false, error: 'Invoice has no payment to refund' };
+    const payment = payments.find(p => p.amount > (p.refundedAmount ?? 0n)) ?? payments[0];
+
+    // The amount is in the invoice's currency; a converted payment is refunded at the rate it was paid at
+    const { amount } = request;
+    if (amount !== undefined && payment.originalAmount) {
+      return refundTransaction(payment.id, { ...request, amount: (amount * payment.amount) / payment.originalAmount });
+    }
+    return refundTransaction(payment.id, request);
+  } catch (error) {
+    console.error("Refund Invoice error:", error);
+    return { success: false, error: 'Database error' };
+  }
+}
+
+export function getRefunds(transactionId: string): Transaction[] {
+  return db.select().from(transactions)
+    .where(and(eq(transactions.reversesId, transactionId), eq(transactions.kind, 'refund')))
+    .orderBy(desc(transactions.timestamp))
+    .all();
+}
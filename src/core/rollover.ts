@@ -0,0 +1,76 @@
+/**
+ * Unused-budget rollover (the `rollover` flag on the on-chain Allowance struct)
+ * When enabled, what is left of a period's base limit carries into the next period,
+ * capped at a percentage of the limit. Carried funds are spent first and never carry
+ * again; with an expiry set, any carry still unspent that far into the period lapses.
+ */
+
+import type { Allowance } from './allowance';
+import { Period, DEFAULT_TIMEZONE, periodStart } from './periods';
+import { spentBetween } from './usage';
+import { percentOf } from './money';
+
+const BUDGET_FIELDS = {
+  daily: { limit: 'dailyLimit', carry: 'dailyCarryover', anchor: 'dayStartedAt' },
+  weekly: { limit: 'weeklyLimit', carry: 'weeklyCarryover', anchor: 'weekStartedAt' },
+  monthly: { limit: 'monthlyLimit', carry: 'monthlyCarryover', anchor: 'monthStartedAt' },
+} as const satisfies Record<Period, { limit: keyof Allowance; carry: keyof Allowance; anchor: keyof Allowance }>;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function carryExpiry(allowance: Allowance, start: number): number | null {
+  const hours = allowance.rolloverExpiryHours ?? 0;
+  return hours > 0 ? start + hours * HOUR_MS : null;
+}
+
+/**
+ * Carry portion that was (or can still be) used in the period starting at `start`
+ */
+function usableCarry(allowance: Allowance, carried: bigint, start: number, until: number): bigint {
+  if (carried <= 0n) return 0n;
+  const expiresAt = carryExpiry(allowance, start);
+  if (expiresAt === null || until <= expiresAt) return carried;
+  const spent = spentBetween(allowance.id, start, expiresAt);
+  return spent < carried ? spent : carried;
+}
+
+/**
+ * Budget to carry into the period starting at `start`, computed from the row as it was
+ * before the roll. Spend in the previous period only ever happens after that period was
+ * rolled, so a stale anchor older than the previous period means nothing was spent there.
+ */
+export function computeCarryover(allowance: Allowance, period: Period, start: number): bigint {
+  const { limit, carry, anchor } = BUDGET_FIELDS[period];
+  const base = allowance[limit] ?? 0n;
+  if (!allowance.rollover || base <= 0n) return 0n;
+
+  const timezone = allowance.timezone ?? DEFAULT_TIMEZONE;
+  const previousStart = periodStart(period, start - 1, timezone);
+  const previousCarry = allowance[anchor] === previousStart ? allowance[carry] ?? 0n : 0n;
+
+  const spent = spentBetween(allowance.id, previousStart, start);
+  const fromBase = spent - usableCarry(allowance, previousCarry, previousStart, start);
+  const left = fromBase > 0n ? base - fromBase : base;
+  const cap = percentOf(base, Math.min(Math.max(allowance.rolloverCapPercent ?? 100, 0), 100));
+
+  if (left <= 0n) return 0n;
+  return left < cap ? left : cap;
+}
+
+/**
+ * Limit in force for the current period: the base limit plus any usable carry.
+ * A base limit of 0 stays unlimited.
+ */
+export function effectiveLimit(allowance: Allowance, period: Period, now: number = Date.now()): { base: bigint; carried: bigint; effective: bigint; carryExpiresAt: number | null } {
+  const { limit, carry } = BUDGET_FIELDS[period];
+  const base = allowance[limit] ?? 0n;
+  const carried = allowance.rollover && base > 0n ? allowance[carry] ?? 0n : 0n;
+  const start = periodStart(period, now, allowance.timezone ?? DEFAULT_TIMEZONE);
+
+  return {
+    base,
+    carried,
+    effective: base > 0n ? base + usableCarry(allowance, carried, start, now) : 0n,
+    carryExpiresAt: carried > 0n ? carryExpiry(allowance, start) : null,
+  };
+}
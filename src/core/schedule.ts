@@ -0,0 +1,101 @@
+/**
+ * Time-bounded allowances
+ * An allowance can be limited to a campaign window (startsAt/expiresAt) and to certain
+ * hours and weekdays in its timezone. Past its expiry an allowance moves to the terminal
+ * 'expired' status.
+ */
+
+import { db } from '../db';
+import { allowances } from '../db/schema';
+import { and, eq, gt, isNotNull, isNull, lte, ne, or } from 'drizzle-orm';
+import type { Allowance } from './allowance';
+import { DEFAULT_TIMEZONE, zonedParts } from './periods';
+
+export type Weekday = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
+export type ScheduleWindow = 'upcoming' | 'current' | 'expired';
+
+export const SCHEDULE_WINDOWS: ScheduleWindow[] = ['upcoming', 'current', 'expired'];
+
+// Same order as zonedParts().weekday: 0 = Monday
+export const WEEKDAYS: Weekday[] = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+
+export function parseWeekdays(value: string | null | undefined): Weekday[] {
+  if (!value) return [];
+  return value.split(',').filter((d): d is Weekday => WEEKDAYS.includes(d as Weekday));
+}
+
+/**
+ * Move every allowance past its expiry to 'expired'
+ */
+export async function expireAllowances(now: number = Date.now()): Promise<number> {
+  const result = await db.update(allowances)
+    .set({ status: 'expired' })
+    .where(and(isNotNull(allowances.expiresAt), lte(allowances.expiresAt, now), ne(allowances.status, 'expired')))
+    .run();
+  return result.changes;
+}
+
+/**
+ * Mark a single allowance expired if its end has passed
+ */
+export function expireIfDue(allowance: Allowance, now: number = Date.now()): Allowance {
+  if (allowance.status === 'expired' || !allowance.expiresAt || allowance.expiresAt > now) return allowance;
+  db.update(allowances).set({ status: 'expired' }).where(eq(allowances.id, allowance.id)).run();
+  return { ...allowance, status: 'expired' };
+}
+
+export function scheduleWindow(allowance: Allowance, now: number = Date.now()): ScheduleWindow {
+  if (allowance.status === 'expired' || (allowance.expiresAt && allowance.expiresAt <= now)) return 'expired';
+  if (allowance.startsAt && allowance.startsAt > now) return 'upcoming';
+  return 'current';
+}
+
+function formatHour(hour: number): string {
+  return `${String(hour).padStart(2, '0')}:00`;
+}
+
+/**
+ * Returns the denial reason if the allowance cannot be spent at this moment, otherwise undefined
+ */
+export function checkSchedule(allowance: Allowance, now: number = Date.now()): string | undefined {
+  if (allowance.startsAt && allowance.startsAt > now) {
+    return `Allowance starts at ${new Date(allowance.startsAt).toISOString()}`;
+  }
+  if (allowance.expiresAt && allowance.expiresAt <= now) {
+    return 'Allowance has expired';
+  }
+
+  const timezone = allowance.timezone ?? DEFAULT_TIMEZONE;
+  const local = zonedParts(now, timezone);
+
+  const weekdays = parseWeekdays(allowance.activeWeekdays);
+  if (weekdays.length > 0 && !weekdays.includes(WEEKDAYS[local.weekday])) {
+    return `Spending is not allowed on ${WEEKDAYS[local.weekday]} (${timezone})`;
+  }
+
+  const { activeHoursStart: start, activeHoursEnd: end } = allowance;
+  if (start != null && end != null && start !== end) {
+    // A window such as 22 -> 6 runs overnight
+    const inWindow = start < end
+      ? local.hour >= start && local.hour < end
+      : local.hour >= start || local.hour < end;
+    if (!inWindow) {
+      return `Spending is only allowed between ${formatHour(start)} and ${formatHour(end)} (${timezone})`;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * SQL filter selecting allowances in the given schedule window
+ */
+export function scheduleWindowFilter(window: ScheduleWindow, now: number = Date.now()) {
+  if (window === 'expired') return eq(allowances.status, 'expired');
+  if (window === 'upcoming') return and(ne(allowances.status, 'expired'), gt(allowances.startsAt, now));
+  return and(
+    ne(allowances.status, 'expired'),
+    or(isNull(allowances.startsAt), lte(allowances.startsAt, now)),
+    or(isNull(allowances.expiresAt), gt(allowances.expiresAt, now)),
+  );
+}
@@ -0,0 +1,65 @@
+/**
+ * Choosing which allowance pays when an agent holds several (one per owner, per project, ...)
+ * Candidates are the agent's allowances in the spend's currency, ranked: allowances with a rule
+ * for the spend's category first, then the agent's default, then by priority (highest first)
+ * and age (oldest first).
+ * checkSpend falls through the ranking until one of them has headroom.
+ */
+
+import { db } from '../db';
+import { allowances, categoryLimits } from '../db/schema';
+import { and, eq, inArray } from 'drizzle-orm';
+import type { Allowance } from './allowance';
+
+export type SelectionReason = 'explicit' | 'category_match' | 'default' | 'priority';
+
+export interface AllowanceSelection {
+  reason: SelectionReason; // why the charged allowance was tried
+  skipped: { allowanceId: string; reason: string }[]; // higher-ranked allowances that could not take the spend
+}
+
+export interface RankedAllowance {
+  allowance: Allowance;
+  reason: SelectionReason;
+}
+
+export function rankAllowances(agentId: string, category?: string, currency?: string): RankedAllowance[] {
+  const candidates = db.select().from(allowances)
+    .where(and(eq(allowances.agentId, agentId), currency ? eq(allowances.currency, currency) : undefined))
+    .all();
+  if (candidates.length === 0) return [];
+
+  const matched = new Set(
+    category
+      ? db.select({ allowanceId: categoryLimits.allowanceId }).from(categoryLimits)
+          .where(and(
+            inArray(categoryLimits.allowanceId, candidates.map(a => a.id)),
+            eq(categoryLimits.category, category),
+            eq(categoryLimits.blocked, false),
+          ))
+          .all()
+          .map(r => r.allowanceId)
+      : []
+  );
+
+  const ranked: RankedAllowance[] = candidates.map(allowance => ({
+    allowance,
+    reason: matched.has(allowance.id) ? 'category_match' : allowance.isDefault ? 'default' : 'priority',
+  }));
+
+  const rank = { explicit: 0, category_match: 0, default: 1, priority: 2 } as const satisfies Record<SelectionReason, number>;
+  return ranked.sort((a, b) =>
+    rank[a.reason] - rank[b.reason]
+    || Number(b.allowance.isDefault ?? false) - Number(a.allowance.isDefault ?? false)
+    || (b.allowance.priority ?? 0) - (a.allowance.priority ?? 0)
+    || (a.allowance.createdAt ?? 0) - (b.allowance.createdAt ?? 0)
+  );
+}
+
+/**
+ * Make one allowance the agent's default, clearing the flag on its others
+ */
+export function setDefaultAllowance(agentId: string, allowanceId: string): void {
+  db.update(allowances).set({ isDefault: false }).where(eq(allowances.agentId, agentId)).run();
+  db.update(allowances).set({ isDefault: true }).where(eq(allowances.id, allowanceId)).run();
+}
@@ -0,0 +1,105 @@
+/**
+ * Dry-run spends: "would this pass?" without recording, pausing or counting anything
+ * A batch is evaluated in order as if every earlier spend that passes had gone through.
+ */
+
+import { Allowance, PendingCharge, SpendFailure, getAgentAllowance, projectPeriods, spendFailures } from './allowance';
+import { AllowanceSelection, RankedAllowance, rankAllowances } from './selection';
+import { Period, PERIODS } from './periods';
+import { effectiveLimit } from './rollover';
+import { heldAmount } from './usage';
+import { DEFAULT_CURRENCY, sumUnits } from './money';
+
+export interface PlannedSpend {
+  amount: bigint;
+  category: string;
+  recipient?: string;
+  allowanceId?: string;
+}
+
+export interface SimulatedSpend extends PlannedSpend {
+  allowed: boolean;
+  allowanceId?: string;
+  requiresApproval?: 'recipient' | 'threshold';
+  failures: SpendFailure[];
+  headroom: Record<Period, bigint | null> | null; // left in each period after this spend; null = unlimited
+  selection?: AllowanceSelection;
+}
+
+const SPENT_FIELDS = {
+  daily: 'spentToday',
+  weekly: 'spentThisWeek',
+  monthly: 'spentThisMonth',
+} as const satisfies Record<Period, keyof Allowance>;
+
+function headroomAfter(allowance: Allowance, amount: bigint, pending: PendingCharge[], now: number): Record<Period, bigint | null> {
+  const committed = heldAmount(allowance.id, now)
+    + sumUnits(pending.filter(p => p.allowanceId === allowance.id).map(p => p.amount));
+
+  return Object.fromEntries(PERIODS.map(period => {
+    const limit = effectiveLimit(allowance, period, now).effective;
+    if (limit <= 0n) return [period, null];
+    return [period, limit - (allowance[SPENT_FIELDS[period]] ?? 0n) - committed - amount];
+  })) as Record<Period, bigint | null>;
+}
+
+/**
+ * Mirror checkSpend's selection: the first candidate with no failures, else the first that
+ * only needs owner approval, else the top-ranked candidate
+ */
+function simulateOne(candidates: RankedAllowance[], spend: PlannedSpend, currency: string, pending: PendingCharge[], now: number): SimulatedSpend {
+  const skipped: AllowanceSelection['skipped'] = [];
+  let firstDenied: SimulatedSpend | undefined;
+  let firstPendingApproval: SimulatedSpend | undefined;
+
+  for (const { allowance, reason } of candidates) {
+    const failures = spendFailures(allowance, spend.amount, spend.category, spend.recipient, { currency }, now, pending);
+    const result: SimulatedSpend = {
+      ...spend,
+      allowed: failures.length === 0,
+      allowanceId: allowance.id,
+      requiresApproval: failures.length > 0 && failures.every(f => f.requiresApproval) ? failures[0].requiresApproval : undefined,
+      failures,
+      headroom: headroomAfter(allowance, spend.amount, pending, now),
+      selection: { reason, skipped: [...skipped] },
+    };
+
+    if (result.allowed) return result;
+    if (result.requiresApproval) firstPendingApproval ??= result;
+    firstDenied ??= result;
+    skipped.push({ allowanceId: allowance.id, reason: failures[0].reason });
+  }
+
+  if (firstPendingApproval) return firstPendingApproval;
+  if (firstDenied) return { ...firstDenied, selection: { reason: firstDenied.selection!.reason, skipped } };
+  return { ...spend, allowed: false, failures: [{ rule: 'status', reason: 'Allowance not found' }], headroom: null };
+}
+
+export async function simulateSpends(
+  agentId: string,
+  spends: PlannedSpend[],
+  currency: string = DEFAULT_CURRENCY,
+  now: number = Date.now()
+): Promise<{ allowed: boolean; results: SimulatedSpend[] }> {
+  const pending: PendingCharge[] = [];
+  const results: SimulatedSpend[] = [];
+
+  for (const spend of spends) {
+    let candidates: RankedAllowance[];
+    if (spend.allowanceId) {
+      const allowance = getAgentAllowance(agentId, spend.allowanceId);
+      candidates = allowance ? [{ allowance, reason: 'explicit' }] : [];
+    } else {
+      candidates = rankAllowances(agentId, spend.category, currency);
+    }
+    candidates = candidates.map(c => ({ ...c, allowance: projectPeriods(c.allowance, now) }));
+
+    const result = simulateOne(candidates, spend, currency, pending, now);
+    if (result.allowed && result.allowanceId) {
+      pending.push({ allowanceId: result.allowanceId, amount: spend.amount, category: spend.category });
+    }
+    results.push(result);
+  }
+
+  return { allowed: results.every(r => r.allowed), results };
+}
@@ -4,8 +4,17 @@ import { eq, lte, sql } from 'drizzle-orm';
 import { v4 as uuidv4 } from 'uuid';
 import { createInvoice, sendInvoice, payInvoice } from './ledger';
 import { checkSpend, deductSpend } from './allowance';
-
-export async function createSubscription(subscriberId: string, providerId: string, planId: string, amount: number, interval: string, allowanceId: string): Promise<{ success: boolean; subscriptionId?: string; error?: string }> {
+import { DEFAULT_CURRENCY } from './money';
+
+export async function createSubscription(
+  subscriberId: string,
+  providerId: string,
+  planId: string,
+  amount: bigint,
+  interval: string,
+  allowanceId: string,
+  currency: string = DEFAULT_CURRENCY
+): Promise<{ success: boolean; subscriptionId?: string; error?: string }> {
   try {
     const subId = uuidv4();
     await db.insert(subscriptions).values({
@@ -14,6 +23,7 @@ export async function createSubscription(subscriberId: string, providerId: strin
       providerId: providerId,
       planId: planId,
       amount: amount,
+      currency: currency,
       interval: interval,
       nextBillingDate: Date.now(), // First billing immediately
       status: 'active',
@@ -28,7 +38,7 @@ export async function createSubscription(subscriberId: string, providerId: strin
   }
 }
 
-export async function processBilling(subscriptionId: string): Promise<{ success: boolean; transactionId?: string; error?: string }> {
+export async function processBilling(subscriptionId: string): Promise<{ success: boolean; transactionId?: string; approvalId?: string; error?: string }> {
   try {
     const sub = await db.select().from(subscriptions).where(eq(subscriptions.id, subscriptionId)).limit(1).get();
 
@@ -36,7 +46,7 @@ export async function processBilling(subscriptionId: string): Promise<{ success:
     if (sub.status !== 'active') return { success: false, error: 'Subscription is not active' };
 
     // Create Invoice (Draft)
-    const invoiceResult = await createInvoice(sub.providerId, sub.subscriberId, sub.amount, Date.now());
+    const invoiceResult = await createInvoice(sub.providerId, sub.subscriberId, sub.amount, Date.now(), sub.currency ?? DEFAULT_CURRENCY);
     if (!invoiceResult.success) return { success: false, error: 'Failed to create invoice' };
 
     const invoiceId = invoiceResult.invoiceId!;
@@ -46,11 +56,12 @@ export async function processBilling(subscriptionId: string): Promise<{ success:
     if (!sendResult.success) return { success: false, error: 'Failed to send invoice' };
 
     // Pay Invoice
-    const paymentResult = await payInvoice(invoiceId, sub.subscriberId, sub.allowanceId);
+    const paymentResult = await payInvoice(invoiceId, sub.subscriberId, sub.allowanceId, { subscriptionId: sub.id });
     
     // If payment fails, we might want to pause subscription or retry later.
     // For now, we return failure but keep the invoice as Sent (unpaid).
-    if (!paymentResult.success) {
+    // A payment queued for owner approval counts as billed: the approval settles the invoice.
+    if (!paymentResult.success && !paymentResult.approvalId) {
       // Logic to handle failure (e.g., mark sub as past_due) could go here
       return { success: false, error: paymentResult.error || 'Payment failed' };
     }
@@ -66,7 +77,7 @@ export async function processBilling(subscriptionId: string): Promise<{ success:
       .where(eq(subscriptions.id, subscriptionId))
       .run();
 
-    return { success: true, transactionId: paymentResult.transactionId };
+    return { success: true, transactionId: paymentResult.transactionId, approvalId: paymentResult.approvalId };
 
   } catch (error) {
     console.error("Process Billing error:", error);
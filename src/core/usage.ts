@@ -0,0 +1,112 @@
+/**
+ * Spend aggregation over the transactions and holds tables
+ * Counters on allowances are caches; these queries are the source of truth.
+ * Amounts are summed here rather than in SQL, where sum() over text would go through floats.
+ * Refunds are recorded as transactions of their own and count against the spend.
+ */
+
+import { db } from '../db';
+import { spendHolds, transactions } from '../db/schema';
+import { and, eq, gt, gte, inArray, lt } from 'drizzle-orm';
+import { sumUnits } from './money';
+
+/**
+ * Spends minus refunds, never below zero: a refund of an earlier period's spend can free
+ * at most what was spent in the current one
+ */
+function netSpend(rows: { amount: bigint; kind: string | null }[]): bigint {
+  const net = sumUnits(rows.map(r => r.kind === 'refund' ? -r.amount : r.amount));
+  return net > 0n ? net : 0n;
+}
+
+/**
+ * Net successful spend recorded against an allowance since a point in time,
+ * optionally narrowed to one category
+ */
+export function spentSince(allowanceId: string, since: number, category?: string): bigint {
+  const rows = db.select({ amount: transactions.amount, kind: transactions.kind })
+    .from(transactions)
+    .where(and(
+      eq(transactions.allowanceId, allowanceId),
+      eq(transactions.status, 'success'),
+      gte(transactions.timestamp, since),
+      category !== undefined ? eq(transactions.category, category) : undefined,
+    ))
+    .all();
+  return netSpend(rows);
+}
+
+/**
+ * Net successful spend recorded against an allowance in [from, to)
+ */
+export function spentBetween(allowanceId: string, from: number, to: number): bigint {
+  const rows = db.select({ amount: transactions.amount, kind: transactions.kind })
+    .from(transactions)
+    .where(and(
+      eq(transactions.allowanceId, allowanceId),
+      eq(transactions.status, 'success'),
+      gte(transactions.timestamp, from),
+      lt(transactions.timestamp, to),
+    ))
+    .all();
+  return netSpend(rows);
+}
+
+/**
+ * Budget reserved by open authorization holds, optionally narrowed to one category.
+ * Holds past their expiry no longer count, even before they are swept.
+ */
+export function heldAmount(allowanceId: string, now: number = Date.now(), category?: string): bigint {
+  const rows = db.select({ amount: spendHolds.amount })
+    .from(spendHolds)
+    .where(and(
+      eq(spendHolds.allowanceId, allowanceId),
+      eq(spendHolds.status, 'active'),
+      gt(spendHolds.expiresAt, now),
+      category !== undefined ? eq(spendHolds.category, category) : undefined,
+    ))
+    .all();
+  return sumUnits(rows.map(r => r.amount));
+}
+
+/**
+ * Funds an agent's open holds in one currency keep out of its prepaid balance
+ */
+export function heldForAgent(agentId: string, currency: string, now: number = Date.now()): bigint {
+  const rows = db.select({ amount: spendHolds.amount })
+    .from(spendHolds)
+    .where(and(
+      eq(spendHolds.agentId, agentId),
+      eq(spendHolds.currency, currency),
+      eq(spendHolds.status, 'active'),
+      gt(spendHolds.expiresAt, now),
+    ))
+    .all();
+  return sumUnits(rows.map(r => r.amount));
+}
+
+/**
+ * Net successful spend plus open holds across a set of allowances since a point in time
+ */
+export function committedAcross(allowanceIds: string[], since: number, now: number = Date.now()): { spent: bigint; held: bigint } {
+  if (allowanceIds.length === 0) return { spent: 0n, held: 0n };
+
+  const spent = db.select({ amount: transactions.amount, kind: transactions.kind })
+    .from(transactions)
+    .where(and(
+      inArray(transactions.allowanceId, allowanceIds),
+      eq(transactions.status, 'success'),
+      gte(transactions.timestamp, since),
+    ))
+    .all();
+  const held = db.select({ amount: spendHolds.amount })
+    .from(spendHolds)
+    .where(and(
+      inArray(spendHolds.allowanceId, allowanceIds),
+      eq(spendHolds.status, 'active'),
+      gt(spendHolds.expiresAt, now),
+    ))
+    .all();
+
+  return { spent: netSpend(spent), held: sumUnits(held.map(r => r.amount)) };
+}
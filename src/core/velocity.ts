@@ -0,0 +1,173 @@
+/**
+ * Velocity and anomaly rules that catch a runaway agent before its period limits do
+ * Breaking a rate, size or anomaly rule pauses the allowance until the owner resumes it.
+ * Repeated denied spends put the allowance on a timed cooldown instead.
+ */
+
+import { db } from '../db';
+import { allowances, transactions, velocityViolations } from '../db/schema';
+import { and, desc, eq, gte, sql } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import type { Allowance } from './allowance';
+import { notify } from './webhooks';
+import { DEFAULT_CURRENCY, formatUnits } from './money';
+
+export type VelocityRule = 'max_tx_per_minute' | 'max_tx_per_hour' | 'max_single_amount' | 'anomaly' | 'denial_cooldown';
+export type VelocityViolation = typeof velocityViolations.$inferSelect;
+
+// Transactions the median is taken over, and how many are needed before anomalies are judged
+const ANOMALY_SAMPLE_SIZE = 50;
+const ANOMALY_MIN_HISTORY = 5;
+
+function transactionsSince(allowanceId: string, since: number, status: 'success' | 'failed'): number {
+  const row = db.select({ count: sql<number>`count(*)` })
+    .from(transactions)
+    .where(and(
+      eq(transactions.allowanceId, allowanceId),
+      eq(transactions.kind, 'spend'),
+      eq(transactions.status, status),
+      gte(transactions.timestamp, since),
+    ))
+    .get();
+  return row?.count ?? 0;
+}
+
+/**
+ * Median of the allowance's recent successful spends, or undefined without enough history.
+ * Anomalies are a judgement call, so this is the one place amounts are compared as floats.
+ */
+export function medianSpend(allowanceId: string): number | undefined {
+  const amounts = db.select({ amount: transactions.amount })
+    .from(transactions)
+    .where(and(eq(transactions.allowanceId, allowanceId), eq(transactions.kind, 'spend'), eq(transactions.status, 'success')))
+    .orderBy(desc(transactions.timestamp))
+    .limit(ANOMALY_SAMPLE_SIZE)
+    .all()
+    .map(t => Number(t.amount))
+    .sort((a, b) => a - b);
+
+  if (amounts.length < ANOMALY_MIN_HISTORY) return undefined;
+  const mid = Math.floor(amounts.length / 2);
+  return amounts.length % 2 === 1 ? amounts[mid] : (amounts[mid - 1] + amounts[mid]) / 2;
+}
+
+function recordViolation(allowance: Allowance, rule: VelocityRule, action: 'paused' | 'cooldown', amount: bigint, detail: string, now: number): void {
+  db.insert(velocityViolations).values({
+    id: uuidv4(),
+    allowanceId: allowance.id,
+    agentId: allowance.agentId,
+    rule,
+    action,
+    amount,
+    detail,
+    createdAt: now,
+  }).run();
+}
+
+/**
+ * Pause the allowance for a broken velocity rule, returning the denial reason
+ */
+export function tripVelocityRule(allowance: Allowance, rule: VelocityRule, amount: bigint, detail: string, now: number = Date.now()): string {
+  db.update(allowances).set({ status: 'paused' }).where(eq(allowances.id, allowance.id)).run();
+  recordViolation(allowance, rule, 'paused', amount, detail, now);
+
+  for (const recipientId of new Set([allowance.agentId, allowance.ownerId])) {
+    void notify.allowancePaused(recipientId, allowance.id, rule, detail);
+  }
+  return `Allowance paused: ${detail}`;
+}
+
+/**
+ * Returns the denial reason while a denial cooldown is running, otherwise undefined
+ */
+export function checkCooldown(allowance: Allowance, now: number = Date.now()): string | undefined {
+  if (allowance.cooldownUntil && allowance.cooldownUntil > now) {
+    return `Allowance is cooling down after repeated denials until ${new Date(allowance.cooldownUntil).toISOString()}`;
+  }
+  return undefined;
+}
+
+/**
+ * Every velocity rule the spend would break. Read-only; `pendingCount` adds spends that
+ * are planned but not yet recorded (e.g. earlier entries of a simulated batch).
+ */
+export function velocityBreaches(
+  allowance: Allowance,
+  amount: bigint,
+  now: number = Date.now(),
+  pendingCount: number = 0
+): { rule: VelocityRule; detail: string }[] {
+  const breaches: { rule: VelocityRule; detail: string }[] = [];
+
+  const currency = allowance.currency ?? DEFAULT_CURRENCY;
+  const maxSingleAmount = allowance.maxSingleAmount ?? 0n;
+  if (maxSingleAmount > 0n && amount > maxSingleAmount) {
+    breaches.push({
+      rule: 'max_single_amount',
+      detail: `amount ${formatUnits(amount, currency)} exceeds the single-transaction maximum of ${formatUnits(maxSingleAmount, currency)}`,
+    });
+  }
+
+  const maxPerMinute = allowance.maxTxPerMinute ?? 0;
+  if (maxPerMinute > 0 && transactionsSince(allowance.id, now - 60_000, 'success') + pendingCount + 1 > maxPerMinute) {
+    breaches.push({ rule: 'max_tx_per_minute', detail: `more than ${maxPerMinute} transactions in a minute` });
+  }
+
+  const maxPerHour = allowance.maxTxPerHour ?? 0;
+  if (maxPerHour > 0 && transactionsSince(allowance.id, now - 3_600_000, 'success') + pendingCount + 1 > maxPerHour) {
+    breaches.push({ rule: 'max_tx_per_hour', detail: `more than ${maxPerHour} transactions in an hour` });
+  }
+
+  const multiplier = allowance.anomalyMultiplier ?? 0;
+  if (multiplier > 0) {
+    const median = medianSpend(allowance.id);
+    if (median !== undefined && Number(amount) > median * multiplier) {
+      breaches.push({
+        rule: 'anomaly',
+        detail: `amount ${formatUnits(amount, currency)} is more than ${multiplier}x the median spend of ${formatUnits(BigInt(Math.round(median)), currency)}`,
+      });
+    }
+  }
+
+  return breaches;
+}
+
+/**
+ * Log a denied spend as a failed transaction, starting a cooldown once too many pile up
+ */
+export function recordDenial(allowance: Allowance, amount: bigint, category: string, recipient: string | undefined, now: number = Date.now()): void {
+  db.insert(transactions).values({
+    id: uuidv4(),
+    allowanceId: allowance.id,
+    amount,
+    currency: allowance.currency ?? DEFAULT_CURRENCY,
+    category,
+    recipient: recipient ?? '',
+    status: 'failed',
+    timestamp: now,
+  }).run();
+
+  const threshold = allowance.cooldownAfterDenials ?? 0;
+  if (threshold <= 0) return;
+
+  // Denials from before the last cooldown ended have already been punished
+  const cooldownMs = (allowance.cooldownMinutes ?? 15) * 60_000;
+  const since = Math.max(now - cooldownMs, allowance.cooldownUntil ?? 0);
+  const denials = transactionsSince(allowance.id, since, 'failed');
+  if (denials < threshold) return;
+
+  const until = now + cooldownMs;
+  db.update(allowances).set({ cooldownUntil: until }).where(eq(allowances.id, allowance.id)).run();
+  recordViolation(allowance, 'denial_cooldown', 'cooldown', amount, `${denials} denied spends within ${allowance.cooldownMinutes ?? 15} minutes`, now);
+
+  for (const recipientId of new Set([allowance.agentId, allowance.ownerId])) {
+    void notify.allowanceCooldown(recipientId, allowance.id, until, denials);
+  }
+}
+
+export function getViolations(allowanceId: string): VelocityViolation[] {
+  return db.select().from(velocityViolations)
+    .where(eq(velocityViolations.allowanceId, allowanceId))
+    .orderBy(desc(velocityViolations.createdAt))
+    .all();
+}
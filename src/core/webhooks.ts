@@ -7,12 +7,32 @@ export type WebhookEvent =
   | 'invoice.created'
   | 'invoice.sent'
   | 'invoice.paid'
+  | 'invoice.partially_paid'
+  | 'invoice.installment_paid'
+  | 'invoice.installment_failed'
+  | 'invoice.escrowed'
+  | 'invoice.escrow_released'
+  | 'invoice.disputed'
+  | 'invoice.dispute_resolved'
   | 'invoice.overdue'
+  | 'invoice.refunded'
+  | 'invoice.partially_refunded'
+  | 'invoice.cancelled'
+  | 'invoice.voided'
+  | 'invoice.expired'
+  | 'transaction.refunded'
   | 'subscription.created'
   | 'subscription.billed'
   | 'subscription.failed'
   | 'allowance.limit_warning'
-  | 'allowance.exhausted';
+  | 'allowance.exhausted'
+  | 'allowance.paused'
+  | 'allowance.cooldown'
+  | 'approval.requested'
+  | 'approval.approved'
+  | 'approval.rejected'
+  | 'approval.executed'
+  | 'approval.failed';
 
 export interface WebhookPayload {
   event: WebhookEvent;
@@ -141,24 +161,75 @@ async function sendWebhook(
  * Convenience functions for common events
  */
 export const notify = {
-  invoiceCreated: (agentId: string, invoiceId: string, amount: number, issuerId: string) =>
-    notifyAgent(agentId, 'invoice.created', { invoiceId, amount, issuerId }),
+  invoiceCreated: (agentId: string, invoiceId: string, amount: string, currency: string, issuerId: string) =>
+    notifyAgent(agentId, 'invoice.created', { invoiceId, amount, currency, issuerId }),
 
-  invoiceSent: (agentId: string, invoiceId: string, amount: number, dueAt?: number) =>
-    notifyAgent(agentId, 'invoice.sent', { invoiceId, amount, dueAt }),
+  invoiceSent: (agentId: string, invoiceId: string, amount: string, currency: string, dueAt?: number) =>
+    notifyAgent(agentId, 'invoice.sent', { invoiceId, amount, currency, dueAt }),
 
-  invoicePaid: (agentId: string, invoiceId: string, amount: number, transactionId: string) =>
-    notifyAgent(agentId, 'invoice.paid', { invoiceId, amount, transactionId }),
+  invoicePaid: (agentId: string, invoiceId: string, amount: string, currency: string, transactionId: string) =>
+    notifyAgent(agentId, 'invoice.paid', { invoiceId, amount, currency, transactionId }),
 
-  subscriptionBilled: (agentId: string, subscriptionId: string, amount: number, nextBillingDate: number) =>
-    notifyAgent(agentId, 'subscription.billed', { subscriptionId, amount, nextBillingDate }),
+  invoicePartiallyPaid: (agentId: string, invoiceId: string, amount: string, currency: string, paidAmount: string, outstanding: string, transactionId: string) =>
+    notifyAgent(agentId, 'invoice.partially_paid', { invoiceId, amount, currency, paidAmount, outstanding, transactionId }),
+
+  installmentPaid: (agentId: string, invoiceId: string, installmentId: string, sequence: number, amount: string, currency: string, transactionId: string) =>
+    notifyAgent(agentId, 'invoice.installment_paid', { invoiceId, installmentId, sequence, amount, currency, transactionId }),
+
+  installmentFailed: (agentId: string, invoiceId: string, installmentId: string, sequence: number, amount: string, currency: string, reason: string) =>
+    notifyAgent(agentId, 'invoice.installment_failed', { invoiceId, installmentId, sequence, amount, currency, reason }),
+
+  invoiceEscrowed: (agentId: string, invoiceId: string, amount: string, currency: string, autoReleaseAt: number, transactionId: string) =>
+    notifyAgent(agentId, 'invoice.escrowed', { invoiceId, amount, currency, autoReleaseAt, transactionId }),
+
+  escrowReleased: (agentId: string, invoiceId: string, amount: string, currency: string, actor: string, transactionId: string) =>
+    notifyAgent(agentId, 'invoice.escrow_released', { invoiceId, amount, currency, actor, transactionId }),
+
+  invoiceDisputed: (agentId: string, invoiceId: string, disputeId: string, actor: string, reason: string, validators: string[]) =>
+    notifyAgent(agentId, 'invoice.disputed', { invoiceId, disputeId, actor, reason, validators }),
+
+  disputeResolved: (agentId: string, invoiceId: string, disputeId: string, outcome: string, payerShare: number | undefined, status: string) =>
+    notifyAgent(agentId, 'invoice.dispute_resolved', { invoiceId, disputeId, outcome, payerShare, status }),
+
+  invoiceRefunded: (agentId: string, invoiceId: string, status: 'refunded' | 'partially_refunded', amount: string, currency: string, refundedAmount: string) =>
+    notifyAgent(agentId, status === 'refunded' ? 'invoice.refunded' : 'invoice.partially_refunded', { invoiceId, amount, currency, refundedAmount }),
+
+  invoiceClosed: (agentId: string, invoiceId: string, status: 'cancelled' | 'void' | 'expired', actor: string, reason?: string) =>
+    notifyAgent(agentId, status === 'void' ? 'invoice.voided' : `invoice.${status}`, { invoiceId, actor, reason }),
+
+  transactionRefunded: (agentId: string, transactionId: string, refundId: string, amount: string, currency: string, reason?: string) =>
+    notifyAgent(agentId, 'transaction.refunded', { transactionId, refundId, amount, currency, reason }),
+
+  subscriptionBilled: (agentId: string, subscriptionId: string, amount: string, currency: string, nextBillingDate: number) =>
+    notifyAgent(agentId, 'subscription.billed', { subscriptionId, amount, currency, nextBillingDate }),
 
   subscriptionFailed: (agentId: string, subscriptionId: string, reason: string) =>
     notifyAgent(agentId, 'subscription.failed', { subscriptionId, reason }),
 
-  limitWarning: (agentId: string, allowanceId: string, limitType: string, percentUsed: number) =>
-    notifyAgent(agentId, 'allowance.limit_warning', { allowanceId, limitType, percentUsed }),
+  limitWarning: (agentId: string, allowanceId: string, limitType: string, percentUsed: number, threshold: number) =>
+    notifyAgent(agentId, 'allowance.limit_warning', { allowanceId, limitType, percentUsed, threshold }),
 
   allowanceExhausted: (agentId: string, allowanceId: string, limitType: string) =>
     notifyAgent(agentId, 'allowance.exhausted', { allowanceId, limitType }),
+
+  allowancePaused: (agentId: string, allowanceId: string, rule: string, detail: string) =>
+    notifyAgent(agentId, 'allowance.paused', { allowanceId, rule, detail }),
+
+  allowanceCooldown: (agentId: string, allowanceId: string, until: number, denials: number) =>
+    notifyAgent(agentId, 'allowance.cooldown', { allowanceId, until, denials }),
+
+  approvalRequested: (agentId: string, approvalId: string, amount: string, currency: string, reason: string) =>
+    notifyAgent(agentId, 'approval.requested', { approvalId, amount, currency, reason }),
+
+  approvalApproved: (agentId: string, approvalId: string, approvals: number) =>
+    notifyAgent(agentId, 'approval.approved', { approvalId, approvals }),
+
+  approvalRejected: (agentId: string, approvalId: string, approverId: string) =>
+    notifyAgent(agentId, 'approval.rejected', { approvalId, approverId }),
+
+  approvalExecuted: (agentId: string, approvalId: string, transactionId?: string, holdId?: string) =>
+    notifyAgent(agentId, 'approval.executed', { approvalId, transactionId, holdId }),
+
+  approvalFailed: (agentId: string, approvalId: string, reason: string) =>
+    notifyAgent(agentId, 'approval.failed', { approvalId, reason }),
 };
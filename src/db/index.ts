@@ -1,6 +1,7 @@
 import { drizzle } from 'drizzle-orm/better-sqlite3';
 import Database from 'better-sqlite3';
-import { allowances, invoices, subscriptions, transactions } from './schema';
+import * as schema from './schema';
 
-const sqlite = new Database('./sqlite.db');
-export const db = drizzle(sqlite, { schema: { allowances, invoices, subscriptions, transactions } });
+// DATABASE_PATH points the tests at a scratch file
+const sqlite = new Database(process.env.DATABASE_PATH ?? './sqlite.db');
+export const db = drizzle(sqlite, { schema });
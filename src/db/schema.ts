@@ -1,36 +1,250 @@
-import { sqliteTable, text, integer, real } from 'drizzle-orm/sqlite-core';
+import { sqliteTable, text, integer, real, uniqueIndex, index, customType } from 'drizzle-orm/sqlite-core';
+import { sql } from 'drizzle-orm';
+
+// Money as an integer count of the currency's smallest unit (see core/money.ts).
+// Stored as decimal text: 18-decimal token amounts overflow SQLite's 64-bit integers.
+const units = customType<{ data: bigint; driverData: string }>({
+  dataType: () => 'text',
+  toDriver: (value) => value.toString(),
+  fromDriver: (value) => BigInt(value),
+});
+
+const ZERO = sql`'0'`;
 
 export const allowances = sqliteTable('allowances', {
   id: text('id').primaryKey(),
   agentId: text('agent_id').notNull(),
   ownerId: text('owner_id').notNull(),
-  dailyLimit: real('daily_limit').default(0),
-  weeklyLimit: real('weekly_limit').default(0),
-  monthlyLimit: real('monthly_limit').default(0),
-  spentToday: real('spent_today').default(0),
-  spentThisWeek: real('spent_this_week').default(0),
-  spentThisMonth: real('spent_this_month').default(0),
-  status: text('status').default('active'), // active, paused, exhausted
+  dailyLimit: units('daily_limit').default(ZERO),
+  weeklyLimit: units('weekly_limit').default(ZERO),
+  monthlyLimit: units('monthly_limit').default(ZERO),
+  spentToday: units('spent_today').default(ZERO),
+  spentThisWeek: units('spent_this_week').default(ZERO),
+  spentThisMonth: units('spent_this_month').default(ZERO),
+  currency: text('currency').default('USDC'), // every amount on the allowance is in this currency's base units
+  status: text('status').default('active'), // active, paused, exhausted, expired (terminal)
+  timezone: text('timezone').default('UTC'), // IANA zone the day/week/month windows follow
+  dayStartedAt: integer('day_started_at'), // period anchors: start of the window each counter covers
+  weekStartedAt: integer('week_started_at'),
+  monthStartedAt: integer('month_started_at'),
+  recipientPolicy: text('recipient_policy').default('open'), // open, allowlist, approval
+  approvalThreshold: units('approval_threshold').default(ZERO), // spends above this need approval; 0 = never
+  approvalsRequired: integer('approvals_required').default(1), // M of the N designated approvers
+  rollover: integer('rollover', { mode: 'boolean' }).default(false), // carry unspent budget into the next period
+  rolloverCapPercent: integer('rollover_cap_percent').default(100), // max carry as % of the period limit
+  rolloverExpiryHours: integer('rollover_expiry_hours').default(0), // carried funds lapse this long into the period; 0 = end of period
+  dailyCarryover: units('daily_carryover').default(ZERO), // carried into the current period
+  weeklyCarryover: units('weekly_carryover').default(ZERO),
+  monthlyCarryover: units('monthly_carryover').default(ZERO),
+  poolId: text('pool_id'), // shared budget pool this allowance draws from
+  isDefault: integer('is_default', { mode: 'boolean' }).default(false), // preferred allowance when the agent has several
+  priority: integer('priority').default(0), // higher is tried first among non-default allowances
+  maxTxPerMinute: integer('max_tx_per_minute').default(0), // velocity rules; 0 = off
+  maxTxPerHour: integer('max_tx_per_hour').default(0),
+  maxSingleAmount: units('max_single_amount').default(ZERO),
+  anomalyMultiplier: real('anomaly_multiplier').default(0), // pause on a spend above N x the median spend; 0 = off
+  cooldownAfterDenials: integer('cooldown_after_denials').default(0), // denied spends that trigger a cooldown; 0 = off
+  cooldownMinutes: integer('cooldown_minutes').default(15),
+  cooldownUntil: integer('cooldown_until'),
+  startsAt: integer('starts_at'), // campaign window; no spending before/after
+  expiresAt: integer('expires_at'),
+  activeHoursStart: integer('active_hours_start'), // local hour spending opens (0-23)
+  activeHoursEnd: integer('active_hours_end'), // local hour spending closes (1-24); may wrap past midnight
+  activeWeekdays: text('active_weekdays'), // comma-separated mon..sun; null = every day
+  warningThresholds: text('warning_thresholds').default('50,80,95'), // % of a period limit that fire limit_warning
   createdAt: integer('created_at').default(Date.now()),
 });
 
+export const budgetPools = sqliteTable('budget_pools', {
+  id: text('id').primaryKey(),
+  ownerId: text('owner_id').notNull(),
+  name: text('name').notNull(),
+  parentPoolId: text('parent_pool_id'), // pools nest; a spend must fit every ancestor
+  currency: text('currency').default('USDC'), // allowances in the pool share its currency
+  dailyLimit: units('daily_limit').default(ZERO),
+  weeklyLimit: units('weekly_limit').default(ZERO),
+  monthlyLimit: units('monthly_limit').default(ZERO),
+  timezone: text('timezone').default('UTC'),
+  status: text('status').default('active'), // active, paused
+  createdAt: integer('created_at').default(Date.now()),
+});
+
+export const categoryLimits = sqliteTable('category_limits', {
+  id: text('id').primaryKey(),
+  allowanceId: text('allowance_id').notNull(),
+  category: text('category').notNull(),
+  dailyLimit: units('daily_limit').default(ZERO), // 0 = no limit for the category
+  weeklyLimit: units('weekly_limit').default(ZERO),
+  monthlyLimit: units('monthly_limit').default(ZERO),
+  blocked: integer('blocked', { mode: 'boolean' }).default(false),
+  createdAt: integer('created_at').default(Date.now()),
+}, (table) => ({
+  allowanceCategoryIdx: uniqueIndex('category_limits_allowance_category_idx').on(table.allowanceId, table.category),
+}));
+
+export const recipientRules = sqliteTable('recipient_rules', {
+  id: text('id').primaryKey(),
+  allowanceId: text('allowance_id').notNull(),
+  recipient: text('recipient').notNull(), // agent ID or lower-cased wallet address
+  kind: text('kind').notNull(), // allow, deny, pending
+  createdAt: integer('created_at').default(Date.now()),
+}, (table) => ({
+  allowanceRecipientIdx: uniqueIndex('recipient_rules_allowance_recipient_idx').on(table.allowanceId, table.recipient),
+}));
+
 export const invoices = sqliteTable('invoices', {
   id: text('id').primaryKey(),
   issuerId: text('issuer_id').notNull(),
   recipientId: text('recipient_id').notNull(),
-  amount: real('amount').notNull(),
+  amount: units('amount').notNull(),
   currency: text('currency').default('USDC'),
-  status: text('status').default('draft'), // draft, sent, paid, cancelled
+  status: text('status').default('draft'), // draft, sent, partially_paid, escrowed, disputed, paid, partially_refunded, refunded, cancelled, void, expired
+  allowPartial: integer('allow_partial', { mode: 'boolean' }).default(false),
+  paidAmount: units('paid_amount').default(ZERO), // in the invoice's currency
   dueAt: integer('due_at'),
+  expiresAt: integer('expires_at'), // a sent invoice still unpaid by then expires
+  memo: text('memo'),
+  // Breakdown of amount (the total): subtotal - discountTotal + taxTotal
+  subtotal: units('subtotal'),
+  discountTotal: units('discount_total').default(ZERO),
+  taxTotal: units('tax_total').default(ZERO),
+  taxRate: real('tax_rate'), // percent, for lines without a rate of their own
+  discountPercent: real('discount_percent'), // invoice-wide discount: a percentage...
+  discountAmount: units('discount_amount'), // ...or a fixed amount
   createdAt: integer('created_at').default(Date.now()),
 });
 
+// An invoice paid in parts on a schedule. Payments cover installments in order, whoever
+// makes them; a due installment not covered yet is charged to the recipient's allowance.
+export const invoiceInstallments = sqliteTable('invoice_installments', {
+  id: text('id').primaryKey(),
+  invoiceId: text('invoice_id').notNull(),
+  sequence: integer('sequence').notNull(), // 1-based
+  amount: units('amount').notNull(), // in the invoice's currency
+  dueAt: integer('due_at').notNull(),
+  allowanceId: text('allowance_id'), // charged when due; null = the recipient's best allowance
+  status: text('status').default('pending'), // pending, paid
+  attempts: integer('attempts').default(0),
+  lastError: text('last_error'),
+  transactionId: text('transaction_id'), // payment that covered it
+  paidAt: integer('paid_at'),
+  createdAt: integer('created_at').notNull(),
+}, (table) => ({
+  invoiceInstallmentsInvoiceIdx: index('invoice_installments_invoice_id_idx').on(table.invoiceId),
+}));
+
+export const invoiceLineItems = sqliteTable('invoice_line_items', {
+  id: text('id').primaryKey(),
+  invoiceId: text('invoice_id').notNull(),
+  position: integer('position').notNull(),
+  description: text('description').notNull(),
+  quantity: text('quantity').notNull(), // decimal
+  unitPrice: units('unit_price').notNull(),
+  taxRate: real('tax_rate'), // percent; null = the invoice's rate
+  discountPercent: real('discount_percent'),
+  discountAmount: units('discount_amount'),
+  amount: units('amount').notNull(), // quantity x unitPrice
+  discount: units('discount').notNull(), // this line's own discount plus its share of the invoice's
+  tax: units('tax').notNull(),
+  total: units('total').notNull(), // amount - discount + tax
+}, (table) => ({
+  invoiceLineItemsInvoiceIdx: index('invoice_line_items_invoice_id_idx').on(table.invoiceId),
+}));
+
+// Funds a payer has locked against an invoice. The spend is recorded when they are locked;
+// the issuer is paid, less the platform fee, when they are released.
+export const invoiceEscrows = sqliteTable('invoice_escrows', {
+  id: text('id').primaryKey(),
+  invoiceId: text('invoice_id').notNull(),
+  payerId: text('payer_id').notNull(),
+  allowanceId: text('allowance_id').notNull(),
+  transactionId: text('transaction_id').notNull(), // the spend that locked the funds
+  amount: units('amount').notNull(), // in the allowance's currency
+  currency: text('currency').notNull(),
+  status: text('status').default('held'), // held, released, disputed, then refunded or split when a dispute settles it
+  autoReleaseAt: integer('auto_release_at').notNull(), // released to the issuer then unless disputed
+  releasedBy: text('released_by'), // the payer confirming delivery, 'system' at the deadline, or the validator deciding a dispute
+  disputeReason: text('dispute_reason'),
+  releasedAmount: units('released_amount'), // paid out to the issuer when it settled
+  feeAmount: units('fee_amount'), // platform fee charged on the released amount, at release
+  settledAt: integer('settled_at'),
+  createdAt: integer('created_at').notNull(),
+}, (table) => ({
+  invoiceEscrowsInvoiceIdx: uniqueIndex('invoice_escrows_invoice_id_idx').on(table.invoiceId),
+}));
+
+// A dispute over an invoice, after raiseDispute/resolveDispute in InvoiceSettlement.sol.
+// While it is open the invoice's payments and escrow are frozen; a majority of its
+// validators voting for the same outcome resolves it.
+export const invoiceDisputes = sqliteTable('invoice_disputes', {
+  id: text('id').primaryKey(),
+  invoiceId: text('invoice_id').notNull(),
+  openedBy: text('opened_by').notNull(), // the issuer or recipient
+  reason: text('reason').notNull(),
+  previousStatus: text('previous_status').notNull(), // the invoice's status before, restored by a release
+  votesRequired: integer('votes_required').notNull(), // a majority of the validators
+  status: text('status').default('open'), // open, resolved
+  outcome: text('outcome'), // refund, release, split
+  payerShare: real('payer_share'), // split only: percent of what was paid that goes back to the payer
+  resolvedAt: integer('resolved_at'),
+  createdAt: integer('created_at').notNull(),
+}, (table) => ({
+  invoiceDisputesInvoiceIdx: index('invoice_disputes_invoice_id_idx').on(table.invoiceId),
+}));
+
+export const disputeValidators = sqliteTable('dispute_validators', {
+  id: text('id').primaryKey(),
+  disputeId: text('dispute_id').notNull(),
+  validatorId: text('validator_id').notNull(),
+}, (table) => ({
+  disputeValidatorIdx: uniqueIndex('dispute_validators_dispute_validator_idx').on(table.disputeId, table.validatorId),
+}));
+
+export const disputeEvidence = sqliteTable('dispute_evidence', {
+  id: text('id').primaryKey(),
+  disputeId: text('dispute_id').notNull(),
+  submittedBy: text('submitted_by').notNull(),
+  reference: text('reference').notNull(), // e.g. a URL, content hash or on-chain tx
+  description: text('description'),
+  createdAt: integer('created_at').notNull(),
+}, (table) => ({
+  disputeEvidenceDisputeIdx: index('dispute_evidence_dispute_id_idx').on(table.disputeId),
+}));
+
+// Every vote cast. A validator may change their mind while the dispute is open; their
+// latest vote is the one that counts.
+export const disputeVotes = sqliteTable('dispute_votes', {
+  id: text('id').primaryKey(),
+  disputeId: text('dispute_id').notNull(),
+  validatorId: text('validator_id').notNull(),
+  outcome: text('outcome').notNull(), // refund, release, split
+  payerShare: real('payer_share'), // split only
+  comment: text('comment'),
+  createdAt: integer('created_at').notNull(),
+}, (table) => ({
+  disputeVotesDisputeIdx: index('dispute_votes_dispute_id_idx').on(table.disputeId),
+}));
+
+// Every status change of an invoice, with who made it
+export const invoiceTransitions = sqliteTable('invoice_transitions', {
+  id: text('id').primaryKey(),
+  invoiceId: text('invoice_id').notNull(),
+  fromStatus: text('from_status').notNull(),
+  toStatus: text('to_status').notNull(),
+  actor: text('actor').notNull(), // agent ID, or 'system' for expiry
+  reason: text('reason'),
+  createdAt: integer('created_at').notNull(),
+}, (table) => ({
+  invoiceTransitionsInvoiceIdx: index('invoice_transitions_invoice_id_idx').on(table.invoiceId),
+}));
+
 export const subscriptions = sqliteTable('subscriptions', {
   id: text('id').primaryKey(),
   subscriberId: text('subscriber_id').notNull(),
   providerId: text('provider_id').notNull(),
   planId: text('plan_id').notNull(),
-  amount: real('amount').notNull(),
+  amount: units('amount').notNull(),
+  currency: text('currency').default('USDC'),
   interval: text('interval').default('monthly'), // daily, weekly, monthly
   nextBillingDate: integer('next_billing_date').notNull(),
   status: text('status').default('active'), // active, paused, cancelled
@@ -41,9 +255,236 @@ export const subscriptions = sqliteTable('subscriptions', {
 export const transactions = sqliteTable('transactions', {
   id: text('id').primaryKey(),
   allowanceId: text('allowance_id').notNull(),
-  amount: real('amount').notNull(),
+  amount: units('amount').notNull(),
+  currency: text('currency').default('USDC'), // the allowance's currency
   category: text('category').notNull(),
   recipient: text('recipient').notNull(),
   status: text('status').default('success'), // success, failed
+  kind: text('kind').default('spend'), // spend, refund
+  reversesId: text('reverses_id'), // for a refund: the spend it gives back
+  refundedAmount: units('refunded_amount').default(ZERO), // for a spend: total refunded so far
+  feeAmount: units('fee_amount').default(ZERO), // platform fee charged on a payment, or given back by a refund
+  reason: text('reason'),
+  invoiceId: text('invoice_id'),
+  subscriptionId: text('subscription_id'),
+  // Set when the amount was converted from another currency, e.g. a EUR invoice paid from a USDC allowance
+  originalAmount: units('original_amount'), // in originalCurrency's base units
+  originalCurrency: text('original_currency'),
+  fxRate: text('fx_rate'), // decimal: units of `currency` per unit of originalCurrency
+  fxRateId: text('fx_rate_id'),
   timestamp: integer('timestamp').default(Date.now()),
 });
+
+export const limitAlerts = sqliteTable('limit_alerts', {
+  id: text('id').primaryKey(),
+  allowanceId: text('allowance_id').notNull(),
+  period: text('period').notNull(), // daily, weekly, monthly
+  periodStart: integer('period_start').notNull(),
+  threshold: integer('threshold').notNull(), // warning %; 100 = exhausted
+  createdAt: integer('created_at').default(Date.now()),
+}, (table) => ({
+  limitAlertIdx: uniqueIndex('limit_alerts_allowance_period_threshold_idx').on(table.allowanceId, table.period, table.periodStart, table.threshold),
+}));
+
+export const velocityViolations = sqliteTable('velocity_violations', {
+  id: text('id').primaryKey(),
+  allowanceId: text('allowance_id').notNull(),
+  agentId: text('agent_id').notNull(),
+  rule: text('rule').notNull(), // max_tx_per_minute, max_tx_per_hour, max_single_amount, anomaly, denial_cooldown
+  action: text('action').notNull(), // paused, cooldown
+  amount: units('amount').notNull(), // the spend that tripped the rule
+  detail: text('detail').notNull(),
+  createdAt: integer('created_at').default(Date.now()),
+});
+
+export const spendHolds = sqliteTable('spend_holds', {
+  id: text('id').primaryKey(),
+  allowanceId: text('allowance_id').notNull(),
+  agentId: text('agent_id').notNull(),
+  amount: units('amount').notNull(), // amount reserved against the allowance
+  capturedAmount: units('captured_amount').default(ZERO),
+  currency: text('currency').default('USDC'),
+  category: text('category').notNull(),
+  recipient: text('recipient').notNull(),
+  status: text('status').default('active'), // active, captured, voided, expired
+  transactionId: text('transaction_id'), // set on capture
+  expiresAt: integer('expires_at').notNull(),
+  settledAt: integer('settled_at'),
+  createdAt: integer('created_at').default(Date.now()),
+});
+
+export const allowanceApprovers = sqliteTable('allowance_approvers', {
+  id: text('id').primaryKey(),
+  allowanceId: text('allowance_id').notNull(),
+  approverId: text('approver_id').notNull(),
+  createdAt: integer('created_at').default(Date.now()),
+}, (table) => ({
+  allowanceApproverIdx: uniqueIndex('allowance_approvers_allowance_approver_idx').on(table.allowanceId, table.approverId),
+}));
+
+export const spendApprovals = sqliteTable('spend_approvals', {
+  id: text('id').primaryKey(),
+  kind: text('kind').notNull(), // spend, invoice_payment, invoice_escrow, hold
+  allowanceId: text('allowance_id').notNull(),
+  agentId: text('agent_id').notNull(),
+  amount: units('amount').notNull(),
+  currency: text('currency').default('USDC'),
+  category: text('category').notNull(),
+  recipient: text('recipient').notNull(),
+  invoiceId: text('invoice_id'), // invoice_payment and invoice_escrow only
+  invoiceAmount: units('invoice_amount'), // invoice_payment only: the part being paid, in the invoice's currency
+  holdTtlSeconds: integer('hold_ttl_seconds'), // hold only
+  escrowReleaseSeconds: integer('escrow_release_seconds'), // invoice_escrow only
+  reason: text('reason').notNull(), // why the spend was queued
+  approvalsRequired: integer('approvals_required').notNull(),
+  status: text('status').default('pending_approval'), // pending_approval, approved, rejected, executed, failed
+  transactionId: text('transaction_id'),
+  holdId: text('hold_id'),
+  failureReason: text('failure_reason'),
+  resolvedAt: integer('resolved_at'),
+  createdAt: integer('created_at').default(Date.now()),
+});
+
+export const approvalVotes = sqliteTable('approval_votes', {
+  id: text('id').primaryKey(),
+  approvalId: text('approval_id').notNull(),
+  approverId: text('approver_id').notNull(),
+  decision: text('decision').notNull(), // approve, reject
+  comment: text('comment'),
+  createdAt: integer('created_at').default(Date.now()),
+}, (table) => ({
+  approvalVoterIdx: uniqueIndex('approval_votes_approval_approver_idx').on(table.approvalId, table.approverId),
+}));
+
+// Double-entry ledger. Every journal entry's debits equal its credits; an account's
+// balance is its debits minus its credits, i.e. the net value it has received.
+export const ledgerAccounts = sqliteTable('ledger_accounts', {
+  id: text('id').primaryKey(),
+  kind: text('kind').notNull(), // agent, owner, provider, fees, suspense, clearing
+  ref: text('ref').notNull(), // agent/owner/provider ID; 'platform' for fees, suspense and clearing
+  currency: text('currency').notNull(),
+  createdAt: integer('created_at').default(Date.now()),
+}, (table) => ({
+  ledgerAccountIdx: uniqueIndex('ledger_accounts_kind_ref_currency_idx').on(table.kind, table.ref, table.currency),
+}));
+
+export const journalEntries = sqliteTable('journal_entries', {
+  id: text('id').primaryKey(),
+  kind: text('kind').notNull(), // spend, invoice_payment, subscription_billing, hold_authorized, hold_captured, hold_released, refund, escrow_locked, escrow_released, escrow_returned, deposit, transfer, withdrawal, withdrawal_cancelled
+  currency: text('currency').notNull(),
+  memo: text('memo'),
+  transactionId: text('transaction_id'),
+  invoiceId: text('invoice_id'),
+  subscriptionId: text('subscription_id'),
+  holdId: text('hold_id'),
+  escrowId: text('escrow_id'),
+  withdrawalId: text('withdrawal_id'),
+  createdAt: integer('created_at').notNull(),
+});
+
+export const journalPostings = sqliteTable('journal_postings', {
+  id: text('id').primaryKey(),
+  entryId: text('entry_id').notNull(),
+  accountId: text('account_id').notNull(),
+  direction: text('direction').notNull(), // debit, credit
+  amount: units('amount').notNull(),
+  createdAt: integer('created_at').notNull(), // same as the entry, for point-in-time balances
+});
+
+// Responses stored under a client's Idempotency-Key, replayed when the request is retried
+export const idempotencyKeys = sqliteTable('idempotency_keys', {
+  key: text('key').primaryKey(),
+  method: text('method').notNull(),
+  path: text('path').notNull(),
+  fingerprint: text('fingerprint').notNull(), // sha256 of method, path and body
+  statusCode: integer('status_code'), // null while the first request is still running
+  contentType: text('content_type'),
+  responseBody: text('response_body'),
+  createdAt: integer('created_at').notNull(),
+  expiresAt: integer('expires_at').notNull(),
+}, (table) => ({
+  idempotencyExpiresIdx: index('idempotency_keys_expires_at_idx').on(table.expiresAt),
+}));
+
+// Locally managed exchange rates. A rate applies from effectiveAt until a later one for the
+// same pair takes over; each direction of a pair is set separately.
+export const fxRates = sqliteTable('fx_rates', {
+  id: text('id').primaryKey(),
+  baseCurrency: text('base_currency').notNull(),
+  quoteCurrency: text('quote_currency').notNull(),
+  rate: text('rate').notNull(), // decimal: units of quote per unit of base
+  effectiveAt: integer('effective_at').notNull(),
+  createdAt: integer('created_at').notNull(),
+}, (table) => ({
+  fxRatePairIdx: index('fx_rates_pair_effective_at_idx').on(table.baseCurrency, table.quoteCurrency, table.effectiveAt),
+}));
+
+// Prepaid funds each agent holds per currency. The balance is a cache of the agent's
+// balance entries, which are the history and the source of truth.
+export const agentBalances = sqliteTable('agent_balances', {
+  id: text('id').primaryKey(),
+  agentId: text('agent_id').notNull(),
+  currency: text('currency').notNull(),
+  balance: units('balance').notNull().default(ZERO),
+  updatedAt: integer('updated_at').notNull(),
+}, (table) => ({
+  agentBalanceIdx: uniqueIndex('agent_balances_agent_currency_idx').on(table.agentId, table.currency),
+}));
+
+export const balanceEntries = sqliteTable('balance_entries', {
+  id: text('id').primaryKey(),
+  agentId: text('agent_id').notNull(),
+  currency: text('currency').notNull(),
+  kind: text('kind').notNull(), // deposit, withdrawal, withdrawal_cancelled, transfer_in, transfer_out, spend, receipt, refund_in, refund_out, fee, fee_refund, escrow_lock, escrow_in, escrow_out
+  amount: units('amount').notNull(), // signed: credits are positive, debits negative
+  balanceAfter: units('balance_after').notNull(),
+  counterparty: text('counterparty'), // the other agent of a spend, receipt, refund or transfer
+  transactionId: text('transaction_id'),
+  withdrawalId: text('withdrawal_id'),
+  reference: text('reference'), // free text, e.g. an on-chain tx hash for a deposit
+  createdAt: integer('created_at').notNull(),
+});
+
+export const withdrawals = sqliteTable('withdrawals', {
+  id: text('id').primaryKey(),
+  agentId: text('agent_id').notNull(),
+  amount: units('amount').notNull(),
+  currency: text('currency').notNull(),
+  destination: text('destination'), // e.g. a wallet address
+  status: text('status').notNull(), // pending, completed, cancelled
+  createdAt: integer('created_at').notNull(),
+  settledAt: integer('settled_at'),
+});
+
+// Platform fees charged on invoice and subscription payments. A provider schedule beats a
+// category one, which beats the global default; without any, DEFAULT_FEE_BPS applies.
+export const feeSchedules = sqliteTable('fee_schedules', {
+  id: text('id').primaryKey(),
+  scope: text('scope').notNull(), // global, provider, category
+  ref: text('ref'), // provider ID or category; null for global
+  kind: text('kind').notNull(), // flat, percentage, tiered
+  currency: text('currency'), // required for flat and tiered amounts; null = any currency
+  bps: integer('bps').default(0), // percentage, in basis points
+  flatAmount: units('flat_amount').default(ZERO),
+  createdAt: integer('created_at').notNull(),
+});
+
+// Brackets of a tiered schedule: the first tier whose upTo covers the payment sets its fee
+export const feeTiers = sqliteTable('fee_tiers', {
+  id: text('id').primaryKey(),
+  scheduleId: text('schedule_id').notNull(),
+  upTo: units('up_to'), // null = no upper bound
+  bps: integer('bps').default(0),
+  flatAmount: units('flat_amount').default(ZERO),
+});
+
+// How a payment was split between its payee and platform fees
+export const transactionLines = sqliteTable('transaction_lines', {
+  id: text('id').primaryKey(),
+  transactionId: text('transaction_id').notNull(),
+  kind: text('kind').notNull(), // payee, fee
+  recipient: text('recipient').notNull(),
+  amount: units('amount').notNull(),
+  feeScheduleId: text('fee_schedule_id'), // null for the payee line, and for the built-in default fee
+  createdAt: integer('created_at').notNull(),
+});
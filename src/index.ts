@@ -2,19 +2,67 @@ import { Hono } from 'hono';
 import { serve } from '@hono/node-server';
 import { html } from 'hono/html';
 import { db } from './db';
-import { allowances, invoices, subscriptions, transactions } from './db/schema';
-import { desc, eq } from 'drizzle-orm';
+import { allowances, invoices, subscriptions, transactions, spendHolds, spendApprovals, budgetPools, ledgerAccounts, journalEntries, fxRates, withdrawals } from './db/schema';
+import { and, desc, eq } from 'drizzle-orm';
 import { v4 as uuidv4 } from 'uuid';
-import { createInvoice, sendInvoice, payInvoice } from './core/ledger';
+import { createInvoice, sendInvoice, payInvoice, cancelInvoice, voidInvoice, expireInvoices, processDueInstallments } from './core/ledger';
+import { createInstallmentPlan, getInstallments } from './core/installments';
+import { confirmDelivery, escrowInvoice, getEscrow, releaseDueEscrows } from './core/escrow';
+import { addEvidence, castVote, currentVotes, getDispute, getEvidence, getInvoiceDisputes, getInvoiceTimeline, getValidators, getVotes, openDispute } from './core/disputes';
+import { getInvoiceHistory, nextStatuses } from './core/invoiceStates';
+import { getLineItems } from './core/lineItems';
 import { createSubscription, processBilling, processDueSubscriptions } from './core/subscriptions';
+import { rollPeriods } from './core/allowance';
+import { getCategoryUsage, setCategoryLimit, removeCategoryLimit } from './core/categories';
+import { getRecipientRules, setRecipientRule, removeRecipientRule } from './core/recipients';
+import { authorizeHold, captureHold, voidHold, expireHolds } from './core/holds';
+import { heldAmount } from './core/usage';
+import { effectiveLimit } from './core/rollover';
+import { getPool, getPoolReport, createPool, updatePool } from './core/pools';
+import { rankAllowances, setDefaultAllowance } from './core/selection';
+import { getViolations } from './core/velocity';
+import { percentUsed } from './core/alerts';
+import { simulateSpends } from './core/simulate';
+import { SCHEDULE_WINDOWS, ScheduleWindow, expireAllowances, scheduleWindow, scheduleWindowFilter } from './core/schedule';
+import { getApprovers, setApprovers, getApprovalVotes, decideApproval } from './core/approvals';
+import { PERIODS, DEFAULT_TIMEZONE, periodBounds } from './core/periods';
 import { getOpenworkBalance, getEthBalance, verifyOpenworkBalance, CONTRACTS } from './core/onchain';
 import { registerWebhook, unregisterWebhook, getWebhooks } from './core/webhooks';
+import { DEFAULT_CURRENCY, MoneyError, formatUnits, serializeMoney, toUnits } from './core/money';
+import { ACCOUNT_KINDS, AccountKind, accountBalance, getAccountById, getEntryPostings, trialBalance } from './core/journal';
+import { getRefunds, refundInvoice, refundTransaction } from './core/refunds';
+import { convert, setRate } from './core/fx';
+import { deposit, getBalanceHistory, getBalances, isPlatformHolder, requestWithdrawal, settleWithdrawal, transfer } from './core/balances';
+import { FEE_SCOPES, FeeScope, createSchedule, deleteSchedule, feeReport, getPaymentLines, listSchedules, withdrawFees } from './core/fees';
+import { IDEMPOTENCY_KEY_HEADER, MAX_IDEMPOTENCY_KEY_LENGTH, claimKey, releaseKey, requestFingerprint, saveResponse } from './core/idempotency';
 import { openApiSpec } from './openapi';
 import { 
   createAllowanceSchema, 
   updateAllowanceSchema,
-  createInvoiceSchema, 
+  categoryLimitSchema,
+  recipientRuleSchema,
+  createHoldSchema,
+  simulateSpendSchema,
+  captureHoldSchema,
+  setApproversSchema,
+  approvalDecisionSchema,
+  createPoolSchema,
+  updatePoolSchema,
+  createInvoiceSchema,
   payInvoiceSchema,
+  installmentPlanSchema,
+  escrowInvoiceSchema,
+  escrowActionSchema,
+  openDisputeSchema,
+  addEvidenceSchema,
+  disputeVoteSchema,
+  invoiceTransitionSchema,
+  refundSchema,
+  feeScheduleSchema,
+  fxRateSchema,
+  depositSchema,
+  transferSchema,
+  withdrawalSchema,
   createSubscriptionSchema,
   paginationSchema,
   agentFilterSchema
@@ -22,9 +70,25 @@ import {
 
 const app = new Hono();
 
+// Amounts arrive as decimal strings; one with more decimals than its currency allows is a bad request
+app.onError((err, c) => {
+  if (err instanceof MoneyError) return c.json({ error: err.message }, 400);
+  console.error(err);
+  return c.text('Internal Server Error', 500);
+});
+
+const optionalUnits = (amount: string | undefined, currency: string) =>
+  amount === undefined ? undefined : toUnits(amount, currency);
+
+// A converted transaction's original amount is in the currency it was converted from
+const serializeTransaction = (tx: typeof transactions.$inferSelect) => ({
+  ...serializeMoney(tx, tx.currency ?? DEFAULT_CURRENCY),
+  originalAmount: tx.originalAmount === null || !tx.originalCurrency ? null : formatUnits(tx.originalAmount, tx.originalCurrency),
+});
+
 // --- Middleware ---
 app.use('*', async (c, next) => {
-  if (c.req.path.startsWith('/api') && ['POST', 'PUT', 'DELETE'].includes(c.req.method)) {
+  if (c.req.path.startsWith('/api') && ['POST', 'PUT', 'PATCH', 'DELETE'].includes(c.req.method)) {
     const apiKey = c.req.header('x-api-key');
     if (apiKey !== 'clawd-money-v1') {
       return c.json({ error: 'Unauthorized' }, 401);
@@ -33,9 +97,75 @@ app.use('*', async (c, next) => {
   await next();
 });
 
+// Retries carrying an Idempotency-Key get the first response back instead of running again
+app.use('*', async (c, next) => {
+  const key = c.req.header(IDEMPOTENCY_KEY_HEADER);
+  if (!key || !['POST', 'PUT', 'PATCH', 'DELETE'].includes(c.req.method)) return next();
+  if (key.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+    return c.json({ error: `Idempotency-Key must be at most ${MAX_IDEMPOTENCY_KEY_LENGTH} characters` }, 400);
+  }
+
+  const fingerprint = requestFingerprint(c.req.method, c.req.path, await c.req.text());
+  const claim = claimKey(key, c.req.method, c.req.path, fingerprint);
+  if (claim.status === 'mismatch') {
+    return c.json({ error: 'Idempotency-Key has already been used for a different request' }, 422);
+  }
+  if (claim.status === 'in_progress') {
+    return c.json({ error: 'A request with this Idempotency-Key is still in progress' }, 409);
+  }
+  if (claim.status === 'replay') {
+    const { record } = claim;
+    const headers: Record<string, string> = { 'Idempotent-Replayed': 'true' };
+    if (record.contentType) headers['Content-Type'] = record.contentType;
+    return new Response(record.responseBody, { status: record.statusCode ?? 200, headers });
+  }
+
+  await next();
+
+  // Server errors are not remembered, so the retry gets another go
+  if (c.res.status >= 500) {
+    releaseKey(key);
+  } else {
+    saveResponse(key, c.res.status, c.res.headers.get('content-type'), await c.res.clone().text());
+  }
+});
+
+// An invoice's total, expandable into its lines, discounts and tax when it has any
+const invoiceBreakdown = (invoice: typeof invoices.$inferSelect) => {
+  const currency = invoice.currency ?? DEFAULT_CURRENCY;
+  const money = (units: bigint | null) => formatUnits(units ?? 0n, currency);
+  const lines = getLineItems(invoice.id);
+  const total = `${money(invoice.amount)} ${currency}`;
+  if (lines.length === 0 && !invoice.discountTotal && !invoice.taxTotal) return total;
+
+  return html`
+    <details>
+      <summary>${total}</summary>
+      <table class="breakdown">
+        ${lines.map(l => html`
+          <tr>
+            <td>${l.description}</td>
+            <td>${l.quantity} × ${money(l.unitPrice)}</td>
+            <td>${money(l.amount)}</td>
+          </tr>
+        `)}
+        <tr><td colspan="2">Subtotal</td><td>${money(invoice.subtotal ?? invoice.amount)}</td></tr>
+        ${invoice.discountTotal ? html`<tr><td colspan="2">Discount</td><td>-${money(invoice.discountTotal)}</td></tr>` : ''}
+        ${invoice.taxTotal ? html`<tr><td colspan="2">Tax</td><td>${money(invoice.taxTotal)}</td></tr>` : ''}
+        <tr><td colspan="2"><strong>Total</strong></td><td><strong>${total}</strong></td></tr>
+      </table>
+      ${invoice.memo ? html`<small style="color: #888">${invoice.memo}</small>` : ''}
+    </details>
+  `;
+};
+
 // --- Dashboard ---
 app.get('/', async (c) => {
-  const allAllowances = await db.select().from(allowances).all();
+  await expireAllowances();
+  const window = c.req.query('window') as ScheduleWindow | undefined;
+  const allAllowances = (await db.select().from(allowances)
+    .where(window && SCHEDULE_WINDOWS.includes(window) ? scheduleWindowFilter(window) : undefined)
+    .all()).map(a => rollPeriods(a));
   const allInvoices = await db.select().from(invoices).orderBy(desc(invoices.createdAt)).all();
   const allSubs = await db.select().from(subscriptions).all();
   const allTx = await db.select().from(transactions).orderBy(desc(transactions.timestamp)).limit(20).all();
@@ -56,10 +186,15 @@ app.get('/', async (c) => {
         th, td { padding: 12px 16px; text-align: left; border-bottom: 1px solid #eee; }
         th { background: #f8f9fa; font-weight: 600; color: #555; font-size: 0.9rem; text-transform: uppercase; letter-spacing: 0.5px; }
         tr:hover { background: #f9f9f9; }
+        .breakdown { margin: 0.5rem 0; font-size: 0.85rem; }
+        .breakdown td { padding: 2px 8px; border: none; }
         .status-active, .status-paid, .status-success { color: #166534; background: #dcfce7; padding: 4px 8px; border-radius: 12px; font-size: 0.85rem; font-weight: 600; display: inline-block; }
-        .status-sent { color: #854d0e; background: #fef9c3; padding: 4px 8px; border-radius: 12px; font-size: 0.85rem; font-weight: 600; display: inline-block; }
+        .status-sent, .status-partially_paid, .status-escrowed, .status-partially_refunded { color: #854d0e; background: #fef9c3; padding: 4px 8px; border-radius: 12px; font-size: 0.85rem; font-weight: 600; display: inline-block; }
         .status-draft { color: #4b5563; background: #f3f4f6; padding: 4px 8px; border-radius: 12px; font-size: 0.85rem; font-weight: 600; display: inline-block; }
-        .status-failed { color: #991b1b; background: #fee2e2; padding: 4px 8px; border-radius: 12px; font-size: 0.85rem; font-weight: 600; display: inline-block; }
+        .status-failed, .status-disputed { color: #991b1b; background: #fee2e2; padding: 4px 8px; border-radius: 12px; font-size: 0.85rem; font-weight: 600; display: inline-block; }
+        .status-paused, .status-expired, .status-refunded, .status-cancelled, .status-void { color: #4b5563; background: #e5e7eb; padding: 4px 8px; border-radius: 12px; font-size: 0.85rem; font-weight: 600; display: inline-block; }
+        .filters a { color: #3b82f6; font-size: 0.9rem; font-weight: normal; margin-left: 0.75rem; text-decoration: none; }
+        .filters a.selected { color: #222; font-weight: 600; }
         button { background: #3b82f6; color: white; border: none; padding: 8px 16px; border-radius: 6px; cursor: pointer; font-size: 0.9rem; transition: background 0.2s; }
         button:hover { background: #2563eb; }
         button:disabled { background: #cbd5e1; cursor: not-allowed; }
@@ -78,7 +213,12 @@ app.get('/', async (c) => {
         </div>
       </div>
       
-      <h2>🤖 Agent Allowances</h2>
+      <h2>🤖 Agent Allowances
+        <span class="filters">
+          <a href="/" class="${window ? '' : 'selected'}">All</a>
+          ${SCHEDULE_WINDOWS.map(w => html`<a href="/?window=${w}" class="${window === w ? 'selected' : ''}">${w}</a>`)}
+        </span>
+      </h2>
       ${allAllowances.length === 0 ? html`<div class="empty-state">No allowances active</div>` : html`
       <table>
         <thead>
@@ -87,6 +227,7 @@ app.get('/', async (c) => {
             <th>Daily Limit</th>
             <th>Spent (Today)</th>
             <th>Spent (Month)</th>
+            <th>Window</th>
             <th>Status</th>
           </tr>
         </thead>
@@ -94,9 +235,14 @@ app.get('/', async (c) => {
           ${allAllowances.map(a => html`
             <tr>
               <td><code>${a.agentId}</code></td>
-              <td>$${(a.dailyLimit ?? 0).toFixed(2)}</td>
-              <td>$${(a.spentToday || 0).toFixed(2)}</td>
-              <td>$${(a.spentThisMonth || 0).toFixed(2)}</td>
+              <td>${formatUnits(a.dailyLimit ?? 0n, a.currency ?? DEFAULT_CURRENCY)} ${a.currency}</td>
+              <td>${formatUnits(a.spentToday ?? 0n, a.currency ?? DEFAULT_CURRENCY)} ${a.currency}</td>
+              <td>${formatUnits(a.spentThisMonth ?? 0n, a.currency ?? DEFAULT_CURRENCY)} ${a.currency}</td>
+              <td>
+                ${scheduleWindow(a)}
+                ${a.startsAt ? html`<br><small>from ${new Date(a.startsAt).toLocaleString()}</small>` : ''}
+                ${a.expiresAt ? html`<br><small>until ${new Date(a.expiresAt).toLocaleString()}</small>` : ''}
+              </td>
               <td><span class="status-${a.status}">${a.status}</span></td>
             </tr>
           `)}
@@ -123,7 +269,7 @@ app.get('/', async (c) => {
               <td><code>${s.providerId}</code></td>
               <td><code>${s.subscriberId}</code></td>
               <td>${s.planId}</td>
-              <td>$${s.amount.toFixed(2)} / ${s.interval}</td>
+              <td>${formatUnits(s.amount, s.currency ?? DEFAULT_CURRENCY)} ${s.currency} / ${s.interval}</td>
               <td>${new Date(s.nextBillingDate).toLocaleDateString()} ${new Date(s.nextBillingDate).toLocaleTimeString()}</td>
               <td><span class="status-${s.status}">${s.status}</span></td>
             </tr>
@@ -153,13 +299,15 @@ app.get('/', async (c) => {
               <td><small>${i.id.substring(0, 8)}...</small></td>
               <td><code>${i.issuerId}</code></td>
               <td><code>${i.recipientId}</code></td>
-              <td>$${i.amount.toFixed(2)}</td>
+              <td>${invoiceBreakdown(i)}</td>
               <td><span class="status-${i.status}">${i.status}</span></td>
               <td>
                 ${i.status === 'draft' ? html`
                   <button hx-post="/invoices/${i.id}/send" hx-swap="outerHTML">Send</button>
                 ` : ''}
                 ${i.status === 'sent' ? html`<span style="color:#888; font-size:0.8rem">Pending Payment</span>` : ''}
+                ${i.status === 'escrowed' ? html`<span style="color:#888; font-size:0.8rem">Awaiting delivery</span>` : ''}
+                ${i.status === 'partially_paid' ? html`<span style="color:#888; font-size:0.8rem">${formatUnits(i.amount - (i.paidAmount ?? 0n), i.currency ?? DEFAULT_CURRENCY)} outstanding</span>` : ''}
               </td>
             </tr>
           `)}
@@ -183,10 +331,10 @@ app.get('/', async (c) => {
           ${allTx.map(t => html`
             <tr>
               <td>${new Date(t.timestamp || 0).toLocaleString()}</td>
-              <td>$${t.amount.toFixed(2)}</td>
+              <td>${t.kind === 'refund' ? '-' : ''}${formatUnits(t.amount, t.currency ?? DEFAULT_CURRENCY)} ${t.currency}${t.feeAmount ? html`<br><small style="color: #888">incl. ${formatUnits(t.feeAmount, t.currency ?? DEFAULT_CURRENCY)} platform fee</small>` : ''}</td>
               <td>${t.category}</td>
               <td>${t.recipient}</td>
-              <td><span class="status-${t.status}">${t.status}</span></td>
+              <td><span class="status-${t.kind === 'refund' ? 'refunded' : t.status}">${t.kind === 'refund' ? 'refund' : t.status}</span></td>
             </tr>
           `)}
         </tbody>
@@ -209,20 +357,27 @@ app.get('/', async (c) => {
 app.get('/api/allowances', async (c) => {
   const agentId = c.req.query('agentId');
   const status = c.req.query('status');
+  const window = c.req.query('window') as ScheduleWindow | undefined;
   const limit = parseInt(c.req.query('limit') || '50');
   const offset = parseInt(c.req.query('offset') || '0');
 
-  let results;
-  
-  if (agentId) {
-    results = await db.select().from(allowances).where(eq(allowances.agentId, agentId)).limit(limit).offset(offset).all();
-  } else if (status) {
-    results = await db.select().from(allowances).where(eq(allowances.status, status)).limit(limit).offset(offset).all();
-  } else {
-    results = await db.select().from(allowances).limit(limit).offset(offset).all();
+  if (window && !SCHEDULE_WINDOWS.includes(window)) {
+    return c.json({ error: `window must be one of ${SCHEDULE_WINDOWS.join(', ')}` }, 400);
   }
+  await expireAllowances();
 
-  return c.json({ data: results, count: results.length, limit, offset });
+  const results = await db.select().from(allowances)
+    .where(and(
+      agentId ? eq(allowances.agentId, agentId) : undefined,
+      status ? eq(allowances.status, status) : undefined,
+      window ? scheduleWindowFilter(window) : undefined,
+    ))
+    .limit(limit)
+    .offset(offset)
+    .all();
+  const data = results.map(a => serializeMoney(rollPeriods(a), a.currency ?? DEFAULT_CURRENCY));
+
+  return c.json({ data, count: data.length, limit, offset });
 });
 
 app.get('/api/allowances/:id', async (c) => {
@@ -230,11 +385,71 @@ app.get('/api/allowances/:id', async (c) => {
   const result = await db.select().from(allowances).where(eq(allowances.id, id)).limit(1).get();
   
   if (!result) return c.json({ error: 'Allowance not found' }, 404);
-  return c.json(result);
+  const allowance = rollPeriods(result);
+  return c.json(serializeMoney({
+    ...allowance,
+    percentUsed: percentUsed(allowance),
+    categoryLimits: getCategoryUsage(allowance),
+    recipientRules: getRecipientRules(allowance.id),
+    approvers: getApprovers(allowance.id),
+  }, allowance.currency ?? DEFAULT_CURRENCY));
+});
+
+app.get('/api/allowances/:id/recipients', async (c) => {
+  const id = c.req.param('id');
+  const allowance = await db.select().from(allowances).where(eq(allowances.id, id)).limit(1).get();
+  if (!allowance) return c.json({ error: 'Allowance not found' }, 404);
+
+  const rules = getRecipientRules(id);
+  return c.json({
+    allowanceId: id,
+    policy: allowance.recipientPolicy,
+    allowed: rules.filter(r => r.kind === 'allow').map(r => r.recipient),
+    denied: rules.filter(r => r.kind === 'deny').map(r => r.recipient),
+    pending: rules.filter(r => r.kind === 'pending').map(r => r.recipient),
+  });
+});
+
+app.get('/api/allowances/:id/violations', async (c) => {
+  const id = c.req.param('id');
+  const allowance = await db.select().from(allowances).where(eq(allowances.id, id)).limit(1).get();
+
+  if (!allowance) return c.json({ error: 'Allowance not found' }, 404);
+  const violations = serializeMoney(getViolations(id), allowance.currency ?? DEFAULT_CURRENCY);
+  return c.json({ data: violations, count: violations.length, cooldownUntil: allowance.cooldownUntil });
+});
+
+// --- GET: Budget pools ---
+app.get('/api/pools', async (c) => {
+  const ownerId = c.req.query('ownerId');
+  const parentPoolId = c.req.query('parentPoolId');
+  const limit = parseInt(c.req.query('limit') || '50');
+  const offset = parseInt(c.req.query('offset') || '0');
+
+  let results;
+
+  if (ownerId) {
+    results = await db.select().from(budgetPools).where(eq(budgetPools.ownerId, ownerId)).limit(limit).offset(offset).all();
+  } else if (parentPoolId) {
+    results = await db.select().from(budgetPools).where(eq(budgetPools.parentPoolId, parentPoolId)).limit(limit).offset(offset).all();
+  } else {
+    results = await db.select().from(budgetPools).limit(limit).offset(offset).all();
+  }
+
+  const data = results.map(r => serializeMoney(r, r.currency ?? DEFAULT_CURRENCY));
+  return c.json({ data, count: data.length, limit, offset });
+});
+
+app.get('/api/pools/:id', async (c) => {
+  const report = getPoolReport(c.req.param('id'));
+
+  if (!report) return c.json({ error: 'Pool not found' }, 404);
+  return c.json(serializeMoney(report, report.currency ?? DEFAULT_CURRENCY));
 });
 
 // --- GET: Invoices ---
 app.get('/api/invoices', async (c) => {
+  await expireInvoices();
   const issuerId = c.req.query('issuerId');
   const recipientId = c.req.query('recipientId');
   const status = c.req.query('status');
@@ -253,15 +468,57 @@ app.get('/api/invoices', async (c) => {
     results = await db.select().from(invoices).orderBy(desc(invoices.createdAt)).limit(limit).offset(offset).all();
   }
 
-  return c.json({ data: results, count: results.length, limit, offset });
+  const data = results.map(r => serializeMoney(r, r.currency ?? DEFAULT_CURRENCY));
+  return c.json({ data, count: data.length, limit, offset });
 });
 
 app.get('/api/invoices/:id', async (c) => {
+  await expireInvoices();
+  await releaseDueEscrows();
   const id = c.req.param('id');
   const result = await db.select().from(invoices).where(eq(invoices.id, id)).limit(1).get();
   
   if (!result) return c.json({ error: 'Invoice not found' }, 404);
-  return c.json(result);
+  const escrow = getEscrow(result.id);
+  return c.json({
+    ...serializeMoney(result, result.currency ?? DEFAULT_CURRENCY),
+    outstanding: formatUnits(result.amount - (result.paidAmount ?? 0n), result.currency ?? DEFAULT_CURRENCY),
+    lineItems: serializeMoney(getLineItems(result.id), result.currency ?? DEFAULT_CURRENCY),
+    installments: serializeMoney(getInstallments(result.id), result.currency ?? DEFAULT_CURRENCY),
+    escrow: escrow ? serializeMoney(escrow, escrow.currency) : null,
+    disputes: getInvoiceDisputes(result.id),
+    allowedTransitions: nextStatuses(result.status),
+  });
+});
+
+app.get('/api/invoices/:id/history', async (c) => {
+  const invoice = await db.select().from(invoices).where(eq(invoices.id, c.req.param('id'))).limit(1).get();
+  if (!invoice) return c.json({ error: 'Invoice not found' }, 404);
+
+  const data = getInvoiceHistory(invoice.id);
+  return c.json({ invoiceId: invoice.id, status: invoice.status, data, count: data.length });
+});
+
+app.get('/api/invoices/:id/timeline', async (c) => {
+  const invoice = await db.select().from(invoices).where(eq(invoices.id, c.req.param('id'))).limit(1).get();
+  if (!invoice) return c.json({ error: 'Invoice not found' }, 404);
+
+  const data = getInvoiceTimeline(invoice.id).map(entry => serializeMoney(entry, String(entry.currency)));
+  return c.json({ invoiceId: invoice.id, status: invoice.status, data, count: data.length });
+});
+
+// --- GET: Disputes ---
+app.get('/api/disputes/:id', async (c) => {
+  const dispute = getDispute(c.req.param('id'));
+  if (!dispute) return c.json({ error: 'Dispute not found' }, 404);
+
+  return c.json({
+    ...dispute,
+    validators: getValidators(dispute.id),
+    evidence: getEvidence(dispute.id),
+    votes: currentVotes(dispute.id),
+    voteHistory: getVotes(dispute.id),
+  });
 });
 
 // --- GET: Subscriptions ---
@@ -284,7 +541,8 @@ app.get('/api/subscriptions', async (c) => {
     results = await db.select().from(subscriptions).limit(limit).offset(offset).all();
   }
 
-  return c.json({ data: results, count: results.length, limit, offset });
+  const data = results.map(r => serializeMoney(r, r.currency ?? DEFAULT_CURRENCY));
+  return c.json({ data, count: data.length, limit, offset });
 });
 
 app.get('/api/subscriptions/:id', async (c) => {
@@ -292,7 +550,7 @@ app.get('/api/subscriptions/:id', async (c) => {
   const result = await db.select().from(subscriptions).where(eq(subscriptions.id, id)).limit(1).get();
   
   if (!result) return c.json({ error: 'Subscription not found' }, 404);
-  return c.json(result);
+  return c.json(serializeMoney(result, result.currency ?? DEFAULT_CURRENCY));
 });
 
 // --- GET: Transactions ---
@@ -312,57 +570,324 @@ app.get('/api/transactions', async (c) => {
     results = await db.select().from(transactions).orderBy(desc(transactions.timestamp)).limit(limit).offset(offset).all();
   }
 
+  const data = results.map(serializeTransaction);
+  return c.json({ data, count: data.length, limit, offset });
+});
+
+app.get('/api/transactions/:id', async (c) => {
+  const result = await db.select().from(transactions).where(eq(transactions.id, c.req.param('id'))).limit(1).get();
+  if (!result) return c.json({ error: 'Transaction not found' }, 404);
+
+  return c.json({
+    ...serializeTransaction(result),
+    lines: serializeMoney(getPaymentLines(result.id), result.currency ?? DEFAULT_CURRENCY),
+    refunds: getRefunds(result.id).map(serializeTransaction),
+  });
+});
+
+// --- GET: Authorization holds ---
+app.get('/api/holds', async (c) => {
+  const allowanceId = c.req.query('allowanceId');
+  const agentId = c.req.query('agentId');
+  const status = c.req.query('status');
+  const limit = parseInt(c.req.query('limit') || '50');
+  const offset = parseInt(c.req.query('offset') || '0');
+
+  await expireHolds();
+
+  let results;
+
+  if (allowanceId) {
+    results = await db.select().from(spendHolds).where(eq(spendHolds.allowanceId, allowanceId)).orderBy(desc(spendHolds.createdAt)).limit(limit).offset(offset).all();
+  } else if (agentId) {
+    results = await db.select().from(spendHolds).where(eq(spendHolds.agentId, agentId)).orderBy(desc(spendHolds.createdAt)).limit(limit).offset(offset).all();
+  } else if (status) {
+    results = await db.select().from(spendHolds).where(eq(spendHolds.status, status)).orderBy(desc(spendHolds.createdAt)).limit(limit).offset(offset).all();
+  } else {
+    results = await db.select().from(spendHolds).orderBy(desc(spendHolds.createdAt)).limit(limit).offset(offset).all();
+  }
+
+  const data = results.map(r => serializeMoney(r, r.currency ?? DEFAULT_CURRENCY));
+  return c.json({ data, count: data.length, limit, offset });
+});
+
+app.get('/api/holds/:id', async (c) => {
+  const id = c.req.param('id');
+  await expireHolds();
+  const result = await db.select().from(spendHolds).where(eq(spendHolds.id, id)).limit(1).get();
+
+  if (!result) return c.json({ error: 'Hold not found' }, 404);
+  return c.json(serializeMoney(result, result.currency ?? DEFAULT_CURRENCY));
+});
+
+// --- GET: Approval queue ---
+app.get('/api/approvals', async (c) => {
+  const allowanceId = c.req.query('allowanceId');
+  const agentId = c.req.query('agentId');
+  const status = c.req.query('status');
+  const limit = parseInt(c.req.query('limit') || '50');
+  const offset = parseInt(c.req.query('offset') || '0');
+
+  let results;
+
+  if (allowanceId) {
+    results = await db.select().from(spendApprovals).where(eq(spendApprovals.allowanceId, allowanceId)).orderBy(desc(spendApprovals.createdAt)).limit(limit).offset(offset).all();
+  } else if (agentId) {
+    results = await db.select().from(spendApprovals).where(eq(spendApprovals.agentId, agentId)).orderBy(desc(spendApprovals.createdAt)).limit(limit).offset(offset).all();
+  } else if (status) {
+    results = await db.select().from(spendApprovals).where(eq(spendApprovals.status, status)).orderBy(desc(spendApprovals.createdAt)).limit(limit).offset(offset).all();
+  } else {
+    results = await db.select().from(spendApprovals).orderBy(desc(spendApprovals.createdAt)).limit(limit).offset(offset).all();
+  }
+
+  const data = results.map(r => serializeMoney(r, r.currency ?? DEFAULT_CURRENCY));
+  return c.json({ data, count: data.length, limit, offset });
+});
+
+app.get('/api/approvals/:id', async (c) => {
+  const id = c.req.param('id');
+  const result = await db.select().from(spendApprovals).where(eq(spendApprovals.id, id)).limit(1).get();
+
+  if (!result) return c.json({ error: 'Approval not found' }, 404);
+  return c.json({ ...serializeMoney(result, result.currency ?? DEFAULT_CURRENCY), votes: getApprovalVotes(id) });
+});
+
+// --- GET: Double-entry ledger ---
+app.get('/api/ledger/accounts', async (c) => {
+  const kind = c.req.query('kind') as AccountKind | undefined;
+  const ref = c.req.query('ref');
+  const currency = c.req.query('currency');
+  const limit = parseInt(c.req.query('limit') || '50');
+  const offset = parseInt(c.req.query('offset') || '0');
+
+  if (kind && !ACCOUNT_KINDS.includes(kind)) {
+    return c.json({ error: `kind must be one of ${ACCOUNT_KINDS.join(', ')}` }, 400);
+  }
+
+  const results = await db.select().from(ledgerAccounts)
+    .where(and(
+      kind ? eq(ledgerAccounts.kind, kind) : undefined,
+      ref ? eq(ledgerAccounts.ref, ref) : undefined,
+      currency ? eq(ledgerAccounts.currency, currency) : undefined,
+    ))
+    .limit(limit)
+    .offset(offset)
+    .all();
+
   return c.json({ data: results, count: results.length, limit, offset });
 });
 
+// Balance as of `at` (ms timestamp, default now)
+app.get('/api/ledger/accounts/:id', async (c) => {
+  const account = getAccountById(c.req.param('id'));
+  if (!account) return c.json({ error: 'Account not found' }, 404);
+
+  const at = c.req.query('at') ? Number(c.req.query('at')) : Date.now();
+  if (!Number.isFinite(at)) return c.json({ error: 'at must be a timestamp in milliseconds' }, 400);
+
+  return c.json(serializeMoney({ ...account, at, ...accountBalance(account.id, at) }, account.currency));
+});
+
+app.get('/api/ledger/trial-balance', async (c) => {
+  const currency = c.req.query('currency');
+  const at = c.req.query('at') ? Number(c.req.query('at')) : Date.now();
+  if (!Number.isFinite(at)) return c.json({ error: 'at must be a timestamp in milliseconds' }, 400);
+
+  const balances = trialBalance(at, currency).map(b => serializeMoney(b, b.currency));
+  return c.json({ at, balanced: balances.every(b => b.balanced), currencies: balances });
+});
+
+app.get('/api/ledger/entries', async (c) => {
+  const transactionId = c.req.query('transactionId');
+  const invoiceId = c.req.query('invoiceId');
+  const subscriptionId = c.req.query('subscriptionId');
+  const holdId = c.req.query('holdId');
+  const withdrawalId = c.req.query('withdrawalId');
+  const limit = parseInt(c.req.query('limit') || '50');
+  const offset = parseInt(c.req.query('offset') || '0');
+
+  const results = await db.select().from(journalEntries)
+    .where(and(
+      transactionId ? eq(journalEntries.transactionId, transactionId) : undefined,
+      invoiceId ? eq(journalEntries.invoiceId, invoiceId) : undefined,
+      subscriptionId ? eq(journalEntries.subscriptionId, subscriptionId) : undefined,
+      holdId ? eq(journalEntries.holdId, holdId) : undefined,
+      withdrawalId ? eq(journalEntries.withdrawalId, withdrawalId) : undefined,
+    ))
+    .orderBy(desc(journalEntries.createdAt))
+    .limit(limit)
+    .offset(offset)
+    .all();
+
+  const data = results.map(entry => serializeMoney({ ...entry, postings: getEntryPostings(entry.id) }, entry.currency));
+  return c.json({ data, count: data.length, limit, offset });
+});
+
+// --- GET: Platform fees ---
+app.get('/api/fees/schedules', async (c) => {
+  const scope = c.req.query('scope');
+  if (scope && !FEE_SCOPES.includes(scope as FeeScope)) {
+    return c.json({ error: `Unknown scope '${scope}'`, scopes: FEE_SCOPES }, 400);
+  }
+
+  const data = listSchedules(scope as FeeScope | undefined)
+    .map(s => serializeMoney(s, s.currency ?? DEFAULT_CURRENCY));
+  return c.json({ data, count: data.length });
+});
+
+app.get('/api/fees/report', async (c) => {
+  const from = c.req.query('from');
+  const to = c.req.query('to');
+  const currency = c.req.query('currency');
+
+  const data = feeReport(from ? parseInt(from) : undefined, to ? parseInt(to) : undefined, currency)
+    .map(r => serializeMoney(r, r.currency));
+  return c.json({ data });
+});
+
+// --- GET: FX rates ---
+app.get('/api/fx/rates', async (c) => {
+  const base = c.req.query('base');
+  const quote = c.req.query('quote');
+  const limit = parseInt(c.req.query('limit') || '50');
+  const offset = parseInt(c.req.query('offset') || '0');
+
+  const data = await db.select().from(fxRates)
+    .where(and(base ? eq(fxRates.baseCurrency, base) : undefined, quote ? eq(fxRates.quoteCurrency, quote) : undefined))
+    .orderBy(desc(fxRates.effectiveAt))
+    .limit(limit)
+    .offset(offset)
+    .all();
+  return c.json({ data, count: data.length, limit, offset });
+});
+
+app.get('/api/fx/convert', async (c) => {
+  const amount = c.req.query('amount');
+  const from = c.req.query('from');
+  const to = c.req.query('to');
+  if (!amount || !from || !to) return c.json({ error: 'amount, from and to are required' }, 400);
+
+  const atParam = c.req.query('at');
+  const at = atParam ? Number(atParam) : Date.now();
+  if (!Number.isInteger(at)) return c.json({ error: 'at must be a timestamp in milliseconds' }, 400);
+
+  const conversion = convert(toUnits(amount, from), from, to, at);
+  if (!conversion) return c.json({ error: `No FX rate from ${from} to ${to}` }, 404);
+  return c.json({
+    ...conversion,
+    originalAmount: formatUnits(conversion.originalAmount, from),
+    amount: formatUnits(conversion.amount, to),
+  });
+});
+
 // --- GET: Agent Summary (spending overview for an agent) ---
 app.get('/api/agents/:agentId/summary', async (c) => {
   const agentId = c.req.param('agentId');
   
-  // Get allowance
-  const allowance = await db.select().from(allowances).where(eq(allowances.agentId, agentId)).limit(1).get();
+  // Get the allowance a spend would try first, with counters rolled into the current periods
+  const ranked = rankAllowances(agentId, c.req.query('category'));
+  const allowance = ranked.length > 0 ? rollPeriods(ranked[0].allowance) : undefined;
+  const now = Date.now();
+  const currency = allowance?.currency ?? DEFAULT_CURRENCY;
+  const budgets = allowance
+    ? Object.fromEntries(PERIODS.map(p => [p, effectiveLimit(allowance, p, now)]))
+    : undefined;
   
   // Get active subscriptions count
   const activeSubs = await db.select().from(subscriptions).where(eq(subscriptions.subscriberId, agentId)).all();
   const activeSubsCount = activeSubs.filter(s => s.status === 'active').length;
   
   // Get unpaid invoices
-  const unpaidInvoices = await db.select().from(invoices).where(eq(invoices.recipientId, agentId)).all();
-  const unpaidCount = unpaidInvoices.filter(i => i.status === 'sent').length;
-  const unpaidAmount = unpaidInvoices.filter(i => i.status === 'sent').reduce((sum, i) => sum + i.amount, 0);
+  const unpaidInvoices = (await db.select().from(invoices).where(eq(invoices.recipientId, agentId)).all())
+    .filter(i => i.status === 'sent' || i.status === 'partially_paid');
+  const unpaidCount = unpaidInvoices.length;
+  
+  // Amounts in different currencies are never added together; a part-paid invoice counts what is outstanding
+  const unpaidAmount: Record<string, bigint> = {};
+  for (const i of unpaidInvoices) {
+    const currency = i.currency ?? DEFAULT_CURRENCY;
+    unpaidAmount[currency] = (unpaidAmount[currency] ?? 0n) + i.amount - (i.paidAmount ?? 0n);
+  }
   
   // Monthly recurring cost
-  const monthlyCost = activeSubs.reduce((sum, s) => {
-    if (s.status !== 'active') return sum;
-    if (s.interval === 'daily') return sum + (s.amount * 30);
-    if (s.interval === 'weekly') return sum + (s.amount * 4);
-    return sum + s.amount;
-  }, 0);
+  const monthlyCost: Record<string, bigint> = {};
+  for (const s of activeSubs.filter(s => s.status === 'active')) {
+    const currency = s.currency ?? DEFAULT_CURRENCY;
+    const monthly = s.interval === 'daily' ? s.amount * 30n : s.interval === 'weekly' ? s.amount * 4n : s.amount;
+    monthlyCost[currency] = (monthlyCost[currency] ?? 0n) + monthly;
+  }
 
   return c.json({
     agentId,
-    allowance: allowance || null,
-    spending: {
-      today: allowance?.spentToday || 0,
-      thisWeek: allowance?.spentThisWeek || 0,
-      thisMonth: allowance?.spentThisMonth || 0,
-    },
-    limits: {
-      daily: allowance?.dailyLimit || 0,
-      weekly: allowance?.weeklyLimit || 0,
-      monthly: allowance?.monthlyLimit || 0,
-    },
+    currency: allowance ? currency : null,
+    allowance: allowance ? serializeMoney(allowance, currency) : null,
+    selection: ranked.map(({ allowance: a, reason }) => ({
+      allowanceId: a.id,
+      ownerId: a.ownerId,
+      isDefault: a.isDefault ?? false,
+      priority: a.priority ?? 0,
+      status: a.status,
+      reason,
+    })),
+    spending: serializeMoney({
+      today: allowance?.spentToday ?? 0n,
+      thisWeek: allowance?.spentThisWeek ?? 0n,
+      thisMonth: allowance?.spentThisMonth ?? 0n,
+      held: allowance ? heldAmount(allowance.id, now) : 0n,
+    }, currency),
+    limits: serializeMoney({
+      daily: budgets?.daily.effective ?? 0n,
+      weekly: budgets?.weekly.effective ?? 0n,
+      monthly: budgets?.monthly.effective ?? 0n,
+    }, currency),
+    rollover: allowance?.rollover && budgets ? serializeMoney(budgets, currency) : null,
+    resetsAt: allowance
+      ? Object.fromEntries(PERIODS.map(p => [p, periodBounds(p, now, allowance.timezone ?? DEFAULT_TIMEZONE).end]))
+      : null,
+    categories: allowance ? serializeMoney(getCategoryUsage(allowance, now), currency) : [],
     subscriptions: {
       active: activeSubsCount,
-      monthlyRecurring: monthlyCost,
+      monthlyRecurring: Object.fromEntries(Object.entries(monthlyCost).map(([cur, amount]) => [cur, formatUnits(amount, cur)])),
     },
     invoices: {
       unpaidCount,
-      unpaidAmount,
+      unpaidAmount: Object.fromEntries(Object.entries(unpaidAmount).map(([cur, amount]) => [cur, formatUnits(amount, cur)])),
     },
+    balances: getBalances(agentId, now).map(b => serializeMoney(b, b.currency)),
   });
 });
 
+// --- GET: Prepaid balances ---
+app.get('/api/agents/:agentId/balances', async (c) => {
+  const agentId = c.req.param('agentId');
+  const data = getBalances(agentId).map(b => serializeMoney(b, b.currency));
+  return c.json({ agentId, data });
+});
+
+app.get('/api/agents/:agentId/balance-history', async (c) => {
+  const currency = c.req.query('currency');
+  const limit = parseInt(c.req.query('limit') || '50');
+  const offset = parseInt(c.req.query('offset') || '0');
+
+  const data = getBalanceHistory(c.req.param('agentId'), currency, limit, offset).map(e => serializeMoney(e, e.currency));
+  return c.json({ data, count: data.length, limit, offset });
+});
+
+app.get('/api/agents/:agentId/withdrawals', async (c) => {
+  const status = c.req.query('status');
+  const limit = parseInt(c.req.query('limit') || '50');
+  const offset = parseInt(c.req.query('offset') || '0');
+
+  const results = await db.select().from(withdrawals)
+    .where(and(eq(withdrawals.agentId, c.req.param('agentId')), status ? eq(withdrawals.status, status) : undefined))
+    .orderBy(desc(withdrawals.createdAt))
+    .limit(limit)
+    .offset(offset)
+    .all();
+  const data = results.map(w => serializeMoney(w, w.currency));
+  return c.json({ data, count: data.length, limit, offset });
+});
+
 // --- On-chain balance endpoints ---
 app.get('/api/wallet/:address/balance', async (c) => {
   const address = c.req.param('address');
@@ -493,10 +1018,22 @@ app.get('/api/docs', (c) => {
 
 // --- API: Allowances ---
 app.post('/allowances', async (c) => {
-  const body = await c.req.json();
-  const { agentId, ownerId, dailyLimit } = body;
+  const parsed = createAllowanceSchema.safeParse(await c.req.json());
+  if (!parsed.success) return c.json({ error: 'Invalid request', details: parsed.error.flatten() }, 400);
+  const {
+    agentId, ownerId, dailyLimit, weeklyLimit, monthlyLimit, currency, timezone,
+    categoryLimits, recipientPolicy, allowedRecipients, deniedRecipients,
+    approvalThreshold, approvalsRequired, approvers,
+    rollover, rolloverCapPercent, rolloverExpiryHours, poolId, isDefault, priority,
+    maxTxPerMinute, maxTxPerHour, maxSingleAmount, anomalyMultiplier, cooldownAfterDenials, cooldownMinutes,
+    startsAt, expiresAt, activeHoursStart, activeHoursEnd, activeWeekdays, warningThresholds,
+  } = parsed.data;
 
-  if (!agentId || !ownerId) return c.json({ error: 'Missing fields' }, 400);
+  if (poolId) {
+    const pool = getPool(poolId);
+    if (!pool) return c.json({ error: 'Pool not found' }, 400);
+    if (pool.currency !== currency) return c.json({ error: `Pool is in ${pool.currency}, not ${currency}` }, 400);
+  }
 
   const id = uuidv4();
   try {
@@ -504,10 +1041,46 @@ app.post('/allowances', async (c) => {
       id,
       agentId,
       ownerId,
-      dailyLimit: dailyLimit || 0,
+      dailyLimit: toUnits(dailyLimit, currency),
+      weeklyLimit: toUnits(weeklyLimit, currency),
+      monthlyLimit: toUnits(monthlyLimit, currency),
+      currency,
+      timezone,
+      recipientPolicy,
+      approvalThreshold: toUnits(approvalThreshold, currency),
+      approvalsRequired,
+      rollover,
+      rolloverCapPercent,
+      rolloverExpiryHours,
+      poolId,
+      priority,
+      maxTxPerMinute,
+      maxTxPerHour,
+      maxSingleAmount: toUnits(maxSingleAmount, currency),
+      anomalyMultiplier,
+      cooldownAfterDenials,
+      cooldownMinutes,
+      startsAt,
+      expiresAt,
+      activeHoursStart,
+      activeHoursEnd,
+      activeWeekdays: activeWeekdays?.join(','),
+      warningThresholds: warningThresholds.join(','),
       createdAt: Date.now(),
       status: 'active'
     }).run();
+    for (const { category, blocked, ...limits } of categoryLimits) {
+      await setCategoryLimit(id, category, {
+        dailyLimit: toUnits(limits.dailyLimit, currency),
+        weeklyLimit: toUnits(limits.weeklyLimit, currency),
+        monthlyLimit: toUnits(limits.monthlyLimit, currency),
+        blocked,
+      });
+    }
+    for (const recipient of allowedRecipients) await setRecipientRule(id, recipient, 'allow');
+    for (const recipient of deniedRecipients) await setRecipientRule(id, recipient, 'deny');
+    if (approvers.length > 0) await setApprovers(id, approvers);
+    if (isDefault) setDefaultAllowance(agentId, id);
     return c.json({ success: true, allowanceId: id });
   } catch (e) {
     console.error(e);
@@ -515,18 +1088,386 @@ app.post('/allowances', async (c) => {
   }
 });
 
-// --- API: Invoices ---
-app.post('/invoices', async (c) => {
-  const body = await c.req.json();
-  const { issuerId, recipientId, amount } = body;
+app.patch('/api/allowances/:id', async (c) => {
+  const id = c.req.param('id');
+  const parsed = updateAllowanceSchema.safeParse(await c.req.json());
+  if (!parsed.success) return c.json({ error: 'Invalid request', details: parsed.error.flatten() }, 400);
+
+  const existing = await db.select().from(allowances).where(eq(allowances.id, id)).limit(1).get();
+  if (!existing) return c.json({ error: 'Allowance not found' }, 404);
+  if (existing.status === 'expired') return c.json({ error: 'Allowance has expired' }, 409);
+  const currency = existing.currency ?? DEFAULT_CURRENCY;
+  if (parsed.data.poolId) {
+    const pool = getPool(parsed.data.poolId);
+    if (!pool) return c.json({ error: 'Pool not found' }, 400);
+    if (pool.currency !== currency) return c.json({ error: `Pool is in ${pool.currency}, not ${currency}` }, 400);
+  }
+
+  // Only one allowance per agent can be the default
+  if (parsed.data.isDefault) setDefaultAllowance(existing.agentId, id);
+
+  const { activeWeekdays, warningThresholds, dailyLimit, weeklyLimit, monthlyLimit, approvalThreshold, maxSingleAmount, ...fields } = parsed.data;
+  const amounts = {
+    dailyLimit: optionalUnits(dailyLimit, currency),
+    weeklyLimit: optionalUnits(weeklyLimit, currency),
+    monthlyLimit: optionalUnits(monthlyLimit, currency),
+    approvalThreshold: optionalUnits(approvalThreshold, currency),
+    maxSingleAmount: optionalUnits(maxSingleAmount, currency),
+  };
+  const updates: Partial<typeof allowances.$inferInsert> = Object.fromEntries(
+    Object.entries({ ...fields, ...amounts }).filter(([, value]) => value !== undefined)
+  );
+  if (activeWeekdays !== undefined) updates.activeWeekdays = activeWeekdays?.join(',') ?? null;
+  if (warningThresholds !== undefined) updates.warningThresholds = warningThresholds.join(',');
+
+  const startsAt = updates.startsAt !== undefined ? updates.startsAt : existing.startsAt;
+  const expiresAt = updates.expiresAt !== undefined ? updates.expiresAt : existing.expiresAt;
+  if (startsAt && expiresAt && expiresAt <= startsAt) return c.json({ error: 'expiresAt must be after startsAt' }, 400);
+  const hoursStart = updates.activeHoursStart !== undefined ? updates.activeHoursStart : existing.activeHoursStart;
+  const hoursEnd = updates.activeHoursEnd !== undefined ? updates.activeHoursEnd : existing.activeHoursEnd;
+  if ((hoursStart == null) !== (hoursEnd == null)) {
+    return c.json({ error: 'activeHoursStart and activeHoursEnd must be set together' }, 400);
+  }
+
+  if (Object.keys(updates).length === 0) return c.json(serializeMoney(rollPeriods(existing), currency));
+  // Resuming an allowance also lifts any denial cooldown
+  if (updates.status === 'active') updates.cooldownUntil = null;
+
+  const updated = await db.update(allowances).set(updates).where(eq(allowances.id, id)).returning().get();
+  return c.json(serializeMoney(rollPeriods(updated), currency));
+});
+
+// --- API: Recipient lists ---
+app.post('/api/allowances/:id/recipients', async (c) => {
+  const id = c.req.param('id');
+  const parsed = recipientRuleSchema.safeParse(await c.req.json());
+  if (!parsed.success) return c.json({ error: 'Invalid request', details: parsed.error.flatten() }, 400);
+
+  const allowance = await db.select().from(allowances).where(eq(allowances.id, id)).limit(1).get();
+  if (!allowance) return c.json({ error: 'Allowance not found' }, 404);
+
+  const result = await setRecipientRule(id, parsed.data.recipient, parsed.data.kind);
+  if (result.success) return c.json(result);
+  return c.json(result, 500);
+});
+
+app.delete('/api/allowances/:id/recipients/:recipient', async (c) => {
+  const result = await removeRecipientRule(c.req.param('id'), c.req.param('recipient'));
+  if (result.success) return c.json(result);
+  return c.json(result, result.error === 'Database error' ? 500 : 404);
+});
+
+// --- API: Budget pools ---
+app.post('/api/pools', async (c) => {
+  const parsed = createPoolSchema.safeParse(await c.req.json());
+  if (!parsed.success) return c.json({ error: 'Invalid request', details: parsed.error.flatten() }, 400);
+
+  const { currency, dailyLimit, weeklyLimit, monthlyLimit, ...fields } = parsed.data;
+  const result = await createPool({
+    ...fields,
+    currency,
+    dailyLimit: toUnits(dailyLimit, currency),
+    weeklyLimit: toUnits(weeklyLimit, currency),
+    monthlyLimit: toUnits(monthlyLimit, currency),
+  });
+  if (result.success) return c.json(result);
+  return c.json(result, result.error === 'Database error' ? 500 : 400);
+});
 
-  if (!issuerId || !recipientId || !amount) return c.json({ error: 'Missing fields' }, 400);
+app.patch('/api/pools/:id', async (c) => {
+  const parsed = updatePoolSchema.safeParse(await c.req.json());
+  if (!parsed.success) return c.json({ error: 'Invalid request', details: parsed.error.flatten() }, 400);
 
-  const result = await createInvoice(issuerId, recipientId, amount);
+  const pool = getPool(c.req.param('id'));
+  if (!pool) return c.json({ error: 'Pool not found' }, 404);
+
+  const currency = pool.currency ?? DEFAULT_CURRENCY;
+  const { dailyLimit, weeklyLimit, monthlyLimit, ...fields } = parsed.data;
+  const result = await updatePool(pool.id, {
+    ...fields,
+    dailyLimit: optionalUnits(dailyLimit, currency),
+    weeklyLimit: optionalUnits(weeklyLimit, currency),
+    monthlyLimit: optionalUnits(monthlyLimit, currency),
+  });
+  if (result.success) return c.json({ ...result, pool: result.pool && serializeMoney(result.pool, currency) });
+  return c.json(result, result.error === 'Pool not found' ? 404 : result.error === 'Database error' ? 500 : 400);
+});
+
+// --- API: Approvals ---
+app.put('/api/allowances/:id/approvers', async (c) => {
+  const id = c.req.param('id');
+  const parsed = setApproversSchema.safeParse(await c.req.json());
+  if (!parsed.success) return c.json({ error: 'Invalid request', details: parsed.error.flatten() }, 400);
+
+  const allowance = await db.select().from(allowances).where(eq(allowances.id, id)).limit(1).get();
+  if (!allowance) return c.json({ error: 'Allowance not found' }, 404);
+
+  const result = await setApprovers(id, parsed.data.approvers);
   if (result.success) return c.json(result);
   return c.json(result, 500);
 });
 
+const approvalErrorStatus = (error?: string) =>
+  error === 'Approval not found' ? 404 : error === 'Not a designated approver' ? 403 : error === 'Database error' ? 500 : 409;
+
+app.post('/api/approvals/:id/approve', async (c) => {
+  const parsed = approvalDecisionSchema.safeParse(await c.req.json());
+  if (!parsed.success) return c.json({ error: 'Invalid request', details: parsed.error.flatten() }, 400);
+
+  const result = await decideApproval(c.req.param('id'), parsed.data.approverId, 'approve', parsed.data.comment);
+  if (result.success) return c.json(result);
+  return c.json(result, approvalErrorStatus(result.error));
+});
+
+app.post('/api/approvals/:id/reject', async (c) => {
+  const parsed = approvalDecisionSchema.safeParse(await c.req.json());
+  if (!parsed.success) return c.json({ error: 'Invalid request', details: parsed.error.flatten() }, 400);
+
+  const result = await decideApproval(c.req.param('id'), parsed.data.approverId, 'reject', parsed.data.comment);
+  if (result.success) return c.json(result);
+  return c.json(result, approvalErrorStatus(result.error));
+});
+
+// --- API: Category limits ---
+app.put('/api/allowances/:id/categories/:category', async (c) => {
+  const id = c.req.param('id');
+  const category = c.req.param('category');
+  const parsed = categoryLimitSchema.safeParse(await c.req.json());
+  if (!parsed.success) return c.json({ error: 'Invalid request', details: parsed.error.flatten() }, 400);
+
+  const allowance = await db.select().from(allowances).where(eq(allowances.id, id)).limit(1).get();
+  if (!allowance) return c.json({ error: 'Allowance not found' }, 404);
+
+  const currency = allowance.currency ?? DEFAULT_CURRENCY;
+  const result = await setCategoryLimit(id, category, {
+    dailyLimit: toUnits(parsed.data.dailyLimit, currency),
+    weeklyLimit: toUnits(parsed.data.weeklyLimit, currency),
+    monthlyLimit: toUnits(parsed.data.monthlyLimit, currency),
+    blocked: parsed.data.blocked,
+  });
+  if (result.success) return c.json(serializeMoney(result, currency));
+  return c.json(result, 500);
+});
+
+app.delete('/api/allowances/:id/categories/:category', async (c) => {
+  const result = await removeCategoryLimit(c.req.param('id'), c.req.param('category'));
+  if (result.success) return c.json(result);
+  return c.json(result, result.error === 'Database error' ? 500 : 404);
+});
+
+// --- API: Authorization holds ---
+app.post('/api/holds', async (c) => {
+  const parsed = createHoldSchema.safeParse(await c.req.json());
+  if (!parsed.success) return c.json({ error: 'Invalid request', details: parsed.error.flatten() }, 400);
+  const { agentId, amount, currency, category, recipient, allowanceId, ttlSeconds } = parsed.data;
+
+  const result = await authorizeHold(agentId, toUnits(amount, currency), category, recipient, allowanceId, ttlSeconds, { currency });
+  if (result.success) return c.json(result);
+  if (result.approvalId) return c.json({ ...result, status: 'pending_approval' }, 202);
+  return c.json(result, 400);
+});
+
+app.post('/api/holds/:id/capture', async (c) => {
+  const parsed = captureHoldSchema.safeParse(await c.req.json().catch(() => ({})));
+  if (!parsed.success) return c.json({ error: 'Invalid request', details: parsed.error.flatten() }, 400);
+
+  const hold = await db.select().from(spendHolds).where(eq(spendHolds.id, c.req.param('id'))).limit(1).get();
+  if (!hold) return c.json({ error: 'Hold not found' }, 404);
+
+  const result = await captureHold(hold.id, optionalUnits(parsed.data.amount, hold.currency ?? DEFAULT_CURRENCY));
+  if (result.success) return c.json(result);
+  return c.json(result, result.error === 'Hold not found' ? 404 : 400);
+});
+
+app.post('/api/holds/:id/void', async (c) => {
+  const result = await voidHold(c.req.param('id'));
+  if (result.success) return c.json(result);
+  return c.json(result, result.error === 'Hold not found' ? 404 : 400);
+});
+
+// --- API: Spend simulation ---
+app.post('/api/spends/simulate', async (c) => {
+  const parsed = simulateSpendSchema.safeParse(await c.req.json());
+  if (!parsed.success) return c.json({ error: 'Invalid request', details: parsed.error.flatten() }, 400);
+
+  const { agentId, currency, ...rest } = parsed.data;
+  const spends = ('spends' in rest ? rest.spends : [rest]).map(spend => ({ ...spend, amount: toUnits(spend.amount, currency) }));
+  return c.json(serializeMoney(await simulateSpends(agentId, spends, currency), currency));
+});
+
+// --- API: Prepaid balances ---
+// Platform holders are paid out only through the fee withdrawal route
+const PLATFORM_HOLDER_ERROR = 'Platform accounts cannot be funded or drawn on here';
+
+app.post('/api/agents/:agentId/deposits', async (c) => {
+  if (isPlatformHolder(c.req.param('agentId'))) return c.json({ error: PLATFORM_HOLDER_ERROR }, 400);
+  const parsed = depositSchema.safeParse(await c.req.json());
+  if (!parsed.success) return c.json({ error: 'Invalid request', details: parsed.error.flatten() }, 400);
+
+  const { amount, currency, reference } = parsed.data;
+  const result = await deposit(c.req.param('agentId'), currency, toUnits(amount, currency), reference);
+  return c.json(serializeMoney(result, currency), result.success ? 200 : result.error === 'Database error' ? 500 : 400);
+});
+
+app.post('/api/agents/:agentId/transfers', async (c) => {
+  if (isPlatformHolder(c.req.param('agentId'))) return c.json({ error: PLATFORM_HOLDER_ERROR }, 400);
+  const parsed = transferSchema.safeParse(await c.req.json());
+  if (!parsed.success) return c.json({ error: 'Invalid request', details: parsed.error.flatten() }, 400);
+
+  const { toAgentId, amount, currency, reference } = parsed.data;
+  const result = await transfer(c.req.param('agentId'), toAgentId, currency, toUnits(amount, currency), reference);
+  return c.json(serializeMoney(result, currency), result.success ? 200 : result.error === 'Database error' ? 500 : 400);
+});
+
+app.post('/api/agents/:agentId/withdrawals', async (c) => {
+  if (isPlatformHolder(c.req.param('agentId'))) return c.json({ error: PLATFORM_HOLDER_ERROR }, 400);
+  const parsed = withdrawalSchema.safeParse(await c.req.json());
+  if (!parsed.success) return c.json({ error: 'Invalid request', details: parsed.error.flatten() }, 400);
+
+  const { amount, currency, destination } = parsed.data;
+  const result = await requestWithdrawal(c.req.param('agentId'), currency, toUnits(amount, currency), destination);
+  return c.json(serializeMoney(result, currency), result.success ? 200 : result.error === 'Database error' ? 500 : 400);
+});
+
+const withdrawalErrorStatus = (error?: string) =>
+  error === 'Withdrawal not found' ? 404 : error === 'Database error' ? 500 : 409;
+
+app.post('/api/withdrawals/:id/complete', async (c) => {
+  const result = await settleWithdrawal(c.req.param('id'), 'completed');
+  const currency = result.withdrawal?.currency ?? DEFAULT_CURRENCY;
+  return c.json(serializeMoney(result, currency), result.success ? 200 : withdrawalErrorStatus(result.error));
+});
+
+app.post('/api/withdrawals/:id/cancel', async (c) => {
+  const result = await settleWithdrawal(c.req.param('id'), 'cancelled');
+  const currency = result.withdrawal?.currency ?? DEFAULT_CURRENCY;
+  return c.json(serializeMoney(result, currency), result.success ? 200 : withdrawalErrorStatus(result.error));
+});
+
+// --- API: Platform fees ---
+app.post('/api/fees/schedules', async (c) => {
+  const parsed = feeScheduleSchema.safeParse(await c.req.json());
+  if (!parsed.success) return c.json({ error: 'Invalid request', details: parsed.error.flatten() }, 400);
+
+  const { flatAmount, tiers, ...rest } = parsed.data;
+  const currency = rest.currency ?? DEFAULT_CURRENCY;
+  const result = await createSchedule({
+    ...rest,
+    flatAmount: optionalUnits(flatAmount, currency),
+    tiers: tiers?.map(t => ({ bps: t.bps, upTo: optionalUnits(t.upTo, currency), flatAmount: optionalUnits(t.flatAmount, currency) })),
+  });
+  return c.json(serializeMoney(result, currency), result.success ? 200 : result.error === 'Database error' ? 500 : 400);
+});
+
+app.delete('/api/fees/schedules/:id', async (c) => {
+  const result = await deleteSchedule(c.req.param('id'));
+  return c.json(result, result.success ? 200 : result.error === 'Database error' ? 500 : 404);
+});
+
+app.post('/api/fees/withdrawals', async (c) => {
+  const parsed = withdrawalSchema.safeParse(await c.req.json());
+  if (!parsed.success) return c.json({ error: 'Invalid request', details: parsed.error.flatten() }, 400);
+
+  const { amount, currency, destination } = parsed.data;
+  const result = await withdrawFees(currency, toUnits(amount, currency), destination);
+  return c.json(serializeMoney(result, currency), result.success ? 200 : result.error === 'Database error' ? 500 : 400);
+});
+
+// --- API: FX rates ---
+app.post('/api/fx/rates', async (c) => {
+  const parsed = fxRateSchema.safeParse(await c.req.json());
+  if (!parsed.success) return c.json({ error: 'Invalid request', details: parsed.error.flatten() }, 400);
+
+  const { base, quote, rate, effectiveAt } = parsed.data;
+  const result = await setRate(base, quote, rate, effectiveAt);
+  if (result.success) return c.json(result);
+  return c.json(result, result.error === 'Database error' ? 500 : 400);
+});
+
+// --- API: Refunds ---
+const refundErrorStatus = (error?: string) =>
+  error === 'Transaction not found' || error === 'Invoice not found' ? 404
+    : error?.startsWith('Only the') ? 403
+    : error === 'Database error' ? 500 : 400;
+
+app.post('/api/transactions/:id/refund', async (c) => {
+  const parsed = refundSchema.safeParse(await c.req.json());
+  if (!parsed.success) return c.json({ error: 'Invalid request', details: parsed.error.flatten() }, 400);
+
+  const tx = await db.select().from(transactions).where(eq(transactions.id, c.req.param('id'))).limit(1).get();
+  if (!tx) return c.json({ error: 'Transaction not found' }, 404);
+
+  const currency = tx.currency ?? DEFAULT_CURRENCY;
+  const { amount, ...rest } = parsed.data;
+  const result = await refundTransaction(tx.id, { ...rest, amount: optionalUnits(amount, currency) });
+  return c.json(serializeMoney(result, result.currency ?? currency), result.success ? 200 : refundErrorStatus(result.error));
+});
+
+app.post('/api/invoices/:id/refund', async (c) => {
+  const parsed = refundSchema.safeParse(await c.req.json());
+  if (!parsed.success) return c.json({ error: 'Invalid request', details: parsed.error.flatten() }, 400);
+
+  const invoice = await db.select().from(invoices).where(eq(invoices.id, c.req.param('id'))).limit(1).get();
+  if (!invoice) return c.json({ error: 'Invoice not found' }, 404);
+
+  const currency = invoice.currency ?? DEFAULT_CURRENCY;
+  const { amount, ...rest } = parsed.data;
+  const result = await refundInvoice(invoice.id, { ...rest, amount: optionalUnits(amount, currency) });
+  return c.json(serializeMoney(result, result.currency ?? currency), result.success ? 200 : refundErrorStatus(result.error));
+});
+
+// --- API: Invoice transitions ---
+// A refused transition is a conflict with the invoice's current status and lists where it can go
+const invoiceErrorStatus = (error?: string) =>
+  error === 'Invoice not found' || error === 'Escrow not found' ? 404
+    : error?.startsWith('Only the') ? 403
+    : error === 'Database error' ? 500 : 409;
+
+const serializeTransition = (result: Awaited<ReturnType<typeof sendInvoice>>) =>
+  serializeMoney(result, result.invoice?.currency ?? DEFAULT_CURRENCY);
+
+app.post('/api/invoices/:id/send', async (c) => {
+  const parsed = invoiceTransitionSchema.safeParse(await c.req.json());
+  if (!parsed.success) return c.json({ error: 'Invalid request', details: parsed.error.flatten() }, 400);
+
+  const result = await sendInvoice(c.req.param('id'), parsed.data.actorId, parsed.data.expiresAt);
+  return c.json(serializeTransition(result), result.success ? 200 : invoiceErrorStatus(result.error));
+});
+
+app.post('/api/invoices/:id/cancel', async (c) => {
+  const parsed = invoiceTransitionSchema.safeParse(await c.req.json());
+  if (!parsed.success) return c.json({ error: 'Invalid request', details: parsed.error.flatten() }, 400);
+
+  const result = await cancelInvoice(c.req.param('id'), parsed.data.actorId, parsed.data.reason);
+  return c.json(serializeTransition(result), result.success ? 200 : invoiceErrorStatus(result.error));
+});
+
+app.post('/api/invoices/:id/void', async (c) => {
+  const parsed = invoiceTransitionSchema.safeParse(await c.req.json());
+  if (!parsed.success) return c.json({ error: 'Invalid request', details: parsed.error.flatten() }, 400);
+
+  const result = await voidInvoice(c.req.param('id'), parsed.data.actorId, parsed.data.reason);
+  return c.json(serializeTransition(result), result.success ? 200 : invoiceErrorStatus(result.error));
+});
+
+// --- API: Invoices ---
+app.post('/invoices', async (c) => {
+  const parsed = createInvoiceSchema.safeParse(await c.req.json());
+  if (!parsed.success) return c.json({ error: 'Invalid request', details: parsed.error.flatten() }, 400);
+
+  const { issuerId, recipientId, amount, currency, dueAt, lineItems, discount, ...details } = parsed.data;
+  const toDiscount = (d?: typeof discount) =>
+    d && ('amount' in d ? { amount: toUnits(d.amount, currency) } : { percent: d.percent });
+
+  const result = await createInvoice(issuerId, recipientId, optionalUnits(amount, currency) ?? 0n, dueAt, currency, {
+    ...details,
+    discount: toDiscount(discount),
+    lineItems: lineItems?.map(item => ({ ...item, unitPrice: toUnits(item.unitPrice, currency), discount: toDiscount(item.discount) })),
+  });
+  if (result.success) return c.json(serializeMoney(result, currency));
+  return c.json(result, result.error === 'Database error' ? 500 : 400);
+});
+
 app.post('/invoices/:id/send', async (c) => {
   const id = c.req.param('id');
   const result = await sendInvoice(id);
@@ -536,38 +1477,114 @@ app.post('/invoices/:id/send', async (c) => {
      return c.redirect('/');
   }
   
-  if (result.success) return c.json(result);
-  return c.json(result, 400);
+  if (result.success) return c.json(serializeTransition(result));
+  return c.json(serializeTransition(result), result.allowed ? 409 : 400);
 });
 
 app.post('/invoices/pay', async (c) => {
-  const body = await c.req.json();
-  const { invoiceId, agentId, allowanceId } = body; 
+  const parsed = payInvoiceSchema.safeParse(await c.req.json());
+  if (!parsed.success) return c.json({ error: 'Invalid request', details: parsed.error.flatten() }, 400);
 
-  if (!invoiceId || !agentId) return c.json({ error: 'Missing fields' }, 400);
+  // A partial amount is in the invoice's currency
+  const { invoiceId, agentId, allowanceId, amount } = parsed.data;
+  const invoice = await db.select().from(invoices).where(eq(invoices.id, invoiceId)).limit(1).get();
+  const currency = invoice?.currency ?? DEFAULT_CURRENCY;
 
-  const result = await payInvoice(invoiceId, agentId, allowanceId);
+  const result = serializeMoney(await payInvoice(invoiceId, agentId, allowanceId, { invoiceAmount: optionalUnits(amount, currency) }), currency);
   if (result.success) return c.json(result);
-  return c.json(result, 400);
+  if (result.approvalId) return c.json({ ...result, status: 'pending_approval' }, 202);
+  return c.json(result, result.allowed ? 409 : 400);
+});
+
+app.post('/api/invoices/:id/installments', async (c) => {
+  const parsed = installmentPlanSchema.safeParse(await c.req.json());
+  if (!parsed.success) return c.json({ error: 'Invalid request', details: parsed.error.flatten() }, 400);
+
+  const { actorId, ...plan } = parsed.data;
+  const result = await createInstallmentPlan(c.req.param('id'), actorId, plan);
+  const invoice = await db.select().from(invoices).where(eq(invoices.id, c.req.param('id'))).limit(1).get();
+  return c.json(serializeMoney(result, invoice?.currency ?? DEFAULT_CURRENCY), result.success ? 200 : invoiceErrorStatus(result.error));
+});
+
+// --- API: Escrow ---
+const serializeEscrow = (result: Awaited<ReturnType<typeof escrowInvoice>>) =>
+  serializeMoney(result, result.escrow?.currency ?? DEFAULT_CURRENCY);
+
+app.post('/api/invoices/:id/escrow', async (c) => {
+  const parsed = escrowInvoiceSchema.safeParse(await c.req.json());
+  if (!parsed.success) return c.json({ error: 'Invalid request', details: parsed.error.flatten() }, 400);
+
+  const { agentId, allowanceId, releaseAfterSeconds } = parsed.data;
+  const result = serializeEscrow(await escrowInvoice(c.req.param('id'), agentId, allowanceId, releaseAfterSeconds));
+  if (result.success) return c.json(result);
+  if (result.approvalId) return c.json({ ...result, status: 'pending_approval' }, 202);
+  if (result.error === 'Invoice not found') return c.json(result, 404);
+  return c.json(result, result.allowed ? 409 : result.error === 'Database error' ? 500 : 400);
+});
+
+app.post('/api/invoices/:id/escrow/release', async (c) => {
+  const parsed = escrowActionSchema.safeParse(await c.req.json());
+  if (!parsed.success) return c.json({ error: 'Invalid request', details: parsed.error.flatten() }, 400);
+
+  const result = await confirmDelivery(c.req.param('id'), parsed.data.actorId);
+  return c.json(serializeEscrow(result), result.success ? 200 : invoiceErrorStatus(result.error));
+});
+
+// --- API: Disputes ---
+const disputeErrorStatus = (error?: string) =>
+  error === 'Invoice not found' || error === 'Dispute not found' ? 404
+    : error?.startsWith('Only') ? 403
+    : error?.startsWith('Validators') || error?.startsWith('A dispute') ? 400
+    : error === 'Database error' ? 500 : 409;
+
+app.post('/api/invoices/:id/disputes', async (c) => {
+  const parsed = openDisputeSchema.safeParse(await c.req.json());
+  if (!parsed.success) return c.json({ error: 'Invalid request', details: parsed.error.flatten() }, 400);
+
+  const { actorId, ...request } = parsed.data;
+  const result = await openDispute(c.req.param('id'), actorId, request);
+  return c.json(result, result.success ? 200 : disputeErrorStatus(result.error));
+});
+
+app.post('/api/disputes/:id/evidence', async (c) => {
+  const parsed = addEvidenceSchema.safeParse(await c.req.json());
+  if (!parsed.success) return c.json({ error: 'Invalid request', details: parsed.error.flatten() }, 400);
+
+  const { actorId, ...evidence } = parsed.data;
+  const result = await addEvidence(c.req.param('id'), actorId, evidence);
+  return c.json(result, result.success ? 200 : disputeErrorStatus(result.error));
+});
+
+app.post('/api/disputes/:id/votes', async (c) => {
+  const parsed = disputeVoteSchema.safeParse(await c.req.json());
+  if (!parsed.success) return c.json({ error: 'Invalid request', details: parsed.error.flatten() }, 400);
+
+  const { validatorId, ...vote } = parsed.data;
+  const result = await castVote(c.req.param('id'), validatorId, vote);
+  return c.json(result, result.success ? 200 : disputeErrorStatus(result.error));
 });
 
 // --- API: Subscriptions ---
 app.post('/subscriptions', async (c) => {
   const body = await c.req.json();
-  const { subscriberId, providerId, planId, amount, interval, allowanceId } = body;
+  const { subscriberId, providerId, planId, amount, interval, allowanceId, currency = DEFAULT_CURRENCY } = body;
 
   if (!subscriberId || !providerId || !planId || !amount || !allowanceId) {
     return c.json({ error: 'Missing fields' }, 400);
   }
 
-  const result = await createSubscription(subscriberId, providerId, planId, amount, interval || 'monthly', allowanceId);
+  const result = await createSubscription(subscriberId, providerId, planId, toUnits(String(amount), currency), interval || 'monthly', allowanceId, currency);
   if (result.success) return c.json(result);
   return c.json(result, 500);
 });
 
 // --- API: Billing ---
 app.post('/billing/process', async (c) => {
-  const result = await processDueSubscriptions();
+  const result = {
+    ...await processDueSubscriptions(),
+    installments: await processDueInstallments(),
+    escrowsReleased: await releaseDueEscrows(),
+  };
   
   // If HTMX request, we can just return a success message or redirect
   if (c.req.header('hx-request')) {
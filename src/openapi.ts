@@ -2,11 +2,55 @@
  * OpenAPI 3.0 specification for Agent Financial Stack
  */
 
+import { CURRENCY_SCALES } from './core/money';
+
+const CURRENCIES = Object.keys(CURRENCY_SCALES);
+const INVOICE_STATUSES = ['draft', 'sent', 'partially_paid', 'escrowed', 'disputed', 'paid', 'partially_refunded', 'refunded', 'cancelled', 'void', 'expired'];
+
+// The send, cancel and void actions share a body and their responses
+const invoiceTransition = (summary: string, description: string, extra: Record<string, object> = {}) => ({
+  post: {
+    tags: ['Invoices'],
+    summary,
+    description,
+    security: [{ ApiKeyAuth: [] }],
+    parameters: [
+      { $ref: '#/components/parameters/IdempotencyKey' },
+      { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+    ],
+    requestBody: {
+      required: true,
+      content: {
+        'application/json': {
+          schema: {
+            type: 'object',
+            required: ['actorId'],
+            properties: {
+              actorId: { type: 'string', description: 'Issuer of the invoice; recorded in its history' },
+              reason: { type: 'string' },
+              ...extra,
+            },
+          },
+        },
+      },
+    },
+    responses: {
+      '200': { description: 'Invoice moved', content: { 'application/json': { schema: { type: 'object', properties: { success: { type: 'boolean' }, invoice: { $ref: '#/components/schemas/Invoice' } } } } } },
+      '403': { description: 'Not the issuer of the invoice' },
+      '404': { description: 'Invoice not found' },
+      '409': {
+        description: 'The invoice cannot move there from its current status',
+        content: { 'application/json': { schema: { type: 'object', properties: { error: { type: 'string' }, allowed: { type: 'array', items: { type: 'string', enum: INVOICE_STATUSES } } } } } },
+      },
+    },
+  },
+});
+
 export const openApiSpec = {
   openapi: '3.0.3',
   info: {
     title: 'Agent Financial Stack API',
-    description: 'Financial backbone for autonomous AI agents. Budget controls, invoicing, subscriptions, and on-chain settlement.',
+    description: 'Financial backbone for autonomous AI agents. Budget controls, invoicing, subscriptions, and on-chain settlement. Amounts are exact decimal strings in the currency of the allowance, invoice or subscription they belong to.',
     version: '1.4.0',
     contact: {
       name: 'Agent Financial Stack Team',
@@ -26,8 +70,17 @@ export const openApiSpec = {
   tags: [
     { name: 'Allowances', description: 'Agent spending limits and budgets' },
     { name: 'Invoices', description: 'Invoice creation and payment' },
+    { name: 'Disputes', description: 'Validator-settled invoice disputes' },
     { name: 'Subscriptions', description: 'Recurring payment management' },
     { name: 'Transactions', description: 'Transaction history' },
+    { name: 'Pools', description: 'Shared budgets for fleets of agents' },
+    { name: 'Holds', description: 'Two-phase spend authorizations' },
+    { name: 'Simulation', description: 'Dry-run spend checks' },
+    { name: 'Approvals', description: 'Owner approval queue for high-value spends' },
+    { name: 'Ledger', description: 'Double-entry accounts, journal entries and balances' },
+    { name: 'FX', description: 'Exchange rates used to charge allowances in another currency' },
+    { name: 'Balances', description: 'Prepaid agent funds: deposits, transfers, withdrawals and history' },
+    { name: 'Fees', description: 'Platform fee schedules, collected fees and fee withdrawals' },
     { name: 'On-Chain', description: 'Blockchain balance queries' },
     { name: 'Webhooks', description: 'Event notifications' },
     { name: 'System', description: 'Health and status' },
@@ -63,7 +116,8 @@ export const openApiSpec = {
         summary: 'List allowances',
         parameters: [
           { name: 'agentId', in: 'query', schema: { type: 'string' }, description: 'Filter by agent ID' },
-          { name: 'status', in: 'query', schema: { type: 'string', enum: ['active', 'paused', 'exhausted'] } },
+          { name: 'status', in: 'query', schema: { type: 'string', enum: ['active', 'paused', 'exhausted', 'expired'] } },
+          { name: 'window', in: 'query', schema: { type: 'string', enum: ['upcoming', 'current', 'expired'] }, description: 'Filter by campaign window' },
           { name: 'limit', in: 'query', schema: { type: 'integer', default: 50 } },
           { name: 'offset', in: 'query', schema: { type: 'integer', default: 0 } },
         ],
@@ -90,6 +144,7 @@ export const openApiSpec = {
         tags: ['Allowances'],
         summary: 'Create allowance',
         security: [{ ApiKeyAuth: [] }],
+        parameters: [{ $ref: '#/components/parameters/IdempotencyKey' }],
         requestBody: {
           required: true,
           content: {
@@ -100,9 +155,49 @@ export const openApiSpec = {
                 properties: {
                   agentId: { type: 'string', description: 'Agent receiving the allowance' },
                   ownerId: { type: 'string', description: 'Owner granting the allowance' },
-                  dailyLimit: { type: 'number', default: 0 },
-                  weeklyLimit: { type: 'number', default: 0 },
-                  monthlyLimit: { type: 'number', default: 0 },
+                  dailyLimit: { type: 'string', format: 'decimal', default: '0' },
+                  weeklyLimit: { type: 'string', format: 'decimal', default: '0' },
+                  monthlyLimit: { type: 'string', format: 'decimal', default: '0' },
+                  currency: { type: 'string', enum: CURRENCIES, default: 'USDC', description: 'Currency of every amount on the allowance; only spends in it can be charged' },
+                  timezone: { type: 'string', default: 'UTC', description: 'IANA timezone the daily/weekly/monthly windows follow' },
+                  categoryLimits: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      required: ['category'],
+                      properties: {
+                        category: { type: 'string' },
+                        dailyLimit: { type: 'string', format: 'decimal', default: '0' },
+                        weeklyLimit: { type: 'string', format: 'decimal', default: '0' },
+                        monthlyLimit: { type: 'string', format: 'decimal', default: '0' },
+                        blocked: { type: 'boolean', default: false },
+                      },
+                    },
+                  },
+                  recipientPolicy: { type: 'string', enum: ['open', 'allowlist', 'approval'], default: 'open' },
+                  allowedRecipients: { type: 'array', items: { type: 'string' } },
+                  deniedRecipients: { type: 'array', items: { type: 'string' } },
+                  approvalThreshold: { type: 'string', format: 'decimal', default: '0', description: 'Spends above this amount are queued for approval (0 = never)' },
+                  approvalsRequired: { type: 'integer', default: 1 },
+                  approvers: { type: 'array', items: { type: 'string' }, description: 'Defaults to the owner' },
+                  rollover: { type: 'boolean', default: false, description: 'Carry unspent budget into the next period' },
+                  rolloverCapPercent: { type: 'integer', default: 100, minimum: 0, maximum: 100, description: 'Max carry as a % of the period limit' },
+                  rolloverExpiryHours: { type: 'integer', default: 0, description: 'Carried funds lapse this many hours into the period (0 = end of period)' },
+                  poolId: { type: 'string', description: 'Budget pool this allowance draws from' },
+                  isDefault: { type: 'boolean', default: false, description: "Try this allowance first for the agent's spends" },
+                  priority: { type: 'integer', default: 0, description: 'Higher is tried first among non-default allowances' },
+                  maxTxPerMinute: { type: 'integer', default: 0, description: 'Pause the allowance above this rate (0 = off)' },
+                  maxTxPerHour: { type: 'integer', default: 0, description: 'Pause the allowance above this rate (0 = off)' },
+                  maxSingleAmount: { type: 'string', format: 'decimal', default: '0', description: 'Pause the allowance on a larger single spend (0 = off)' },
+                  anomalyMultiplier: { type: 'number', default: 0, description: 'Pause on a spend above N x the median spend (0 = off)' },
+                  cooldownAfterDenials: { type: 'integer', default: 0, description: 'Denied spends within cooldownMinutes that start a cooldown (0 = off)' },
+                  cooldownMinutes: { type: 'integer', default: 15 },
+                  startsAt: { type: 'integer', description: 'No spending before this time (ms)' },
+                  expiresAt: { type: 'integer', description: 'The allowance expires permanently at this time (ms)' },
+                  activeHoursStart: { type: 'integer', minimum: 0, maximum: 23, description: 'Local hour spending opens, in the allowance timezone' },
+                  activeHoursEnd: { type: 'integer', minimum: 1, maximum: 24, description: 'Local hour spending closes; may be earlier than the start for overnight windows' },
+                  activeWeekdays: { type: 'array', items: { type: 'string', enum: ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'] } },
+                  warningThresholds: { type: 'array', items: { type: 'integer', minimum: 1, maximum: 99 }, default: [50, 80, 95], description: '% of each period limit that fires allowance.limit_warning, once per period' },
                 },
               },
             },
@@ -115,276 +210,1835 @@ export const openApiSpec = {
         },
       },
     },
-    '/api/invoices': {
+    '/api/allowances/{id}': {
+      patch: {
+        tags: ['Allowances'],
+        summary: 'Update allowance',
+        security: [{ ApiKeyAuth: [] }],
+        parameters: [
+          { $ref: '#/components/parameters/IdempotencyKey' },
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  dailyLimit: { type: 'string', format: 'decimal' },
+                  weeklyLimit: { type: 'string', format: 'decimal' },
+                  monthlyLimit: { type: 'string', format: 'decimal' },
+                  timezone: { type: 'string' },
+                  recipientPolicy: { type: 'string', enum: ['open', 'allowlist', 'approval'] },
+                  approvalThreshold: { type: 'string', format: 'decimal' },
+                  approvalsRequired: { type: 'integer' },
+                  rollover: { type: 'boolean' },
+                  rolloverCapPercent: { type: 'integer', minimum: 0, maximum: 100 },
+                  rolloverExpiryHours: { type: 'integer', minimum: 0 },
+                  poolId: { type: 'string', nullable: true },
+                  isDefault: { type: 'boolean' },
+                  priority: { type: 'integer' },
+                  maxTxPerMinute: { type: 'integer', minimum: 0 },
+                  maxTxPerHour: { type: 'integer', minimum: 0 },
+                  maxSingleAmount: { type: 'string', format: 'decimal' },
+                  anomalyMultiplier: { type: 'number', minimum: 0 },
+                  cooldownAfterDenials: { type: 'integer', minimum: 0 },
+                  cooldownMinutes: { type: 'integer', minimum: 1 },
+                  startsAt: { type: 'integer', nullable: true },
+                  expiresAt: { type: 'integer', nullable: true },
+                  activeHoursStart: { type: 'integer', nullable: true, minimum: 0, maximum: 23 },
+                  activeHoursEnd: { type: 'integer', nullable: true, minimum: 1, maximum: 24 },
+                  activeWeekdays: { type: 'array', nullable: true, items: { type: 'string', enum: ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'] } },
+                  warningThresholds: { type: 'array', items: { type: 'integer', minimum: 1, maximum: 99 } },
+                  status: { type: 'string', enum: ['active', 'paused'], description: 'Setting active also lifts a denial cooldown' },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': { description: 'Updated allowance', content: { 'application/json': { schema: { $ref: '#/components/schemas/Allowance' } } } },
+          '400': { description: 'Invalid request' },
+          '404': { description: 'Allowance not found' },
+          '409': { description: 'Allowance has expired' },
+        },
+      },
+    },
+    '/api/allowances/{id}/violations': {
       get: {
-        tags: ['Invoices'],
-        summary: 'List invoices',
+        tags: ['Allowances'],
+        summary: 'List velocity violations',
+        description: 'Rules that paused the allowance or started a denial cooldown, newest first.',
         parameters: [
-          { name: 'issuerId', in: 'query', schema: { type: 'string' } },
-          { name: 'recipientId', in: 'query', schema: { type: 'string' } },
-          { name: 'status', in: 'query', schema: { type: 'string', enum: ['draft', 'sent', 'paid', 'cancelled'] } },
-          { name: 'limit', in: 'query', schema: { type: 'integer', default: 50 } },
-          { name: 'offset', in: 'query', schema: { type: 'integer', default: 0 } },
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
         ],
         responses: {
-          '200': { description: 'List of invoices' },
+          '200': {
+            description: 'Violations',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    data: { type: 'array', items: { $ref: '#/components/schemas/VelocityViolation' } },
+                    count: { type: 'integer' },
+                    cooldownUntil: { type: 'integer', nullable: true },
+                  },
+                },
+              },
+            },
+          },
+          '404': { description: 'Allowance not found' },
+        },
+      },
+    },
+    '/api/allowances/{id}/recipients': {
+      get: {
+        tags: ['Allowances'],
+        summary: 'List recipient allowlist, denylist and pending approvals',
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+        ],
+        responses: {
+          '200': {
+            description: 'Recipient lists',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    allowanceId: { type: 'string' },
+                    policy: { type: 'string', enum: ['open', 'allowlist', 'approval'] },
+                    allowed: { type: 'array', items: { type: 'string' } },
+                    denied: { type: 'array', items: { type: 'string' } },
+                    pending: { type: 'array', items: { type: 'string' }, description: 'Unknown recipients awaiting owner approval' },
+                  },
+                },
+              },
+            },
+          },
+          '404': { description: 'Allowance not found' },
         },
       },
       post: {
-        tags: ['Invoices'],
-        summary: 'Create invoice',
+        tags: ['Allowances'],
+        summary: 'Allow or deny a recipient',
+        description: 'Allowing a pending recipient approves it for future payments.',
         security: [{ ApiKeyAuth: [] }],
+        parameters: [
+          { $ref: '#/components/parameters/IdempotencyKey' },
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+        ],
         requestBody: {
           required: true,
           content: {
             'application/json': {
               schema: {
                 type: 'object',
-                required: ['issuerId', 'recipientId', 'amount'],
+                required: ['recipient', 'kind'],
                 properties: {
-                  issuerId: { type: 'string' },
-                  recipientId: { type: 'string' },
-                  amount: { type: 'number', minimum: 0 },
-                  currency: { type: 'string', default: 'USDC' },
-                  dueAt: { type: 'integer', description: 'Unix timestamp' },
+                  recipient: { type: 'string', description: 'Agent ID or wallet address' },
+                  kind: { type: 'string', enum: ['allow', 'deny'] },
                 },
               },
             },
           },
         },
         responses: {
-          '200': { description: 'Invoice created' },
+          '200': { description: 'Recipient rule saved' },
+          '404': { description: 'Allowance not found' },
         },
       },
     },
-    '/api/subscriptions': {
-      get: {
-        tags: ['Subscriptions'],
-        summary: 'List subscriptions',
+    '/api/allowances/{id}/recipients/{recipient}': {
+      delete: {
+        tags: ['Allowances'],
+        summary: 'Remove recipient from lists',
+        security: [{ ApiKeyAuth: [] }],
         parameters: [
-          { name: 'subscriberId', in: 'query', schema: { type: 'string' } },
-          { name: 'providerId', in: 'query', schema: { type: 'string' } },
-          { name: 'status', in: 'query', schema: { type: 'string', enum: ['active', 'paused', 'cancelled'] } },
+          { $ref: '#/components/parameters/IdempotencyKey' },
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+          { name: 'recipient', in: 'path', required: true, schema: { type: 'string' } },
         ],
         responses: {
-          '200': { description: 'List of subscriptions' },
+          '200': { description: 'Recipient rule removed' },
+          '404': { description: 'Recipient rule not found' },
         },
       },
-      post: {
-        tags: ['Subscriptions'],
-        summary: 'Create subscription',
+    },
+    '/api/allowances/{id}/categories/{category}': {
+      put: {
+        tags: ['Allowances'],
+        summary: 'Set category budget',
+        description: 'Create or replace the per-category limits for an allowance. A limit of 0 means unlimited.',
         security: [{ ApiKeyAuth: [] }],
+        parameters: [
+          { $ref: '#/components/parameters/IdempotencyKey' },
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+          { name: 'category', in: 'path', required: true, schema: { type: 'string' }, example: 'compute' },
+        ],
         requestBody: {
           required: true,
           content: {
             'application/json': {
               schema: {
                 type: 'object',
-                required: ['subscriberId', 'providerId', 'planId', 'amount', 'allowanceId'],
                 properties: {
-                  subscriberId: { type: 'string' },
-                  providerId: { type: 'string' },
-                  planId: { type: 'string' },
-                  amount: { type: 'number' },
-                  interval: { type: 'string', enum: ['daily', 'weekly', 'monthly'], default: 'monthly' },
-                  allowanceId: { type: 'string' },
+                  dailyLimit: { type: 'string', format: 'decimal', default: '0' },
+                  weeklyLimit: { type: 'string', format: 'decimal', default: '0' },
+                  monthlyLimit: { type: 'string', format: 'decimal', default: '0' },
+                  blocked: { type: 'boolean', default: false },
                 },
               },
             },
           },
         },
         responses: {
-          '200': { description: 'Subscription created' },
+          '200': { description: 'Category budget saved' },
+          '400': { description: 'Invalid request' },
+          '404': { description: 'Allowance not found' },
         },
       },
-    },
-    '/api/transactions': {
-      get: {
-        tags: ['Transactions'],
-        summary: 'List transactions',
+      delete: {
+        tags: ['Allowances'],
+        summary: 'Remove category budget',
+        security: [{ ApiKeyAuth: [] }],
         parameters: [
-          { name: 'allowanceId', in: 'query', schema: { type: 'string' } },
-          { name: 'category', in: 'query', schema: { type: 'string' } },
-          { name: 'limit', in: 'query', schema: { type: 'integer', default: 50 } },
-          { name: 'offset', in: 'query', schema: { type: 'integer', default: 0 } },
+          { $ref: '#/components/parameters/IdempotencyKey' },
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+          { name: 'category', in: 'path', required: true, schema: { type: 'string' } },
         ],
         responses: {
-          '200': { description: 'Transaction history' },
+          '200': { description: 'Category budget removed' },
+          '404': { description: 'Category rule not found' },
         },
       },
     },
-    '/api/agents/{agentId}/summary': {
+    '/api/invoices': {
       get: {
-        tags: ['Allowances'],
-        summary: 'Get agent spending summary',
+        tags: ['Invoices'],
+        summary: 'List invoices',
         parameters: [
-          { name: 'agentId', in: 'path', required: true, schema: { type: 'string' } },
+          { name: 'issuerId', in: 'query', schema: { type: 'string' } },
+          { name: 'recipientId', in: 'query', schema: { type: 'string' } },
+          { name: 'status', in: 'query', schema: { type: 'string', enum: INVOICE_STATUSES } },
+          { name: 'limit', in: 'query', schema: { type: 'integer', default: 50 } },
+          { name: 'offset', in: 'query', schema: { type: 'integer', default: 0 } },
         ],
         responses: {
-          '200': {
-            description: 'Agent financial summary',
-            content: {
-              'application/json': {
-                schema: {
-                  type: 'object',
-                  properties: {
-                    agentId: { type: 'string' },
-                    spending: {
-                      type: 'object',
-                      properties: {
-                        today: { type: 'number' },
-                        thisWeek: { type: 'number' },
-                        thisMonth: { type: 'number' },
-                      },
-                    },
-                    limits: {
-                      type: 'object',
-                      properties: {
-                        daily: { type: 'number' },
-                        weekly: { type: 'number' },
-                        monthly: { type: 'number' },
-                      },
-                    },
-                    subscriptions: {
+          '200': { description: 'List of invoices' },
+        },
+      },
+      post: {
+        tags: ['Invoices'],
+        summary: 'Create invoice',
+        security: [{ ApiKeyAuth: [] }],
+        parameters: [{ $ref: '#/components/parameters/IdempotencyKey' }],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['issuerId', 'recipientId'],
+                description: 'Give either amount or lineItems. Subtotal, discounts, tax and total are computed by the server.',
+                properties: {
+                  issuerId: { type: 'string' },
+                  recipientId: { type: 'string' },
+                  amount: { type: 'string', format: 'decimal' },
+                  lineItems: {
+                    type: 'array',
+                    items: {
                       type: 'object',
+                      required: ['description', 'quantity', 'unitPrice'],
                       properties: {
-                        active: { type: 'integer' },
-                        monthlyRecurring: { type: 'number' },
+                        description: { type: 'string' },
+                        quantity: { type: 'string', format: 'decimal', description: 'Up to 6 decimal places' },
+                        unitPrice: { type: 'string', format: 'decimal' },
+                        taxRate: { type: 'number', minimum: 0, maximum: 100, description: "Percent; defaults to the invoice's" },
+                        discount: { $ref: '#/components/schemas/Discount' },
                       },
                     },
                   },
+                  taxRate: { type: 'number', minimum: 0, maximum: 100, description: 'Percent, for lines without a rate of their own' },
+                  discount: { $ref: '#/components/schemas/Discount' },
+                  memo: { type: 'string' },
+                  allowPartial: { type: 'boolean', default: false, description: 'Accept payments of part of the total' },
+                  currency: { type: 'string', enum: CURRENCIES, default: 'USDC' },
+                  dueAt: { type: 'integer', description: 'Unix timestamp' },
+                  expiresAt: { type: 'integer', description: 'ms timestamp; a sent invoice still unpaid by then expires' },
                 },
               },
             },
           },
         },
+        responses: {
+          '200': { description: 'Invoice created' },
+        },
       },
     },
-    '/api/wallet/{address}/balance': {
+    '/api/invoices/{id}': {
       get: {
-        tags: ['On-Chain'],
-        summary: 'Get wallet balances',
-        description: 'Query $OPENWORK and ETH balances on Base mainnet',
-        parameters: [
-          { name: 'address', in: 'path', required: true, schema: { type: 'string', pattern: '^0x[a-fA-F0-9]{40}$' } },
-        ],
+        tags: ['Invoices'],
+        summary: 'Get invoice',
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
         responses: {
           '200': {
-            description: 'Wallet balances',
+            description: 'Invoice with its line items and the statuses it can move to next',
             content: {
               'application/json': {
                 schema: {
-                  type: 'object',
-                  properties: {
-                    address: { type: 'string' },
-                    openwork: {
-                      type: 'object',
-                      properties: {
-                        balance: { type: 'string' },
-                        balanceRaw: { type: 'string' },
-                        token: { type: 'string' },
-                      },
-                    },
-                    eth: {
+                  allOf: [
+                    { $ref: '#/components/schemas/Invoice' },
+                    {
                       type: 'object',
                       properties: {
-                        balance: { type: 'string' },
-                        balanceRaw: { type: 'string' },
+                        outstanding: { type: 'string', format: 'decimal', description: 'amount - paidAmount' },
+                        lineItems: { type: 'array', items: { $ref: '#/components/schemas/InvoiceLineItem' } },
+                        installments: { type: 'array', items: { $ref: '#/components/schemas/Installment' } },
+                        escrow: { allOf: [{ $ref: '#/components/schemas/Escrow' }], nullable: true },
+                        disputes: { type: 'array', items: { $ref: '#/components/schemas/Dispute' }, description: 'Newest first' },
+                        allowedTransitions: { type: 'array', items: { type: 'string', enum: INVOICE_STATUSES } },
                       },
                     },
-                    chain: { type: 'string', example: 'base' },
-                  },
+                  ],
                 },
               },
             },
           },
+          '404': { description: 'Invoice not found' },
         },
       },
     },
-    '/api/wallet/{address}/verify': {
+    '/api/invoices/{id}/history': {
       get: {
-        tags: ['On-Chain'],
-        summary: 'Verify minimum balance',
-        parameters: [
-          { name: 'address', in: 'path', required: true, schema: { type: 'string' } },
-          { name: 'required', in: 'query', schema: { type: 'number', default: 100000 }, description: 'Required $OPENWORK amount' },
-        ],
+        tags: ['Invoices'],
+        summary: 'Invoice status history',
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
         responses: {
-          '200': {
-            description: 'Balance verification result',
-            content: {
-              'application/json': {
-                schema: {
-                  type: 'object',
-                  properties: {
-                    address: { type: 'string' },
-                    sufficient: { type: 'boolean' },
-                    balance: { type: 'string' },
-                    required: { type: 'string' },
-                  },
-                },
-              },
-            },
-          },
+          '200': { description: 'Transitions, oldest first', content: { 'application/json': { schema: { type: 'object', properties: { invoiceId: { type: 'string' }, status: { type: 'string', enum: INVOICE_STATUSES }, data: { type: 'array', items: { $ref: '#/components/schemas/InvoiceTransition' } } } } } } },
+          '404': { description: 'Invoice not found' },
         },
       },
     },
-    '/api/webhooks': {
+    '/api/invoices/{id}/installments': {
       post: {
-        tags: ['Webhooks'],
-        summary: 'Register webhook',
+        tags: ['Invoices'],
+        summary: 'Set an installment plan',
+        description: 'Splits what is outstanding on a draft or sent invoice into equal installments due `interval` apart, and lets the invoice take partial payments. Payments cover installments in order; POST /billing/process charges those that have fallen due to the recipient\'s allowance.',
         security: [{ ApiKeyAuth: [] }],
+        parameters: [
+          { $ref: '#/components/parameters/IdempotencyKey' },
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+        ],
         requestBody: {
           required: true,
           content: {
             'application/json': {
               schema: {
                 type: 'object',
-                required: ['agentId', 'webhookUrl'],
+                required: ['actorId', 'count', 'interval'],
                 properties: {
-                  agentId: { type: 'string' },
-                  webhookUrl: { type: 'string', format: 'uri' },
+                  actorId: { type: 'string', description: 'Issuer of the invoice' },
+                  count: { type: 'integer', minimum: 2, maximum: 120 },
+                  interval: { type: 'string', enum: ['daily', 'weekly', 'monthly'] },
+                  firstDueAt: { type: 'integer', description: 'ms timestamp; defaults to now' },
+                  allowanceId: { type: 'string', description: 'Allowance charged as installments fall due' },
                 },
               },
             },
           },
         },
         responses: {
-          '200': { description: 'Webhook registered' },
+          '200': { description: 'Installments created', content: { 'application/json': { schema: { type: 'object', properties: { success: { type: 'boolean' }, installments: { type: 'array', items: { $ref: '#/components/schemas/Installment' } } } } } } },
+          '403': { description: 'Not the issuer of the invoice' },
+          '404': { description: 'Invoice not found' },
+          '409': { description: 'The invoice is already paid or closed, or already has a plan' },
         },
       },
-      delete: {
-        tags: ['Webhooks'],
-        summary: 'Unregister webhook',
+    },
+    '/api/invoices/{id}/escrow': {
+      post: {
+        tags: ['Invoices'],
+        summary: 'Pay a sent invoice into escrow',
+        description: 'sent -> escrowed. Charges what the invoice is owed to the recipient\'s allowance like a payment, but holds the funds in escrow: the issuer is paid, less the platform fee, when the recipient confirms delivery or at the auto-release deadline, unless the recipient disputes the invoice first.',
         security: [{ ApiKeyAuth: [] }],
+        parameters: [
+          { $ref: '#/components/parameters/IdempotencyKey' },
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+        ],
         requestBody: {
           required: true,
           content: {
             'application/json': {
               schema: {
                 type: 'object',
-                required: ['agentId', 'webhookUrl'],
+                required: ['agentId'],
                 properties: {
-                  agentId: { type: 'string' },
-                  webhookUrl: { type: 'string', format: 'uri' },
+                  agentId: { type: 'string', description: 'Recipient of the invoice' },
+                  allowanceId: { type: 'string' },
+                  releaseAfterSeconds: { type: 'integer', minimum: 60, maximum: 7776000, default: 604800, description: 'Auto-release deadline' },
                 },
               },
             },
           },
         },
         responses: {
-          '200': { description: 'Webhook unregistered' },
+          '200': { description: 'Funds locked', content: { 'application/json': { schema: { type: 'object', properties: { success: { type: 'boolean' }, escrow: { $ref: '#/components/schemas/Escrow' }, transactionId: { type: 'string' }, allowanceId: { type: 'string' } } } } } },
+          '202': { description: 'Queued for owner approval' },
+          '400': { description: 'The allowance cannot cover it' },
+          '404': { description: 'Invoice not found' },
+          '409': { description: 'The invoice is not sent' },
         },
       },
     },
-    '/api/webhooks/{agentId}': {
-      get: {
-        tags: ['Webhooks'],
-        summary: 'List webhooks for agent',
+    '/api/invoices/{id}/escrow/release': {
+      post: {
+        tags: ['Invoices'],
+        summary: 'Confirm delivery',
+        description: 'escrowed -> paid. Releases the escrow to the issuer, less the platform fee.',
+        security: [{ ApiKeyAuth: [] }],
         parameters: [
-          { name: 'agentId', in: 'path', required: true, schema: { type: 'string' } },
+          { $ref: '#/components/parameters/IdempotencyKey' },
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
         ],
-        responses: {
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['actorId'],
+                properties: {
+                  actorId: { type: 'string', description: 'Payer of the escrow' },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': { description: 'Escrow released', content: { 'application/json': { schema: { type: 'object', properties: { success: { type: 'boolean' }, escrow: { $ref: '#/components/schemas/Escrow' }, transactionId: { type: 'string' } } } } } },
+          '403': { description: 'Not the payer of the escrow' },
+          '404': { description: 'Escrow not found' },
+          '409': { description: 'The escrow is already released or disputed' },
+        },
+      },
+    },
+    '/api/invoices/{id}/disputes': {
+      post: {
+        tags: ['Disputes'],
+        summary: 'Dispute an invoice',
+        description: 'sent, partially_paid, escrowed or paid -> disputed. Either party can dispute, naming the validators who will settle it. Until a majority of them vote for the same outcome the invoice takes no payments or refunds and its escrow is not released.',
+        security: [{ ApiKeyAuth: [] }],
+        parameters: [
+          { $ref: '#/components/parameters/IdempotencyKey' },
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['actorId', 'reason', 'validators'],
+                properties: {
+                  actorId: { type: 'string', description: 'Issuer or recipient of the invoice' },
+                  reason: { type: 'string' },
+                  validators: { type: 'array', items: { type: 'string' }, minItems: 1, maxItems: 25, description: 'Neither party can be one' },
+                  evidence: { type: 'array', items: { $ref: '#/components/schemas/EvidenceInput' } },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': { description: 'Invoice disputed', content: { 'application/json': { schema: { type: 'object', properties: { success: { type: 'boolean' }, dispute: { $ref: '#/components/schemas/Dispute' }, invoiceStatus: { type: 'string', enum: INVOICE_STATUSES } } } } } },
+          '400': { description: 'No validators, or a party named as one' },
+          '403': { description: 'Not a party to the invoice' },
+          '404': { description: 'Invoice not found' },
+          '409': { description: 'The invoice cannot be disputed from its status; `allowed` lists where it can go' },
+        },
+      },
+    },
+    '/api/invoices/{id}/timeline': {
+      get: {
+        tags: ['Invoices'],
+        summary: 'Invoice timeline',
+        description: 'Status changes, payments, refunds, escrow and dispute activity on the invoice, oldest first.',
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+        responses: {
+          '200': { description: 'Timeline', content: { 'application/json': { schema: { type: 'object', properties: { invoiceId: { type: 'string' }, status: { type: 'string', enum: INVOICE_STATUSES }, data: { type: 'array', items: { $ref: '#/components/schemas/TimelineEntry' } }, count: { type: 'integer' } } } } } },
+          '404': { description: 'Invoice not found' },
+        },
+      },
+    },
+    '/api/disputes/{id}': {
+      get: {
+        tags: ['Disputes'],
+        summary: 'Get dispute',
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+        responses: {
+          '200': {
+            description: 'Dispute with its validators, evidence and votes',
+            content: {
+              'application/json': {
+                schema: {
+                  allOf: [
+                    { $ref: '#/components/schemas/Dispute' },
+                    {
+                      type: 'object',
+                      properties: {
+                        validators: { type: 'array', items: { type: 'string' } },
+                        evidence: { type: 'array', items: { $ref: '#/components/schemas/DisputeEvidence' } },
+                        votes: { type: 'array', items: { $ref: '#/components/schemas/DisputeVote' }, description: 'Each validator\'s latest vote' },
+                        voteHistory: { type: 'array', items: { $ref: '#/components/schemas/DisputeVote' }, description: 'Every vote cast, oldest first' },
+                      },
+                    },
+                  ],
+                },
+              },
+            },
+          },
+          '404': { description: 'Dispute not found' },
+        },
+      },
+    },
+    '/api/disputes/{id}/evidence': {
+      post: {
+        tags: ['Disputes'],
+        summary: 'Submit evidence',
+        security: [{ ApiKeyAuth: [] }],
+        parameters: [
+          { $ref: '#/components/parameters/IdempotencyKey' },
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                allOf: [
+                  { $ref: '#/components/schemas/EvidenceInput' },
+                  { type: 'object', required: ['actorId'], properties: { actorId: { type: 'string', description: 'Issuer or recipient of the invoice' } } },
+                ],
+              },
+            },
+          },
+        },
+        responses: {
+          '200': { description: 'Evidence recorded', content: { 'application/json': { schema: { type: 'object', properties: { success: { type: 'boolean' }, evidence: { $ref: '#/components/schemas/DisputeEvidence' } } } } } },
+          '403': { description: 'Not a party to the dispute' },
+          '404': { description: 'Dispute not found' },
+          '409': { description: 'The dispute is resolved' },
+        },
+      },
+    },
+    '/api/disputes/{id}/votes': {
+      post: {
+        tags: ['Disputes'],
+        summary: 'Vote on a dispute',
+        description: 'A validator can vote again to change their vote until the dispute is resolved. Once a majority of the validators agree, the dispute resolves: refund returns what was paid (or escrowed) to the payer, release pays it to the issuer, and split divides it by `payerShare`.',
+        security: [{ ApiKeyAuth: [] }],
+        parameters: [
+          { $ref: '#/components/parameters/IdempotencyKey' },
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['validatorId', 'outcome'],
+                properties: {
+                  validatorId: { type: 'string' },
+                  outcome: { type: 'string', enum: ['refund', 'release', 'split'] },
+                  payerShare: { type: 'number', minimum: 0, maximum: 100, default: 50, description: 'Split only: percent of what was paid that goes back to the payer' },
+                  comment: { type: 'string' },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': { description: 'Vote recorded', content: { 'application/json': { schema: { type: 'object', properties: { success: { type: 'boolean' }, dispute: { $ref: '#/components/schemas/Dispute' }, invoiceStatus: { type: 'string', enum: INVOICE_STATUSES }, votes: { type: 'array', items: { $ref: '#/components/schemas/DisputeVote' } } } } } } },
+          '403': { description: 'Not a validator of the dispute' },
+          '404': { description: 'Dispute not found' },
+          '409': { description: 'The dispute is resolved, or nothing was paid to split' },
+        },
+      },
+    },
+    '/api/invoices/{id}/send': invoiceTransition('Send invoice', 'draft -> sent.', {
+      expiresAt: { type: 'integer', description: 'ms timestamp; the invoice expires if still unpaid by then' },
+    }),
+    '/api/invoices/{id}/cancel': invoiceTransition('Cancel invoice', 'draft or sent -> cancelled. A part-paid invoice is closed by refunding its payments instead.'),
+    '/api/invoices/{id}/void': invoiceTransition('Void invoice', 'sent -> void, for an invoice issued in error.'),
+    '/api/invoices/{id}/refund': {
+      post: {
+        tags: ['Invoices'],
+        summary: 'Refund an invoice',
+        description: 'Refunds the latest payment on the invoice with something left to refund, such as one installment of a plan; see POST /api/transactions/{id}/refund. A refund ends an installment plan.',
+        security: [{ ApiKeyAuth: [] }],
+        parameters: [
+          { $ref: '#/components/parameters/IdempotencyKey' },
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['providerId'],
+                properties: {
+                  providerId: { type: 'string', description: 'Issuer of the invoice; only they can refund it' },
+                  amount: { type: 'string', format: 'decimal', description: 'Defaults to everything not refunded yet' },
+                  reason: { type: 'string' },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': { description: 'Refund recorded', content: { 'application/json': { schema: { $ref: '#/components/schemas/RefundResult' } } } },
+          '400': { description: 'Nothing left to refund, or the amount exceeds it' },
+          '403': { description: 'Not the issuer of the invoice' },
+          '404': { description: 'Invoice not found' },
+        },
+      },
+    },
+    '/api/subscriptions': {
+      get: {
+        tags: ['Subscriptions'],
+        summary: 'List subscriptions',
+        parameters: [
+          { name: 'subscriberId', in: 'query', schema: { type: 'string' } },
+          { name: 'providerId', in: 'query', schema: { type: 'string' } },
+          { name: 'status', in: 'query', schema: { type: 'string', enum: ['active', 'paused', 'cancelled'] } },
+        ],
+        responses: {
+          '200': { description: 'List of subscriptions' },
+        },
+      },
+      post: {
+        tags: ['Subscriptions'],
+        summary: 'Create subscription',
+        security: [{ ApiKeyAuth: [] }],
+        parameters: [{ $ref: '#/components/parameters/IdempotencyKey' }],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['subscriberId', 'providerId', 'planId', 'amount', 'allowanceId'],
+                properties: {
+                  subscriberId: { type: 'string' },
+                  providerId: { type: 'string' },
+                  planId: { type: 'string' },
+                  amount: { type: 'string', format: 'decimal' },
+                  currency: { type: 'string', enum: CURRENCIES, default: 'USDC' },
+                  interval: { type: 'string', enum: ['daily', 'weekly', 'monthly'], default: 'monthly' },
+                  allowanceId: { type: 'string' },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': { description: 'Subscription created' },
+        },
+      },
+    },
+    '/api/transactions': {
+      get: {
+        tags: ['Transactions'],
+        summary: 'List transactions',
+        parameters: [
+          { name: 'allowanceId', in: 'query', schema: { type: 'string' } },
+          { name: 'category', in: 'query', schema: { type: 'string' } },
+          { name: 'limit', in: 'query', schema: { type: 'integer', default: 50 } },
+          { name: 'offset', in: 'query', schema: { type: 'integer', default: 0 } },
+        ],
+        responses: {
+          '200': { description: 'Transaction history', content: { 'application/json': { schema: { type: 'object', properties: { data: { type: 'array', items: { $ref: '#/components/schemas/Transaction' } } } } } } },
+        },
+      },
+    },
+    '/api/transactions/{id}': {
+      get: {
+        tags: ['Transactions'],
+        summary: 'Get transaction',
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+        responses: {
+          '200': {
+            description: 'Transaction with its payee and fee lines and the refunds issued against it',
+            content: {
+              'application/json': {
+                schema: {
+                  allOf: [
+                    { $ref: '#/components/schemas/Transaction' },
+                    {
+                      type: 'object',
+                      properties: {
+                        lines: { type: 'array', items: { $ref: '#/components/schemas/TransactionLine' }, description: 'Empty unless the transaction paid an invoice' },
+                        refunds: { type: 'array', items: { $ref: '#/components/schemas/Transaction' } },
+                      },
+                    },
+                  ],
+                },
+              },
+            },
+          },
+          '404': { description: 'Transaction not found' },
+        },
+      },
+    },
+    '/api/transactions/{id}/refund': {
+      post: {
+        tags: ['Transactions'],
+        summary: 'Refund a transaction',
+        description: 'Records a linked refund transaction and gives the budget back to the allowance in the current period. Refunding an invoice payment moves the invoice to refunded or partially_refunded.',
+        security: [{ ApiKeyAuth: [] }],
+        parameters: [
+          { $ref: '#/components/parameters/IdempotencyKey' },
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['providerId'],
+                properties: {
+                  providerId: { type: 'string', description: 'Recipient of the payment; only they can refund it' },
+                  amount: { type: 'string', format: 'decimal', description: 'Defaults to everything not refunded yet' },
+                  reason: { type: 'string' },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': { description: 'Refund recorded', content: { 'application/json': { schema: { $ref: '#/components/schemas/RefundResult' } } } },
+          '400': { description: 'Nothing left to refund, or the amount exceeds it' },
+          '403': { description: 'Not the recipient of the payment' },
+          '404': { description: 'Transaction not found' },
+        },
+      },
+    },
+    '/api/pools': {
+      get: {
+        tags: ['Pools'],
+        summary: 'List budget pools',
+        parameters: [
+          { name: 'ownerId', in: 'query', schema: { type: 'string' } },
+          { name: 'parentPoolId', in: 'query', schema: { type: 'string' } },
+          { name: 'limit', in: 'query', schema: { type: 'integer', default: 50 } },
+          { name: 'offset', in: 'query', schema: { type: 'integer', default: 0 } },
+        ],
+        responses: {
+          '200': { description: 'List of pools' },
+        },
+      },
+      post: {
+        tags: ['Pools'],
+        summary: 'Create budget pool',
+        description: 'Allowances (and child pools) inside a pool keep their own limits but must also fit the pool and every pool above it.',
+        security: [{ ApiKeyAuth: [] }],
+        parameters: [{ $ref: '#/components/parameters/IdempotencyKey' }],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['ownerId', 'name'],
+                properties: {
+                  ownerId: { type: 'string' },
+                  name: { type: 'string', example: 'research-fleet' },
+                  parentPoolId: { type: 'string' },
+                  currency: { type: 'string', enum: CURRENCIES, default: 'USDC', description: 'Must match the parent pool and member allowances' },
+                  dailyLimit: { type: 'string', format: 'decimal', default: '0' },
+                  weeklyLimit: { type: 'string', format: 'decimal', default: '0' },
+                  monthlyLimit: { type: 'string', format: 'decimal', default: '0' },
+                  timezone: { type: 'string', default: 'UTC' },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': { description: 'Pool created' },
+          '400': { description: 'Invalid request or parent pool not found' },
+        },
+      },
+    },
+    '/api/pools/{id}': {
+      get: {
+        tags: ['Pools'],
+        summary: 'Get pool consumption',
+        description: 'Pool limits and usage, broken down by child allowance and child pool.',
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+        ],
+        responses: {
+          '200': { description: 'Pool report', content: { 'application/json': { schema: { $ref: '#/components/schemas/BudgetPool' } } } },
+          '404': { description: 'Pool not found' },
+        },
+      },
+      patch: {
+        tags: ['Pools'],
+        summary: 'Update budget pool',
+        security: [{ ApiKeyAuth: [] }],
+        parameters: [
+          { $ref: '#/components/parameters/IdempotencyKey' },
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  name: { type: 'string' },
+                  parentPoolId: { type: 'string', nullable: true },
+                  dailyLimit: { type: 'string', format: 'decimal' },
+                  weeklyLimit: { type: 'string', format: 'decimal' },
+                  monthlyLimit: { type: 'string', format: 'decimal' },
+                  timezone: { type: 'string' },
+                  status: { type: 'string', enum: ['active', 'paused'] },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': { description: 'Pool updated' },
+          '400': { description: 'Invalid request or nesting cycle' },
+          '404': { description: 'Pool not found' },
+        },
+      },
+    },
+    '/api/spends/simulate': {
+      post: {
+        tags: ['Simulation'],
+        summary: 'Simulate spends',
+        description: 'Runs the full spend check without recording anything. Reports every rule that would fail and the headroom left in each period. A batch is evaluated in order, as if each earlier spend that passes had gone through.',
+        security: [{ ApiKeyAuth: [] }],
+        parameters: [{ $ref: '#/components/parameters/IdempotencyKey' }],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['agentId'],
+                properties: {
+                  agentId: { type: 'string' },
+                  currency: { type: 'string', enum: CURRENCIES, default: 'USDC', description: 'Currency of every amount in the request' },
+                  amount: { type: 'string', format: 'decimal', description: 'Single spend (omit when sending `spends`)' },
+                  category: { type: 'string' },
+                  recipient: { type: 'string' },
+                  allowanceId: { type: 'string' },
+                  spends: {
+                    type: 'array',
+                    maxItems: 100,
+                    items: {
+                      type: 'object',
+                      required: ['amount', 'category'],
+                      properties: {
+                        amount: { type: 'string', format: 'decimal' },
+                        category: { type: 'string' },
+                        recipient: { type: 'string' },
+                        allowanceId: { type: 'string' },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Simulation results',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    allowed: { type: 'boolean', description: 'Every spend would pass' },
+                    results: { type: 'array', items: { $ref: '#/components/schemas/SimulatedSpend' } },
+                  },
+                },
+              },
+            },
+          },
+          '400': { description: 'Invalid request' },
+        },
+      },
+    },
+    '/api/fees/schedules': {
+      get: {
+        tags: ['Fees'],
+        summary: 'List fee schedules',
+        description: 'Without any schedule, invoice and subscription payments pay the contract\'s 5% platform fee (500 bps).',
+        parameters: [{ name: 'scope', in: 'query', schema: { type: 'string', enum: ['global', 'provider', 'category'] } }],
+        responses: {
+          '200': { description: 'Schedules, newest first', content: { 'application/json': { schema: { type: 'object', properties: { data: { type: 'array', items: { $ref: '#/components/schemas/FeeSchedule' } } } } } } },
+          '400': { description: 'Unknown scope' },
+        },
+      },
+      post: {
+        tags: ['Fees'],
+        summary: 'Create fee schedule',
+        description: 'A provider schedule beats a category one, which beats a global one; within a scope, one in the payment\'s currency beats one for any currency, and the newest wins. Fees are rounded down.',
+        security: [{ ApiKeyAuth: [] }],
+        parameters: [{ $ref: '#/components/parameters/IdempotencyKey' }],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['scope', 'kind'],
+                properties: {
+                  scope: { type: 'string', enum: ['global', 'provider', 'category'] },
+                  ref: { type: 'string', description: 'Provider ID or category; required unless global' },
+                  kind: { type: 'string', enum: ['flat', 'percentage', 'tiered'] },
+                  currency: { type: 'string', enum: CURRENCIES, description: 'Required for flat and tiered; a percentage without one applies to every currency' },
+                  bps: { type: 'integer', minimum: 0, maximum: 10000, description: 'Percentage fee in basis points' },
+                  flatAmount: { type: 'string', format: 'decimal' },
+                  tiers: {
+                    type: 'array',
+                    description: 'The first tier whose upTo covers the payment sets its fee: flatAmount plus bps of the payment',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        upTo: { type: 'string', format: 'decimal', description: 'Omit for the open-ended top tier' },
+                        bps: { type: 'integer', minimum: 0, maximum: 10000 },
+                        flatAmount: { type: 'string', format: 'decimal' },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': { description: 'Schedule created', content: { 'application/json': { schema: { type: 'object', properties: { success: { type: 'boolean' }, schedule: { $ref: '#/components/schemas/FeeSchedule' } } } } } },
+          '400': { description: 'Invalid request' },
+        },
+      },
+    },
+    '/api/fees/schedules/{id}': {
+      delete: {
+        tags: ['Fees'],
+        summary: 'Delete fee schedule',
+        security: [{ ApiKeyAuth: [] }],
+        parameters: [
+          { $ref: '#/components/parameters/IdempotencyKey' },
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+        ],
+        responses: {
+          '200': { description: 'Schedule deleted' },
+          '404': { description: 'Fee schedule not found' },
+        },
+      },
+    },
+    '/api/fees/report': {
+      get: {
+        tags: ['Fees'],
+        summary: 'Fee report',
+        description: 'Fees collected and given back with refunds per currency, with what the fee account holds now.',
+        parameters: [
+          { name: 'from', in: 'query', schema: { type: 'integer' }, description: 'ms timestamp' },
+          { name: 'to', in: 'query', schema: { type: 'integer' }, description: 'ms timestamp' },
+          { name: 'currency', in: 'query', schema: { type: 'string', enum: CURRENCIES } },
+        ],
+        responses: {
+          '200': {
+            description: 'Totals per currency',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    data: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          currency: { type: 'string', enum: CURRENCIES },
+                          payments: { type: 'integer' },
+                          collected: { type: 'string', format: 'decimal' },
+                          refunded: { type: 'string', format: 'decimal' },
+                          net: { type: 'string', format: 'decimal' },
+                          balance: { type: 'string', format: 'decimal', description: 'Held in the fee account now, after withdrawals' },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/fees/withdrawals': {
+      post: {
+        tags: ['Fees'],
+        summary: 'Withdraw fees',
+        description: 'Requests a payout from the fee account (balance holder platform:fees). Complete or cancel it like any other withdrawal.',
+        security: [{ ApiKeyAuth: [] }],
+        parameters: [{ $ref: '#/components/parameters/IdempotencyKey' }],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['amount'],
+                properties: {
+                  amount: { type: 'string', format: 'decimal' },
+                  currency: { type: 'string', enum: CURRENCIES, default: 'USDC' },
+                  destination: { type: 'string', description: 'e.g. a wallet address' },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': { description: 'Withdrawal pending', content: { 'application/json': { schema: { type: 'object', properties: { success: { type: 'boolean' }, withdrawal: { $ref: '#/components/schemas/Withdrawal' } } } } } },
+          '400': { description: 'Invalid request or insufficient fees collected' },
+        },
+      },
+    },
+    '/api/fx/rates': {
+      get: {
+        tags: ['FX'],
+        summary: 'List FX rates',
+        parameters: [
+          { name: 'base', in: 'query', schema: { type: 'string', enum: CURRENCIES } },
+          { name: 'quote', in: 'query', schema: { type: 'string', enum: CURRENCIES } },
+          { name: 'limit', in: 'query', schema: { type: 'integer', default: 50 } },
+          { name: 'offset', in: 'query', schema: { type: 'integer', default: 0 } },
+        ],
+        responses: {
+          '200': { description: 'Rates, latest effective first', content: { 'application/json': { schema: { type: 'object', properties: { data: { type: 'array', items: { $ref: '#/components/schemas/FxRate' } } } } } } },
+        },
+      },
+      post: {
+        tags: ['FX'],
+        summary: 'Set FX rate',
+        description: 'Adds a rate for one direction of a pair. It applies from effectiveAt until a later rate for the pair takes over; invoices in the base currency paid from an allowance in the quote currency are converted at it.',
+        security: [{ ApiKeyAuth: [] }],
+        parameters: [{ $ref: '#/components/parameters/IdempotencyKey' }],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['base', 'quote', 'rate'],
+                properties: {
+                  base: { type: 'string', enum: CURRENCIES },
+                  quote: { type: 'string', enum: CURRENCIES },
+                  rate: { type: 'string', format: 'decimal', example: '1.08', description: 'Units of quote per unit of base' },
+                  effectiveAt: { type: 'integer', description: 'ms timestamp; defaults to now' },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': { description: 'Rate added', content: { 'application/json': { schema: { type: 'object', properties: { success: { type: 'boolean' }, rate: { $ref: '#/components/schemas/FxRate' } } } } } },
+          '400': { description: 'Invalid request' },
+        },
+      },
+    },
+    '/api/fx/convert': {
+      get: {
+        tags: ['FX'],
+        summary: 'Convert an amount',
+        description: 'Converts at the rate in effect at `at`, rounding up to the smallest unit of the target currency, as payments do.',
+        parameters: [
+          { name: 'amount', in: 'query', required: true, schema: { type: 'string', format: 'decimal' } },
+          { name: 'from', in: 'query', required: true, schema: { type: 'string', enum: CURRENCIES } },
+          { name: 'to', in: 'query', required: true, schema: { type: 'string', enum: CURRENCIES } },
+          { name: 'at', in: 'query', schema: { type: 'integer' }, description: 'Point in time (ms timestamp); defaults to now' },
+        ],
+        responses: {
+          '200': {
+            description: 'Conversion',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    originalAmount: { type: 'string', format: 'decimal' },
+                    originalCurrency: { type: 'string' },
+                    amount: { type: 'string', format: 'decimal' },
+                    currency: { type: 'string' },
+                    rate: { type: 'string', format: 'decimal' },
+                    rateId: { type: 'string' },
+                  },
+                },
+              },
+            },
+          },
+          '400': { description: 'Missing or invalid parameters' },
+          '404': { description: 'No rate for the pair' },
+        },
+      },
+    },
+    '/api/ledger/accounts': {
+      get: {
+        tags: ['Ledger'],
+        summary: 'List ledger accounts',
+        parameters: [
+          { name: 'kind', in: 'query', schema: { type: 'string', enum: ['agent', 'owner', 'provider', 'fees', 'suspense', 'clearing'] } },
+          { name: 'ref', in: 'query', schema: { type: 'string' }, description: 'Agent, owner or provider ID' },
+          { name: 'currency', in: 'query', schema: { type: 'string', enum: CURRENCIES } },
+          { name: 'limit', in: 'query', schema: { type: 'integer', default: 50 } },
+          { name: 'offset', in: 'query', schema: { type: 'integer', default: 0 } },
+        ],
+        responses: {
+          '200': { description: 'List of accounts', content: { 'application/json': { schema: { type: 'object', properties: { data: { type: 'array', items: { $ref: '#/components/schemas/LedgerAccount' } } } } } } },
+          '400': { description: 'Unknown account kind' },
+        },
+      },
+    },
+    '/api/ledger/accounts/{id}': {
+      get: {
+        tags: ['Ledger'],
+        summary: 'Get account balance',
+        description: 'Debits, credits and balance (debits minus credits) from every posting up to `at`.',
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+          { name: 'at', in: 'query', schema: { type: 'integer' }, description: 'Point in time (ms timestamp); defaults to now' },
+        ],
+        responses: {
+          '200': {
+            description: 'Account with its balance',
+            content: {
+              'application/json': {
+                schema: {
+                  allOf: [
+                    { $ref: '#/components/schemas/LedgerAccount' },
+                    { $ref: '#/components/schemas/AccountBalance' },
+                    { type: 'object', properties: { at: { type: 'integer' } } },
+                  ],
+                },
+              },
+            },
+          },
+          '400': { description: 'Invalid timestamp' },
+          '404': { description: 'Account not found' },
+        },
+      },
+    },
+    '/api/ledger/trial-balance': {
+      get: {
+        tags: ['Ledger'],
+        summary: 'Trial balance',
+        description: 'Every account balance as of `at`, grouped by currency. Debits and credits match in each currency.',
+        parameters: [
+          { name: 'at', in: 'query', schema: { type: 'integer' }, description: 'Point in time (ms timestamp); defaults to now' },
+          { name: 'currency', in: 'query', schema: { type: 'string', enum: CURRENCIES } },
+        ],
+        responses: {
+          '200': {
+            description: 'Trial balance',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    at: { type: 'integer' },
+                    balanced: { type: 'boolean' },
+                    currencies: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          currency: { type: 'string' },
+                          accounts: {
+                            type: 'array',
+                            items: {
+                              allOf: [
+                                { type: 'object', properties: { accountId: { type: 'string' }, kind: { type: 'string' }, ref: { type: 'string' } } },
+                                { $ref: '#/components/schemas/AccountBalance' },
+                              ],
+                            },
+                          },
+                          totalDebits: { type: 'string', format: 'decimal' },
+                          totalCredits: { type: 'string', format: 'decimal' },
+                          balanced: { type: 'boolean' },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          '400': { description: 'Invalid timestamp' },
+        },
+      },
+    },
+    '/api/ledger/entries': {
+      get: {
+        tags: ['Ledger'],
+        summary: 'List journal entries',
+        parameters: [
+          { name: 'transactionId', in: 'query', schema: { type: 'string' } },
+          { name: 'invoiceId', in: 'query', schema: { type: 'string' } },
+          { name: 'subscriptionId', in: 'query', schema: { type: 'string' } },
+          { name: 'holdId', in: 'query', schema: { type: 'string' } },
+          { name: 'withdrawalId', in: 'query', schema: { type: 'string' } },
+          { name: 'limit', in: 'query', schema: { type: 'integer', default: 50 } },
+          { name: 'offset', in: 'query', schema: { type: 'integer', default: 0 } },
+        ],
+        responses: {
+          '200': { description: 'Entries with their postings, newest first', content: { 'application/json': { schema: { type: 'object', properties: { data: { type: 'array', items: { $ref: '#/components/schemas/JournalEntry' } } } } } } },
+        },
+      },
+    },
+    '/api/holds': {
+      get: {
+        tags: ['Holds'],
+        summary: 'List authorization holds',
+        parameters: [
+          { name: 'allowanceId', in: 'query', schema: { type: 'string' } },
+          { name: 'agentId', in: 'query', schema: { type: 'string' } },
+          { name: 'status', in: 'query', schema: { type: 'string', enum: ['active', 'captured', 'voided', 'expired'] } },
+          { name: 'limit', in: 'query', schema: { type: 'integer', default: 50 } },
+          { name: 'offset', in: 'query', schema: { type: 'integer', default: 0 } },
+        ],
+        responses: {
+          '200': { description: 'List of holds' },
+        },
+      },
+      post: {
+        tags: ['Holds'],
+        summary: 'Authorize a hold',
+        description: 'Runs the full spend check and reserves the amount against the allowance until captured, voided or expired. Without `allowanceId` the agent\'s allowances are tried in selection order; the response reports the one charged in `allowanceId` and `selection`.',
+        security: [{ ApiKeyAuth: [] }],
+        parameters: [{ $ref: '#/components/parameters/IdempotencyKey' }],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['agentId', 'amount', 'category', 'recipient'],
+                properties: {
+                  agentId: { type: 'string' },
+                  amount: { type: 'string', format: 'decimal' },
+                  currency: { type: 'string', enum: CURRENCIES, default: 'USDC' },
+                  category: { type: 'string' },
+                  recipient: { type: 'string' },
+                  allowanceId: { type: 'string' },
+                  ttlSeconds: { type: 'integer', default: 900, maximum: 604800 },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': { description: 'Hold authorized' },
+          '202': { description: 'Queued for owner approval' },
+          '400': { description: 'Spend not allowed' },
+        },
+      },
+    },
+    '/api/holds/{id}': {
+      get: {
+        tags: ['Holds'],
+        summary: 'Get hold',
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+        ],
+        responses: {
+          '200': { description: 'Hold', content: { 'application/json': { schema: { $ref: '#/components/schemas/SpendHold' } } } },
+          '404': { description: 'Hold not found' },
+        },
+      },
+    },
+    '/api/holds/{id}/capture': {
+      post: {
+        tags: ['Holds'],
+        summary: 'Capture a hold',
+        description: 'Settles the hold for an amount up to the held amount (defaults to the full hold).',
+        security: [{ ApiKeyAuth: [] }],
+        parameters: [
+          { $ref: '#/components/parameters/IdempotencyKey' },
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+        ],
+        requestBody: {
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  amount: { type: 'string', format: 'decimal' },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': { description: 'Hold captured' },
+          '400': { description: 'Hold is not active or amount is invalid' },
+          '404': { description: 'Hold not found' },
+        },
+      },
+    },
+    '/api/holds/{id}/void': {
+      post: {
+        tags: ['Holds'],
+        summary: 'Void a hold',
+        security: [{ ApiKeyAuth: [] }],
+        parameters: [
+          { $ref: '#/components/parameters/IdempotencyKey' },
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+        ],
+        responses: {
+          '200': { description: 'Hold voided' },
+          '400': { description: 'Hold is not active' },
+          '404': { description: 'Hold not found' },
+        },
+      },
+    },
+    '/api/approvals': {
+      get: {
+        tags: ['Approvals'],
+        summary: 'List approval requests',
+        parameters: [
+          { name: 'allowanceId', in: 'query', schema: { type: 'string' } },
+          { name: 'agentId', in: 'query', schema: { type: 'string' } },
+          { name: 'status', in: 'query', schema: { type: 'string', enum: ['pending_approval', 'approved', 'rejected', 'executed', 'failed'] } },
+          { name: 'limit', in: 'query', schema: { type: 'integer', default: 50 } },
+          { name: 'offset', in: 'query', schema: { type: 'integer', default: 0 } },
+        ],
+        responses: {
+          '200': { description: 'List of approval requests' },
+        },
+      },
+    },
+    '/api/approvals/{id}': {
+      get: {
+        tags: ['Approvals'],
+        summary: 'Get approval request with votes',
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+        ],
+        responses: {
+          '200': { description: 'Approval request', content: { 'application/json': { schema: { $ref: '#/components/schemas/SpendApproval' } } } },
+          '404': { description: 'Approval not found' },
+        },
+      },
+    },
+    '/api/approvals/{id}/approve': {
+      post: {
+        tags: ['Approvals'],
+        summary: 'Approve a queued spend',
+        description: 'Once the required number of approvers sign off, the spend runs through the normal allowance checks.',
+        security: [{ ApiKeyAuth: [] }],
+        parameters: [
+          { $ref: '#/components/parameters/IdempotencyKey' },
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['approverId'],
+                properties: {
+                  approverId: { type: 'string' },
+                  comment: { type: 'string' },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': { description: 'Vote recorded' },
+          '403': { description: 'Not a designated approver' },
+          '404': { description: 'Approval not found' },
+          '409': { description: 'Already resolved or already voted' },
+        },
+      },
+    },
+    '/api/approvals/{id}/reject': {
+      post: {
+        tags: ['Approvals'],
+        summary: 'Reject a queued spend',
+        security: [{ ApiKeyAuth: [] }],
+        parameters: [
+          { $ref: '#/components/parameters/IdempotencyKey' },
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['approverId'],
+                properties: {
+                  approverId: { type: 'string' },
+                  comment: { type: 'string' },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': { description: 'Vote recorded' },
+          '403': { description: 'Not a designated approver' },
+          '404': { description: 'Approval not found' },
+          '409': { description: 'Already resolved or already voted' },
+        },
+      },
+    },
+    '/api/allowances/{id}/approvers': {
+      put: {
+        tags: ['Approvals'],
+        summary: 'Set designated approvers',
+        description: 'Replaces the approver list. With no approvers the allowance owner approves alone.',
+        security: [{ ApiKeyAuth: [] }],
+        parameters: [
+          { $ref: '#/components/parameters/IdempotencyKey' },
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['approvers'],
+                properties: {
+                  approvers: { type: 'array', items: { type: 'string' } },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': { description: 'Approvers saved' },
+          '404': { description: 'Allowance not found' },
+        },
+      },
+    },
+    '/api/agents/{agentId}/summary': {
+      get: {
+        tags: ['Allowances'],
+        summary: 'Get agent spending summary',
+        description: 'Reports on the allowance a spend would try first; `selection` lists every allowance in the order they are tried.',
+        parameters: [
+          { name: 'agentId', in: 'path', required: true, schema: { type: 'string' } },
+          { name: 'category', in: 'query', schema: { type: 'string' }, description: 'Rank allowances for a spend in this category' },
+        ],
+        responses: {
+          '200': {
+            description: 'Agent financial summary',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    agentId: { type: 'string' },
+                    selection: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          allowanceId: { type: 'string' },
+                          ownerId: { type: 'string' },
+                          isDefault: { type: 'boolean' },
+                          priority: { type: 'integer' },
+                          status: { type: 'string' },
+                          reason: { type: 'string', enum: ['category_match', 'default', 'priority'] },
+                        },
+                      },
+                    },
+                    spending: {
+                      type: 'object',
+                      properties: {
+                        today: { type: 'string', format: 'decimal' },
+                        thisWeek: { type: 'string', format: 'decimal' },
+                        thisMonth: { type: 'string', format: 'decimal' },
+                        held: { type: 'string', format: 'decimal', description: 'Reserved by active authorization holds' },
+                      },
+                    },
+                    limits: {
+                      type: 'object',
+                      description: 'Effective limits for the current periods, including rollover',
+                      properties: {
+                        daily: { type: 'string', format: 'decimal' },
+                        weekly: { type: 'string', format: 'decimal' },
+                        monthly: { type: 'string', format: 'decimal' },
+                      },
+                    },
+                    rollover: {
+                      type: 'object',
+                      nullable: true,
+                      description: 'Per-period breakdown when rollover is enabled',
+                      properties: {
+                        daily: { $ref: '#/components/schemas/PeriodBudget' },
+                        weekly: { $ref: '#/components/schemas/PeriodBudget' },
+                        monthly: { $ref: '#/components/schemas/PeriodBudget' },
+                      },
+                    },
+                    resetsAt: {
+                      type: 'object',
+                      nullable: true,
+                      description: 'When each spending window next resets (ms timestamps)',
+                      properties: {
+                        daily: { type: 'integer' },
+                        weekly: { type: 'integer' },
+                        monthly: { type: 'integer' },
+                      },
+                    },
+                    categories: { type: 'array', items: { $ref: '#/components/schemas/CategoryUsage' } },
+                    subscriptions: {
+                      type: 'object',
+                      properties: {
+                        active: { type: 'integer' },
+                        monthlyRecurring: {
+                          type: 'object',
+                          description: 'Per currency',
+                          additionalProperties: { type: 'string', format: 'decimal' },
+                          example: { USDC: '29.99' },
+                        },
+                      },
+                    },
+                    invoices: {
+                      type: 'object',
+                      properties: {
+                        unpaidCount: { type: 'integer' },
+                        unpaidAmount: {
+                          type: 'object',
+                          description: 'Per currency',
+                          additionalProperties: { type: 'string', format: 'decimal' },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/agents/{agentId}/balances': {
+      get: {
+        tags: ['Balances'],
+        summary: 'Get prepaid balances',
+        description: 'One row per currency. `available` is the balance less what open holds keep back; spends, transfers and withdrawals can only use it.',
+        parameters: [{ name: 'agentId', in: 'path', required: true, schema: { type: 'string' } }],
+        responses: {
+          '200': { description: 'Balances', content: { 'application/json': { schema: { type: 'object', properties: { agentId: { type: 'string' }, data: { type: 'array', items: { $ref: '#/components/schemas/AgentBalance' } } } } } } },
+        },
+      },
+    },
+    '/api/agents/{agentId}/balance-history': {
+      get: {
+        tags: ['Balances'],
+        summary: 'Balance history',
+        parameters: [
+          { name: 'agentId', in: 'path', required: true, schema: { type: 'string' } },
+          { name: 'currency', in: 'query', schema: { type: 'string', enum: CURRENCIES } },
+          { name: 'limit', in: 'query', schema: { type: 'integer', default: 50 } },
+          { name: 'offset', in: 'query', schema: { type: 'integer', default: 0 } },
+        ],
+        responses: {
+          '200': { description: 'Entries, newest first', content: { 'application/json': { schema: { type: 'object', properties: { data: { type: 'array', items: { $ref: '#/components/schemas/BalanceEntry' } } } } } } },
+        },
+      },
+    },
+    '/api/agents/{agentId}/deposits': {
+      post: {
+        tags: ['Balances'],
+        summary: 'Deposit funds',
+        description: 'Credits the agent balance. Platform accounts (`platform:` IDs) cannot be deposited to.',
+        security: [{ ApiKeyAuth: [] }],
+        parameters: [
+          { $ref: '#/components/parameters/IdempotencyKey' },
+          { name: 'agentId', in: 'path', required: true, schema: { type: 'string' } },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['amount'],
+                properties: {
+                  amount: { type: 'string', format: 'decimal' },
+                  currency: { type: 'string', enum: CURRENCIES, default: 'USDC' },
+                  reference: { type: 'string', description: 'e.g. the on-chain transaction that funded it' },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': { description: 'Deposit recorded', content: { 'application/json': { schema: { type: 'object', properties: { success: { type: 'boolean' }, entry: { $ref: '#/components/schemas/BalanceEntry' } } } } } },
+          '400': { description: 'Invalid request, or a platform account' },
+        },
+      },
+    },
+    '/api/agents/{agentId}/transfers': {
+      post: {
+        tags: ['Balances'],
+        summary: 'Transfer funds',
+        description: 'Moves available funds to another agent. Platform accounts (`platform:` IDs) can neither send nor receive transfers.',
+        security: [{ ApiKeyAuth: [] }],
+        parameters: [
+          { $ref: '#/components/parameters/IdempotencyKey' },
+          { name: 'agentId', in: 'path', required: true, schema: { type: 'string' } },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['toAgentId', 'amount'],
+                properties: {
+                  toAgentId: { type: 'string' },
+                  amount: { type: 'string', format: 'decimal' },
+                  currency: { type: 'string', enum: CURRENCIES, default: 'USDC' },
+                  reference: { type: 'string' },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': { description: 'Transfer recorded; the entry is the debit on the sender', content: { 'application/json': { schema: { type: 'object', properties: { success: { type: 'boolean' }, entry: { $ref: '#/components/schemas/BalanceEntry' } } } } } },
+          '400': { description: 'Invalid request, insufficient funds, or a platform account' },
+        },
+      },
+    },
+    '/api/agents/{agentId}/withdrawals': {
+      get: {
+        tags: ['Balances'],
+        summary: 'List withdrawals',
+        parameters: [
+          { name: 'agentId', in: 'path', required: true, schema: { type: 'string' } },
+          { name: 'status', in: 'query', schema: { type: 'string', enum: ['pending', 'completed', 'cancelled'] } },
+          { name: 'limit', in: 'query', schema: { type: 'integer', default: 50 } },
+          { name: 'offset', in: 'query', schema: { type: 'integer', default: 0 } },
+        ],
+        responses: {
+          '200': { description: 'Withdrawals, newest first', content: { 'application/json': { schema: { type: 'object', properties: { data: { type: 'array', items: { $ref: '#/components/schemas/Withdrawal' } } } } } } },
+        },
+      },
+      post: {
+        tags: ['Balances'],
+        summary: 'Request withdrawal',
+        description: 'The funds leave the balance at once as a pending withdrawal, and return if it is cancelled. Platform fees are withdrawn through /api/fees/withdrawals; other platform accounts cannot be withdrawn from.',
+        security: [{ ApiKeyAuth: [] }],
+        parameters: [
+          { $ref: '#/components/parameters/IdempotencyKey' },
+          { name: 'agentId', in: 'path', required: true, schema: { type: 'string' } },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['amount'],
+                properties: {
+                  amount: { type: 'string', format: 'decimal' },
+                  currency: { type: 'string', enum: CURRENCIES, default: 'USDC' },
+                  destination: { type: 'string', description: 'e.g. a wallet address' },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': { description: 'Withdrawal pending', content: { 'application/json': { schema: { type: 'object', properties: { success: { type: 'boolean' }, withdrawal: { $ref: '#/components/schemas/Withdrawal' } } } } } },
+          '400': { description: 'Invalid request, insufficient funds, or a platform account' },
+        },
+      },
+    },
+    '/api/withdrawals/{id}/complete': {
+      post: {
+        tags: ['Balances'],
+        summary: 'Mark withdrawal paid out',
+        security: [{ ApiKeyAuth: [] }],
+        parameters: [
+          { $ref: '#/components/parameters/IdempotencyKey' },
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+        ],
+        responses: {
+          '200': { description: 'Withdrawal completed', content: { 'application/json': { schema: { type: 'object', properties: { success: { type: 'boolean' }, withdrawal: { $ref: '#/components/schemas/Withdrawal' } } } } } },
+          '404': { description: 'Withdrawal not found' },
+          '409': { description: 'Withdrawal is not pending' },
+        },
+      },
+    },
+    '/api/withdrawals/{id}/cancel': {
+      post: {
+        tags: ['Balances'],
+        summary: 'Cancel withdrawal',
+        description: 'Returns the funds to the agent balance.',
+        security: [{ ApiKeyAuth: [] }],
+        parameters: [
+          { $ref: '#/components/parameters/IdempotencyKey' },
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+        ],
+        responses: {
+          '200': { description: 'Withdrawal cancelled', content: { 'application/json': { schema: { type: 'object', properties: { success: { type: 'boolean' }, withdrawal: { $ref: '#/components/schemas/Withdrawal' } } } } } },
+          '404': { description: 'Withdrawal not found' },
+          '409': { description: 'Withdrawal is not pending' },
+        },
+      },
+    },
+    '/api/wallet/{address}/balance': {
+      get: {
+        tags: ['On-Chain'],
+        summary: 'Get wallet balances',
+        description: 'Query $OPENWORK and ETH balances on Base mainnet',
+        parameters: [
+          { name: 'address', in: 'path', required: true, schema: { type: 'string', pattern: '^0x[a-fA-F0-9]{40}$' } },
+        ],
+        responses: {
+          '200': {
+            description: 'Wallet balances',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    address: { type: 'string' },
+                    openwork: {
+                      type: 'object',
+                      properties: {
+                        balance: { type: 'string' },
+                        balanceRaw: { type: 'string' },
+                        token: { type: 'string' },
+                      },
+                    },
+                    eth: {
+                      type: 'object',
+                      properties: {
+                        balance: { type: 'string' },
+                        balanceRaw: { type: 'string' },
+                      },
+                    },
+                    chain: { type: 'string', example: 'base' },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/wallet/{address}/verify': {
+      get: {
+        tags: ['On-Chain'],
+        summary: 'Verify minimum balance',
+        parameters: [
+          { name: 'address', in: 'path', required: true, schema: { type: 'string' } },
+          { name: 'required', in: 'query', schema: { type: 'number', default: 100000 }, description: 'Required $OPENWORK amount' },
+        ],
+        responses: {
+          '200': {
+            description: 'Balance verification result',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    address: { type: 'string' },
+                    sufficient: { type: 'boolean' },
+                    balance: { type: 'string' },
+                    required: { type: 'string' },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/webhooks': {
+      post: {
+        tags: ['Webhooks'],
+        summary: 'Register webhook',
+        security: [{ ApiKeyAuth: [] }],
+        parameters: [{ $ref: '#/components/parameters/IdempotencyKey' }],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['agentId', 'webhookUrl'],
+                properties: {
+                  agentId: { type: 'string' },
+                  webhookUrl: { type: 'string', format: 'uri' },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': { description: 'Webhook registered' },
+        },
+      },
+      delete: {
+        tags: ['Webhooks'],
+        summary: 'Unregister webhook',
+        security: [{ ApiKeyAuth: [] }],
+        parameters: [{ $ref: '#/components/parameters/IdempotencyKey' }],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['agentId', 'webhookUrl'],
+                properties: {
+                  agentId: { type: 'string' },
+                  webhookUrl: { type: 'string', format: 'uri' },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': { description: 'Webhook unregistered' },
+        },
+      },
+    },
+    '/api/webhooks/{agentId}': {
+      get: {
+        tags: ['Webhooks'],
+        summary: 'List webhooks for agent',
+        parameters: [
+          { name: 'agentId', in: 'path', required: true, schema: { type: 'string' } },
+        ],
+        responses: {
           '200': {
             description: 'List of registered webhooks',
             content: {
@@ -412,6 +2066,15 @@ export const openApiSpec = {
         name: 'x-api-key',
       },
     },
+    parameters: {
+      IdempotencyKey: {
+        name: 'Idempotency-Key',
+        in: 'header',
+        required: false,
+        schema: { type: 'string', maxLength: 255 },
+        description: 'Retries with the same key get the first response back (with Idempotent-Replayed: true) instead of repeating the request. Reusing a key for a different request is a 422; a retry while the first request is still running is a 409. Keys are kept for 24 hours.',
+      },
+    },
     schemas: {
       Allowance: {
         type: 'object',
@@ -419,26 +2082,553 @@ export const openApiSpec = {
           id: { type: 'string', format: 'uuid' },
           agentId: { type: 'string' },
           ownerId: { type: 'string' },
-          dailyLimit: { type: 'number' },
-          weeklyLimit: { type: 'number' },
-          monthlyLimit: { type: 'number' },
-          spentToday: { type: 'number' },
-          spentThisWeek: { type: 'number' },
-          spentThisMonth: { type: 'number' },
-          status: { type: 'string', enum: ['active', 'paused', 'exhausted'] },
+          dailyLimit: { type: 'string', format: 'decimal' },
+          weeklyLimit: { type: 'string', format: 'decimal' },
+          monthlyLimit: { type: 'string', format: 'decimal' },
+          spentToday: { type: 'string', format: 'decimal' },
+          spentThisWeek: { type: 'string', format: 'decimal' },
+          spentThisMonth: { type: 'string', format: 'decimal' },
+          currency: { type: 'string', enum: CURRENCIES },
+          status: { type: 'string', enum: ['active', 'paused', 'exhausted', 'expired'] },
+          timezone: { type: 'string', example: 'UTC' },
+          recipientPolicy: { type: 'string', enum: ['open', 'allowlist', 'approval'] },
+          approvalThreshold: { type: 'string', format: 'decimal' },
+          approvalsRequired: { type: 'integer' },
+          rollover: { type: 'boolean' },
+          rolloverCapPercent: { type: 'integer' },
+          rolloverExpiryHours: { type: 'integer' },
+          dailyCarryover: { type: 'string', format: 'decimal', description: 'Budget carried into the current day' },
+          weeklyCarryover: { type: 'string', format: 'decimal', description: 'Budget carried into the current week' },
+          monthlyCarryover: { type: 'string', format: 'decimal', description: 'Budget carried into the current month' },
+          dayStartedAt: { type: 'integer', nullable: true, description: 'Start of the window spentToday covers' },
+          weekStartedAt: { type: 'integer', nullable: true, description: 'Start of the window spentThisWeek covers' },
+          monthStartedAt: { type: 'integer', nullable: true, description: 'Start of the window spentThisMonth covers' },
+          poolId: { type: 'string', nullable: true },
+          isDefault: { type: 'boolean' },
+          priority: { type: 'integer' },
+          maxTxPerMinute: { type: 'integer' },
+          maxTxPerHour: { type: 'integer' },
+          maxSingleAmount: { type: 'string', format: 'decimal' },
+          anomalyMultiplier: { type: 'number' },
+          cooldownAfterDenials: { type: 'integer' },
+          cooldownMinutes: { type: 'integer' },
+          cooldownUntil: { type: 'integer', nullable: true, description: 'Spends are refused until this time' },
+          startsAt: { type: 'integer', nullable: true },
+          expiresAt: { type: 'integer', nullable: true },
+          activeHoursStart: { type: 'integer', nullable: true },
+          activeHoursEnd: { type: 'integer', nullable: true },
+          activeWeekdays: { type: 'string', nullable: true, example: 'mon,tue,wed,thu,fri' },
+          warningThresholds: { type: 'string', example: '50,80,95' },
+          createdAt: { type: 'integer' },
+        },
+      },
+      PeriodBudget: {
+        type: 'object',
+        properties: {
+          base: { type: 'string', format: 'decimal', description: 'Configured limit' },
+          carried: { type: 'string', format: 'decimal', description: 'Carried over from the previous period' },
+          effective: { type: 'string', format: 'decimal', description: 'Limit in force now' },
+          carryExpiresAt: { type: 'integer', nullable: true },
+        },
+      },
+      CategoryUsage: {
+        type: 'object',
+        properties: {
+          category: { type: 'string', example: 'compute' },
+          blocked: { type: 'boolean' },
+          limits: {
+            type: 'object',
+            properties: {
+              daily: { type: 'string', format: 'decimal' },
+              weekly: { type: 'string', format: 'decimal' },
+              monthly: { type: 'string', format: 'decimal' },
+            },
+          },
+          spent: {
+            type: 'object',
+            properties: {
+              daily: { type: 'string', format: 'decimal' },
+              weekly: { type: 'string', format: 'decimal' },
+              monthly: { type: 'string', format: 'decimal' },
+            },
+          },
+        },
+      },
+      SimulatedSpend: {
+        type: 'object',
+        properties: {
+          amount: { type: 'string', format: 'decimal' },
+          category: { type: 'string' },
+          recipient: { type: 'string' },
+          allowed: { type: 'boolean' },
+          allowanceId: { type: 'string', description: 'Allowance the spend would be charged to' },
+          requiresApproval: { type: 'string', enum: ['recipient', 'threshold'], nullable: true },
+          failures: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                rule: { type: 'string', example: 'daily_limit' },
+                reason: { type: 'string', example: 'Daily limit exceeded' },
+                requiresApproval: { type: 'string', enum: ['recipient', 'threshold'] },
+              },
+            },
+          },
+          headroom: {
+            type: 'object',
+            nullable: true,
+            description: 'Left in each period after this spend (negative when over); null for unlimited periods',
+            properties: {
+              daily: { type: 'string', format: 'decimal', nullable: true },
+              weekly: { type: 'string', format: 'decimal', nullable: true },
+              monthly: { type: 'string', format: 'decimal', nullable: true },
+            },
+          },
+          selection: { $ref: '#/components/schemas/AllowanceSelection' },
+        },
+      },
+      VelocityViolation: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          allowanceId: { type: 'string' },
+          agentId: { type: 'string' },
+          rule: { type: 'string', enum: ['max_tx_per_minute', 'max_tx_per_hour', 'max_single_amount', 'anomaly', 'denial_cooldown'] },
+          action: { type: 'string', enum: ['paused', 'cooldown'] },
+          amount: { type: 'string', format: 'decimal', description: 'The spend that tripped the rule' },
+          detail: { type: 'string' },
+          createdAt: { type: 'integer' },
+        },
+      },
+      AllowanceSelection: {
+        type: 'object',
+        description: 'Which allowance was charged and why',
+        properties: {
+          reason: { type: 'string', enum: ['explicit', 'category_match', 'default', 'priority'] },
+          skipped: {
+            type: 'array',
+            description: 'Higher-ranked allowances that could not take the spend',
+            items: {
+              type: 'object',
+              properties: {
+                allowanceId: { type: 'string' },
+                reason: { type: 'string' },
+              },
+            },
+          },
+        },
+      },
+      PeriodUsage: {
+        type: 'object',
+        properties: {
+          spent: { type: 'string', format: 'decimal' },
+          held: { type: 'string', format: 'decimal' },
+        },
+      },
+      BudgetPool: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          ownerId: { type: 'string' },
+          name: { type: 'string' },
+          parentPoolId: { type: 'string', nullable: true },
+          currency: { type: 'string', enum: CURRENCIES },
+          status: { type: 'string', enum: ['active', 'paused'] },
+          timezone: { type: 'string' },
+          limits: {
+            type: 'object',
+            properties: {
+              daily: { type: 'string', format: 'decimal' },
+              weekly: { type: 'string', format: 'decimal' },
+              monthly: { type: 'string', format: 'decimal' },
+            },
+          },
+          usage: {
+            type: 'object',
+            description: 'Spent and held across every allowance in the pool subtree',
+            properties: {
+              daily: { $ref: '#/components/schemas/PeriodUsage' },
+              weekly: { $ref: '#/components/schemas/PeriodUsage' },
+              monthly: { $ref: '#/components/schemas/PeriodUsage' },
+            },
+          },
+          children: {
+            type: 'object',
+            properties: {
+              allowances: { type: 'array', items: { type: 'object' } },
+              pools: { type: 'array', items: { type: 'object' } },
+            },
+          },
+          createdAt: { type: 'integer' },
+        },
+      },
+      SpendHold: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          allowanceId: { type: 'string' },
+          agentId: { type: 'string' },
+          amount: { type: 'string', format: 'decimal' },
+          capturedAmount: { type: 'string', format: 'decimal' },
+          currency: { type: 'string', enum: CURRENCIES },
+          category: { type: 'string' },
+          recipient: { type: 'string' },
+          status: { type: 'string', enum: ['active', 'captured', 'voided', 'expired'] },
+          transactionId: { type: 'string', nullable: true },
+          expiresAt: { type: 'integer' },
+          settledAt: { type: 'integer', nullable: true },
+          createdAt: { type: 'integer' },
+        },
+      },
+      SpendApproval: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          kind: { type: 'string', enum: ['spend', 'invoice_payment', 'hold'] },
+          allowanceId: { type: 'string' },
+          agentId: { type: 'string' },
+          amount: { type: 'string', format: 'decimal' },
+          currency: { type: 'string', enum: CURRENCIES },
+          category: { type: 'string' },
+          recipient: { type: 'string' },
+          invoiceId: { type: 'string', nullable: true },
+          reason: { type: 'string' },
+          approvalsRequired: { type: 'integer' },
+          status: { type: 'string', enum: ['pending_approval', 'approved', 'rejected', 'executed', 'failed'] },
+          transactionId: { type: 'string', nullable: true },
+          holdId: { type: 'string', nullable: true },
+          failureReason: { type: 'string', nullable: true },
+          resolvedAt: { type: 'integer', nullable: true },
+          createdAt: { type: 'integer' },
+          votes: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                approverId: { type: 'string' },
+                decision: { type: 'string', enum: ['approve', 'reject'] },
+                comment: { type: 'string', nullable: true },
+                createdAt: { type: 'integer' },
+              },
+            },
+          },
+        },
+      },
+      LedgerAccount: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          kind: { type: 'string', enum: ['agent', 'owner', 'provider', 'fees', 'suspense', 'clearing'] },
+          ref: { type: 'string', description: "Agent, owner or provider ID; 'platform' for fees, suspense and clearing, which stands for funds outside the platform" },
+          currency: { type: 'string', enum: CURRENCIES },
+          createdAt: { type: 'integer' },
+        },
+      },
+      AccountBalance: {
+        type: 'object',
+        properties: {
+          debits: { type: 'string', format: 'decimal' },
+          credits: { type: 'string', format: 'decimal' },
+          balance: { type: 'string', format: 'decimal', description: 'Debits minus credits: the net value the account has received' },
+        },
+      },
+      JournalEntry: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          kind: {
+            type: 'string',
+            enum: [
+              'spend', 'invoice_payment', 'subscription_billing', 'hold_authorized', 'hold_captured', 'hold_released', 'refund',
+              'escrow_locked', 'escrow_released', 'escrow_returned', 'deposit', 'transfer', 'withdrawal', 'withdrawal_cancelled',
+            ],
+          },
+          currency: { type: 'string', enum: CURRENCIES },
+          memo: { type: 'string', nullable: true },
+          transactionId: { type: 'string', nullable: true },
+          invoiceId: { type: 'string', nullable: true },
+          subscriptionId: { type: 'string', nullable: true },
+          holdId: { type: 'string', nullable: true },
+          escrowId: { type: 'string', nullable: true },
+          withdrawalId: { type: 'string', nullable: true },
+          createdAt: { type: 'integer' },
+          postings: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                accountId: { type: 'string' },
+                direction: { type: 'string', enum: ['debit', 'credit'] },
+                amount: { type: 'string', format: 'decimal' },
+              },
+            },
+          },
+        },
+      },
+      AgentBalance: {
+        type: 'object',
+        properties: {
+          currency: { type: 'string', enum: CURRENCIES },
+          balance: { type: 'string', format: 'decimal' },
+          held: { type: 'string', format: 'decimal', description: 'Kept back by open holds' },
+          available: { type: 'string', format: 'decimal' },
+          updatedAt: { type: 'integer' },
+        },
+      },
+      BalanceEntry: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          agentId: { type: 'string' },
+          currency: { type: 'string', enum: CURRENCIES },
+          kind: { type: 'string', enum: ['deposit', 'withdrawal', 'withdrawal_cancelled', 'transfer_in', 'transfer_out', 'spend', 'receipt', 'refund_in', 'refund_out'] },
+          amount: { type: 'string', format: 'decimal', description: 'Credits are positive, debits negative' },
+          balanceAfter: { type: 'string', format: 'decimal' },
+          counterparty: { type: 'string', nullable: true },
+          transactionId: { type: 'string', nullable: true },
+          withdrawalId: { type: 'string', nullable: true },
+          reference: { type: 'string', nullable: true },
+          createdAt: { type: 'integer' },
+        },
+      },
+      Withdrawal: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          agentId: { type: 'string' },
+          amount: { type: 'string', format: 'decimal' },
+          currency: { type: 'string', enum: CURRENCIES },
+          destination: { type: 'string', nullable: true },
+          status: { type: 'string', enum: ['pending', 'completed', 'cancelled'] },
+          createdAt: { type: 'integer' },
+          settledAt: { type: 'integer', nullable: true },
+        },
+      },
+      FxRate: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          baseCurrency: { type: 'string', enum: CURRENCIES },
+          quoteCurrency: { type: 'string', enum: CURRENCIES },
+          rate: { type: 'string', format: 'decimal' },
+          effectiveAt: { type: 'integer' },
+          createdAt: { type: 'integer' },
+        },
+      },
+      Transaction: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          allowanceId: { type: 'string' },
+          amount: { type: 'string', format: 'decimal' },
+          currency: { type: 'string', enum: CURRENCIES },
+          category: { type: 'string' },
+          recipient: { type: 'string' },
+          status: { type: 'string', enum: ['success', 'failed'] },
+          kind: { type: 'string', enum: ['spend', 'refund'] },
+          reversesId: { type: 'string', nullable: true, description: 'For a refund, the spend it gives back' },
+          refundedAmount: { type: 'string', format: 'decimal', description: 'For a spend, the total refunded so far' },
+          reason: { type: 'string', nullable: true },
+          invoiceId: { type: 'string', nullable: true },
+          subscriptionId: { type: 'string', nullable: true },
+          originalAmount: { type: 'string', format: 'decimal', nullable: true, description: 'What was owed, when it was converted from another currency' },
+          originalCurrency: { type: 'string', nullable: true },
+          fxRate: { type: 'string', format: 'decimal', nullable: true, description: 'Units of currency per unit of originalCurrency' },
+          fxRateId: { type: 'string', nullable: true },
+          feeAmount: { type: 'string', format: 'decimal', description: 'Platform fee charged on a payment, or given back by a refund' },
+          timestamp: { type: 'integer' },
+        },
+      },
+      TransactionLine: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          transactionId: { type: 'string' },
+          kind: { type: 'string', enum: ['payee', 'fee'] },
+          recipient: { type: 'string', description: 'The payee, or platform:fees' },
+          amount: { type: 'string', format: 'decimal' },
+          feeScheduleId: { type: 'string', nullable: true, description: 'Null for the built-in default fee' },
           createdAt: { type: 'integer' },
         },
       },
+      FeeSchedule: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          scope: { type: 'string', enum: ['global', 'provider', 'category'] },
+          ref: { type: 'string', nullable: true },
+          kind: { type: 'string', enum: ['flat', 'percentage', 'tiered'] },
+          currency: { type: 'string', nullable: true },
+          bps: { type: 'integer' },
+          flatAmount: { type: 'string', format: 'decimal' },
+          tiers: { type: 'array', items: { type: 'object', properties: { upTo: { type: 'string', format: 'decimal', nullable: true }, bps: { type: 'integer' }, flatAmount: { type: 'string', format: 'decimal' } } } },
+          createdAt: { type: 'integer' },
+        },
+      },
+      RefundResult: {
+        type: 'object',
+        properties: {
+          success: { type: 'boolean' },
+          refundId: { type: 'string' },
+          transactionId: { type: 'string', description: 'The refunded spend' },
+          amount: { type: 'string', format: 'decimal' },
+          refundedAmount: { type: 'string', format: 'decimal', description: 'Total refunded on the spend so far' },
+          invoiceStatus: { type: 'string', enum: ['refunded', 'partially_refunded'] },
+        },
+      },
       Invoice: {
         type: 'object',
         properties: {
           id: { type: 'string', format: 'uuid' },
           issuerId: { type: 'string' },
           recipientId: { type: 'string' },
-          amount: { type: 'number' },
-          currency: { type: 'string' },
-          status: { type: 'string', enum: ['draft', 'sent', 'paid', 'cancelled'] },
+          amount: { type: 'string', format: 'decimal' },
+          currency: { type: 'string', enum: CURRENCIES },
+          status: { type: 'string', enum: INVOICE_STATUSES },
+          dueAt: { type: 'integer' },
+          expiresAt: { type: 'integer', nullable: true },
+          memo: { type: 'string', nullable: true },
+          allowPartial: { type: 'boolean' },
+          paidAmount: { type: 'string', format: 'decimal', description: 'Paid so far, in the invoice currency' },
+          subtotal: { type: 'string', format: 'decimal', nullable: true, description: 'amount = subtotal - discountTotal + taxTotal' },
+          discountTotal: { type: 'string', format: 'decimal' },
+          taxTotal: { type: 'string', format: 'decimal' },
+          taxRate: { type: 'number', nullable: true },
+          discountPercent: { type: 'number', nullable: true },
+          discountAmount: { type: 'string', format: 'decimal', nullable: true },
+          createdAt: { type: 'integer' },
+        },
+      },
+      Escrow: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          invoiceId: { type: 'string' },
+          payerId: { type: 'string' },
+          allowanceId: { type: 'string' },
+          transactionId: { type: 'string', description: 'Spend that locked the funds' },
+          amount: { type: 'string', format: 'decimal' },
+          currency: { type: 'string', enum: CURRENCIES, description: 'The allowance\'s' },
+          status: { type: 'string', enum: ['held', 'released', 'disputed', 'refunded', 'split'], description: 'refunded and split settle a disputed escrow' },
+          autoReleaseAt: { type: 'integer' },
+          releasedBy: { type: 'string', nullable: true, description: 'The payer, system at the deadline, or the validator whose vote settled its dispute' },
+          disputeReason: { type: 'string', nullable: true },
+          releasedAmount: { type: 'string', format: 'decimal', nullable: true, description: 'Paid out to the issuer when it settled' },
+          feeAmount: { type: 'string', format: 'decimal', nullable: true, description: 'Platform fee charged on the released amount' },
+          settledAt: { type: 'integer', nullable: true },
+          createdAt: { type: 'integer' },
+        },
+      },
+      Dispute: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          invoiceId: { type: 'string' },
+          openedBy: { type: 'string' },
+          reason: { type: 'string' },
+          previousStatus: { type: 'string', enum: INVOICE_STATUSES, description: 'Where a release returns the invoice to' },
+          votesRequired: { type: 'integer', description: 'A majority of the validators' },
+          status: { type: 'string', enum: ['open', 'resolved'] },
+          outcome: { type: 'string', enum: ['refund', 'release', 'split'], nullable: true },
+          payerShare: { type: 'number', nullable: true },
+          resolvedAt: { type: 'integer', nullable: true },
+          createdAt: { type: 'integer' },
+        },
+      },
+      EvidenceInput: {
+        type: 'object',
+        required: ['reference'],
+        properties: {
+          reference: { type: 'string', maxLength: 2048, description: 'e.g. a URL, content hash or on-chain tx' },
+          description: { type: 'string', maxLength: 2000 },
+        },
+      },
+      DisputeEvidence: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          disputeId: { type: 'string' },
+          submittedBy: { type: 'string' },
+          reference: { type: 'string' },
+          description: { type: 'string', nullable: true },
+          createdAt: { type: 'integer' },
+        },
+      },
+      DisputeVote: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          disputeId: { type: 'string' },
+          validatorId: { type: 'string' },
+          outcome: { type: 'string', enum: ['refund', 'release', 'split'] },
+          payerShare: { type: 'number', nullable: true },
+          comment: { type: 'string', nullable: true },
+          createdAt: { type: 'integer' },
+        },
+      },
+      TimelineEntry: {
+        type: 'object',
+        description: 'Other fields depend on the event',
+        properties: {
+          at: { type: 'integer' },
+          event: { type: 'string', enum: ['status', 'payment', 'refund', 'escrow_locked', 'escrow_released', 'escrow_refunded', 'escrow_split', 'dispute_opened', 'dispute_evidence', 'dispute_vote', 'dispute_resolved'] },
+          actor: { type: 'string', nullable: true },
+          amount: { type: 'string', format: 'decimal' },
+          currency: { type: 'string', enum: CURRENCIES },
+        },
+        additionalProperties: true,
+      },
+      Installment: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          invoiceId: { type: 'string' },
+          sequence: { type: 'integer' },
+          amount: { type: 'string', format: 'decimal' },
           dueAt: { type: 'integer' },
+          allowanceId: { type: 'string', nullable: true },
+          status: { type: 'string', enum: ['pending', 'paid'] },
+          attempts: { type: 'integer', description: 'Failed charges so far' },
+          lastError: { type: 'string', nullable: true },
+          transactionId: { type: 'string', nullable: true, description: 'Payment that covered it' },
+          paidAt: { type: 'integer', nullable: true },
+        },
+      },
+      InvoiceLineItem: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          invoiceId: { type: 'string' },
+          position: { type: 'integer' },
+          description: { type: 'string' },
+          quantity: { type: 'string', format: 'decimal' },
+          unitPrice: { type: 'string', format: 'decimal' },
+          taxRate: { type: 'number', nullable: true },
+          discountPercent: { type: 'number', nullable: true },
+          discountAmount: { type: 'string', format: 'decimal', nullable: true },
+          amount: { type: 'string', format: 'decimal', description: 'quantity x unitPrice' },
+          discount: { type: 'string', format: 'decimal', description: "The line's own discount plus its share of the invoice's" },
+          tax: { type: 'string', format: 'decimal' },
+          total: { type: 'string', format: 'decimal' },
+        },
+      },
+      Discount: {
+        type: 'object',
+        description: 'Either a percentage or a fixed amount',
+        properties: {
+          percent: { type: 'number', minimum: 0, maximum: 100 },
+          amount: { type: 'string', format: 'decimal' },
+        },
+      },
+      InvoiceTransition: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          invoiceId: { type: 'string' },
+          fromStatus: { type: 'string', enum: INVOICE_STATUSES },
+          toStatus: { type: 'string', enum: INVOICE_STATUSES },
+          actor: { type: 'string', description: "Agent that made the change, or 'system' for expiry" },
+          reason: { type: 'string', nullable: true },
           createdAt: { type: 'integer' },
         },
       },
@@ -449,7 +2639,8 @@ export const openApiSpec = {
           subscriberId: { type: 'string' },
           providerId: { type: 'string' },
           planId: { type: 'string' },
-          amount: { type: 'number' },
+          amount: { type: 'string', format: 'decimal' },
+          currency: { type: 'string', enum: CURRENCIES },
           interval: { type: 'string', enum: ['daily', 'weekly', 'monthly'] },
           nextBillingDate: { type: 'integer' },
           status: { type: 'string', enum: ['active', 'paused', 'cancelled'] },
@@ -1,35 +1,275 @@
 import { z } from 'zod';
+import { isValidTimezone } from './core/periods';
+import { DEFAULT_CURRENCY, isSupportedCurrency } from './core/money';
+import { MAX_RATE_DECIMALS, isValidRate } from './core/fx';
+import { MAX_QUANTITY_DECIMALS, isValidQuantity } from './core/lineItems';
+import { isPlatformHolder } from './core/balances';
+
+const timezoneSchema = z.string().refine(isValidTimezone, 'Unknown timezone');
+const recipientPolicySchema = z.enum(['open', 'allowlist', 'approval']);
+const weekdaySchema = z.enum(['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun']);
+const warningThresholdsSchema = z.array(z.number().int().min(1).max(99));
+const currencySchema = z.string().refine(isSupportedCurrency, 'Unsupported currency');
+
+// Amounts are decimal strings ("12.50") so they survive JSON exactly; plain numbers are still
+// accepted. Routes convert them to base units once the currency is known.
+const moneySchema = z.union([
+  z.string().trim().regex(/^\d+(\.\d+)?$/, 'Amount must be a non-negative decimal'),
+  z.number().min(0).transform(String),
+]);
+const positiveMoneySchema = moneySchema.refine(a => /[1-9]/.test(a), 'Amount must be positive');
 
 // Allowance schemas
+export const categoryLimitSchema = z.object({
+  dailyLimit: moneySchema.optional().default('0'),
+  weeklyLimit: moneySchema.optional().default('0'),
+  monthlyLimit: moneySchema.optional().default('0'),
+  blocked: z.boolean().optional().default(false),
+});
+
 export const createAllowanceSchema = z.object({
   agentId: z.string().min(1, 'Agent ID is required'),
   ownerId: z.string().min(1, 'Owner ID is required'),
-  dailyLimit: z.number().min(0).optional().default(0),
-  weeklyLimit: z.number().min(0).optional().default(0),
-  monthlyLimit: z.number().min(0).optional().default(0),
+  dailyLimit: moneySchema.optional().default('0'),
+  weeklyLimit: moneySchema.optional().default('0'),
+  monthlyLimit: moneySchema.optional().default('0'),
+  currency: currencySchema.optional().default(DEFAULT_CURRENCY),
+  timezone: timezoneSchema.optional().default('UTC'),
+  categoryLimits: z.array(categoryLimitSchema.extend({
+    category: z.string().min(1, 'Category is required'),
+  })).optional().default([]),
+  recipientPolicy: recipientPolicySchema.optional().default('open'),
+  allowedRecipients: z.array(z.string().min(1)).optional().default([]),
+  deniedRecipients: z.array(z.string().min(1)).optional().default([]),
+  approvalThreshold: moneySchema.optional().default('0'),
+  approvalsRequired: z.number().int().min(1).optional().default(1),
+  approvers: z.array(z.string().min(1)).optional().default([]),
+  rollover: z.boolean().optional().default(false),
+  rolloverCapPercent: z.number().int().min(0).max(100).optional().default(100),
+  rolloverExpiryHours: z.number().int().min(0).optional().default(0),
+  poolId: z.string().optional(),
+  isDefault: z.boolean().optional().default(false),
+  priority: z.number().int().optional().default(0),
+  maxTxPerMinute: z.number().int().min(0).optional().default(0),
+  maxTxPerHour: z.number().int().min(0).optional().default(0),
+  maxSingleAmount: moneySchema.optional().default('0'),
+  anomalyMultiplier: z.number().min(0).optional().default(0),
+  cooldownAfterDenials: z.number().int().min(0).optional().default(0),
+  cooldownMinutes: z.number().int().min(1).optional().default(15),
+  startsAt: z.number().int().positive().optional(),
+  expiresAt: z.number().int().positive().optional(),
+  activeHoursStart: z.number().int().min(0).max(23).optional(),
+  activeHoursEnd: z.number().int().min(1).max(24).optional(),
+  activeWeekdays: z.array(weekdaySchema).optional(),
+  warningThresholds: warningThresholdsSchema.optional().default([50, 80, 95]),
+}).refine(a => !a.startsAt || !a.expiresAt || a.expiresAt > a.startsAt, {
+  message: 'expiresAt must be after startsAt',
+  path: ['expiresAt'],
+}).refine(a => (a.activeHoursStart === undefined) === (a.activeHoursEnd === undefined), {
+  message: 'activeHoursStart and activeHoursEnd must be set together',
+  path: ['activeHoursEnd'],
 });
 
 export const updateAllowanceSchema = z.object({
-  dailyLimit: z.number().min(0).optional(),
-  weeklyLimit: z.number().min(0).optional(),
-  monthlyLimit: z.number().min(0).optional(),
+  dailyLimit: moneySchema.optional(),
+  weeklyLimit: moneySchema.optional(),
+  monthlyLimit: moneySchema.optional(),
+  timezone: timezoneSchema.optional(),
+  recipientPolicy: recipientPolicySchema.optional(),
+  approvalThreshold: moneySchema.optional(),
+  approvalsRequired: z.number().int().min(1).optional(),
+  rollover: z.boolean().optional(),
+  rolloverCapPercent: z.number().int().min(0).max(100).optional(),
+  rolloverExpiryHours: z.number().int().min(0).optional(),
+  poolId: z.string().nullable().optional(),
+  isDefault: z.boolean().optional(),
+  priority: z.number().int().optional(),
+  maxTxPerMinute: z.number().int().min(0).optional(),
+  maxTxPerHour: z.number().int().min(0).optional(),
+  maxSingleAmount: moneySchema.optional(),
+  anomalyMultiplier: z.number().min(0).optional(),
+  cooldownAfterDenials: z.number().int().min(0).optional(),
+  cooldownMinutes: z.number().int().min(1).optional(),
+  startsAt: z.number().int().positive().nullable().optional(),
+  expiresAt: z.number().int().positive().nullable().optional(),
+  activeHoursStart: z.number().int().min(0).max(23).nullable().optional(),
+  activeHoursEnd: z.number().int().min(1).max(24).nullable().optional(),
+  activeWeekdays: z.array(weekdaySchema).nullable().optional(),
+  warningThresholds: warningThresholdsSchema.optional(),
   status: z.enum(['active', 'paused']).optional(),
 });
 
+export const recipientRuleSchema = z.object({
+  recipient: z.string().min(1, 'Recipient is required'),
+  kind: z.enum(['allow', 'deny']),
+});
+
+// Approval schemas
+export const setApproversSchema = z.object({
+  approvers: z.array(z.string().min(1)),
+});
+
+export const approvalDecisionSchema = z.object({
+  approverId: z.string().min(1, 'Approver ID is required'),
+  comment: z.string().optional(),
+});
+
 // Invoice schemas
+const percentSchema = z.number().min(0).max(100);
+const discountSchema = z.union([
+  z.object({ percent: percentSchema }).strict(),
+  z.object({ amount: positiveMoneySchema }).strict(),
+]);
+
+export const lineItemSchema = z.object({
+  description: z.string().min(1, 'Description is required'),
+  quantity: z.union([z.string().trim(), z.number().transform(String)])
+    .refine(isValidQuantity, `Quantity must be a positive decimal with at most ${MAX_QUANTITY_DECIMALS} decimal places`),
+  unitPrice: moneySchema,
+  taxRate: percentSchema.optional(), // defaults to the invoice's
+  discount: discountSchema.optional(),
+});
+
 export const createInvoiceSchema = z.object({
   issuerId: z.string().min(1, 'Issuer ID is required'),
   recipientId: z.string().min(1, 'Recipient ID is required'),
-  amount: z.number().positive('Amount must be positive'),
-  currency: z.string().optional().default('USDC'),
+  amount: positiveMoneySchema.optional(), // or lineItems, whose total it becomes
+  lineItems: z.array(lineItemSchema).min(1).optional(),
+  taxRate: percentSchema.optional(),
+  discount: discountSchema.optional(), // off the whole invoice
+  currency: currencySchema.optional().default(DEFAULT_CURRENCY),
   dueAt: z.number().optional(),
+  expiresAt: z.number().int().optional(),
   memo: z.string().optional(),
+  allowPartial: z.boolean().optional().default(false),
+}).refine(i => (i.amount === undefined) !== (i.lineItems === undefined), {
+  message: 'Give either an amount or line items',
+  path: ['amount'],
+});
+
+export const invoiceTransitionSchema = z.object({
+  actorId: z.string().min(1, 'Actor ID is required'), // must be the issuer
+  reason: z.string().optional(),
+  expiresAt: z.number().int().optional(), // send only: ms timestamp after which an unpaid invoice expires
 });
 
 export const payInvoiceSchema = z.object({
   invoiceId: z.string().min(1, 'Invoice ID is required'),
   agentId: z.string().min(1, 'Agent ID is required'),
   allowanceId: z.string().optional(),
+  amount: positiveMoneySchema.optional(), // in the invoice's currency; defaults to all that is outstanding
+});
+
+export const escrowInvoiceSchema = z.object({
+  agentId: z.string().min(1, 'Agent ID is required'), // the invoice's recipient
+  allowanceId: z.string().optional(),
+  releaseAfterSeconds: z.number().int().min(60).max(90 * 24 * 60 * 60).optional(), // auto-release deadline; defaults to 7 days
+});
+
+export const escrowActionSchema = z.object({
+  actorId: z.string().min(1, 'Actor ID is required'), // must be the payer
+});
+
+export const evidenceSchema = z.object({
+  reference: z.string().min(1, 'Reference is required').max(2048), // e.g. a URL, content hash or on-chain tx
+  description: z.string().max(2000).optional(),
+});
+
+export const openDisputeSchema = z.object({
+  actorId: z.string().min(1, 'Actor ID is required'), // the issuer or recipient
+  reason: z.string().min(1, 'Reason is required'),
+  validators: z.array(z.string().min(1)).min(1, 'At least one validator is required').max(25),
+  evidence: z.array(evidenceSchema).max(50).optional(),
+});
+
+export const addEvidenceSchema = evidenceSchema.extend({
+  actorId: z.string().min(1, 'Actor ID is required'), // a party to the dispute
+});
+
+export const disputeVoteSchema = z.object({
+  validatorId: z.string().min(1, 'Validator ID is required'),
+  outcome: z.enum(['refund', 'release', 'split']),
+  payerShare: z.number().min(0).max(100).optional(), // split only: percent back to the payer; defaults to 50
+  comment: z.string().optional(),
+});
+
+export const installmentPlanSchema = z.object({
+  actorId: z.string().min(1, 'Actor ID is required'), // must be the issuer
+  count: z.number().int().min(2).max(120),
+  interval: z.enum(['daily', 'weekly', 'monthly']),
+  firstDueAt: z.number().int().optional(), // ms timestamp; defaults to now
+  allowanceId: z.string().optional(), // charged as installments fall due
+});
+
+export const refundSchema = z.object({
+  providerId: z.string().min(1, 'Provider ID is required'),
+  amount: positiveMoneySchema.optional(), // defaults to everything not refunded yet
+  reason: z.string().optional(),
+});
+
+// Balance schemas
+export const depositSchema = z.object({
+  amount: positiveMoneySchema,
+  currency: currencySchema.optional().default(DEFAULT_CURRENCY),
+  reference: z.string().optional(), // e.g. the on-chain transaction that funded it
+});
+
+export const transferSchema = z.object({
+  toAgentId: z.string().min(1, 'Recipient agent ID is required')
+    .refine(id => !isPlatformHolder(id), 'Platform accounts cannot receive transfers'),
+  amount: positiveMoneySchema,
+  currency: currencySchema.optional().default(DEFAULT_CURRENCY),
+  reference: z.string().optional(),
+});
+
+export const withdrawalSchema = z.object({
+  amount: positiveMoneySchema,
+  currency: currencySchema.optional().default(DEFAULT_CURRENCY),
+  destination: z.string().optional(), // e.g. a wallet address
+});
+
+// Platform fee schemas
+const bpsSchema = z.number().int().min(0).max(10_000); // basis points: 100 = 1%
+
+export const feeScheduleSchema = z.object({
+  scope: z.enum(['global', 'provider', 'category']),
+  ref: z.string().min(1).optional(), // provider ID or category
+  kind: z.enum(['flat', 'percentage', 'tiered']),
+  currency: currencySchema.optional(), // required for flat and tiered; a percentage without one applies to every currency
+  bps: bpsSchema.optional(),
+  flatAmount: moneySchema.optional(),
+  tiers: z.array(z.object({
+    upTo: positiveMoneySchema.optional(), // omit for the open-ended top tier
+    bps: bpsSchema.optional().default(0),
+    flatAmount: moneySchema.optional(),
+  })).min(1).optional(),
+}).refine(s => s.scope === 'global' || s.ref, {
+  message: 'Provider and category schedules need a ref',
+  path: ['ref'],
+}).refine(s => s.kind === 'percentage' || s.currency, {
+  message: 'Flat and tiered schedules need a currency',
+  path: ['currency'],
+}).refine(s => s.kind !== 'percentage' || s.bps !== undefined, {
+  message: 'A percentage schedule needs bps',
+  path: ['bps'],
+}).refine(s => s.kind !== 'flat' || s.flatAmount !== undefined, {
+  message: 'A flat schedule needs a flatAmount',
+  path: ['flatAmount'],
+}).refine(s => s.kind !== 'tiered' || s.tiers, {
+  message: 'A tiered schedule needs tiers',
+  path: ['tiers'],
+});
+
+// FX schemas
+export const fxRateSchema = z.object({
+  base: currencySchema,
+  quote: currencySchema,
+  rate: z.union([z.string().trim(), z.number().transform(String)])
+    .refine(isValidRate, `Rate must be a positive decimal with at most ${MAX_RATE_DECIMALS} decimal places`),
+  effectiveAt: z.number().int().optional(), // ms timestamp; defaults to now
+}).refine(r => r.base !== r.quote, {
+  message: 'Base and quote currencies must differ',
+  path: ['quote'],
 });
 
 // Subscription schemas
@@ -37,11 +277,70 @@ export const createSubscriptionSchema = z.object({
   subscriberId: z.string().min(1, 'Subscriber ID is required'),
   providerId: z.string().min(1, 'Provider ID is required'),
   planId: z.string().min(1, 'Plan ID is required'),
-  amount: z.number().positive('Amount must be positive'),
+  amount: positiveMoneySchema,
+  currency: currencySchema.optional().default(DEFAULT_CURRENCY),
   interval: z.enum(['daily', 'weekly', 'monthly']).optional().default('monthly'),
   allowanceId: z.string().min(1, 'Allowance ID is required'),
 });
 
+// Budget pool schemas
+export const createPoolSchema = z.object({
+  ownerId: z.string().min(1, 'Owner ID is required'),
+  name: z.string().min(1, 'Name is required'),
+  parentPoolId: z.string().optional(),
+  currency: currencySchema.optional().default(DEFAULT_CURRENCY),
+  dailyLimit: moneySchema.optional().default('0'),
+  weeklyLimit: moneySchema.optional().default('0'),
+  monthlyLimit: moneySchema.optional().default('0'),
+  timezone: timezoneSchema.optional().default('UTC'),
+});
+
+export const updatePoolSchema = z.object({
+  name: z.string().min(1).optional(),
+  parentPoolId: z.string().nullable().optional(),
+  dailyLimit: moneySchema.optional(),
+  weeklyLimit: moneySchema.optional(),
+  monthlyLimit: moneySchema.optional(),
+  timezone: timezoneSchema.optional(),
+  status: z.enum(['active', 'paused']).optional(),
+});
+
+// Hold schemas
+export const createHoldSchema = z.object({
+  agentId: z.string().min(1, 'Agent ID is required'),
+  amount: positiveMoneySchema,
+  currency: currencySchema.optional().default(DEFAULT_CURRENCY),
+  category: z.string().min(1, 'Category is required'),
+  recipient: z.string().min(1, 'Recipient is required'),
+  allowanceId: z.string().optional(),
+  ttlSeconds: z.number().int().min(1).max(7 * 24 * 60 * 60).optional().default(15 * 60),
+});
+
+export const captureHoldSchema = z.object({
+  amount: positiveMoneySchema.optional(),
+});
+
+// Simulation schemas
+export const plannedSpendSchema = z.object({
+  amount: positiveMoneySchema,
+  category: z.string().min(1, 'Category is required'),
+  recipient: z.string().min(1).optional(),
+  allowanceId: z.string().optional(),
+});
+
+// Either a single planned spend or a batch evaluated cumulatively
+export const simulateSpendSchema = z.union([
+  z.object({
+    agentId: z.string().min(1, 'Agent ID is required'),
+    currency: currencySchema.optional().default(DEFAULT_CURRENCY),
+    spends: z.array(plannedSpendSchema).min(1).max(100),
+  }),
+  plannedSpendSchema.extend({
+    agentId: z.string().min(1, 'Agent ID is required'),
+    currency: currencySchema.optional().default(DEFAULT_CURRENCY),
+  }),
+]);
+
 // Query schemas
 export const paginationSchema = z.object({
   limit: z.coerce.number().min(1).max(100).optional().default(50),
@@ -56,8 +355,28 @@ export const agentFilterSchema = paginationSchema.extend({
 // Types
 export type CreateAllowance = z.infer<typeof createAllowanceSchema>;
 export type UpdateAllowance = z.infer<typeof updateAllowanceSchema>;
+export type CategoryLimitInput = z.infer<typeof categoryLimitSchema>;
+export type ApprovalDecision = z.infer<typeof approvalDecisionSchema>;
 export type CreateInvoice = z.infer<typeof createInvoiceSchema>;
+export type InvoiceTransitionRequest = z.infer<typeof invoiceTransitionSchema>;
 export type PayInvoice = z.infer<typeof payInvoiceSchema>;
+export type InstallmentPlanRequest = z.infer<typeof installmentPlanSchema>;
+export type EscrowInvoice = z.infer<typeof escrowInvoiceSchema>;
+export type EscrowAction = z.infer<typeof escrowActionSchema>;
+export type OpenDispute = z.infer<typeof openDisputeSchema>;
+export type AddEvidence = z.infer<typeof addEvidenceSchema>;
+export type DisputeVoteRequest = z.infer<typeof disputeVoteSchema>;
 export type CreateSubscription = z.infer<typeof createSubscriptionSchema>;
+export type CreatePool = z.infer<typeof createPoolSchema>;
+export type UpdatePool = z.infer<typeof updatePoolSchema>;
+export type CreateHold = z.infer<typeof createHoldSchema>;
+export type CaptureHold = z.infer<typeof captureHoldSchema>;
+export type Refund = z.infer<typeof refundSchema>;
+export type FeeScheduleRequest = z.infer<typeof feeScheduleSchema>;
+export type FxRateInput = z.infer<typeof fxRateSchema>;
+export type Deposit = z.infer<typeof depositSchema>;
+export type Transfer = z.infer<typeof transferSchema>;
+export type WithdrawalRequest = z.infer<typeof withdrawalSchema>;
+export type SimulateSpend = z.infer<typeof simulateSpendSchema>;
 export type Pagination = z.infer<typeof paginationSchema>;
 export type AgentFilter = z.infer<typeof agentFilterSchema>;
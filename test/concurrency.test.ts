@@ -0,0 +1,192 @@
+/**
+ * Concurrency suite: several processes race spends, invoice payments and hold captures
+ * against one SQLite file, the way separate server instances would. Whatever interleaving
+ * they get, no limit, balance or invoice total may be exceeded.
+ */
+
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { fork } from 'node:child_process';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import type { WorkerJob, WorkerResult } from './concurrencyWorker';
+
+const WORKERS = 4;
+const CURRENCY = 'USDC';
+
+const dir = mkdtempSync(path.join(tmpdir(), 'agent-finance-'));
+process.env.DATABASE_PATH = path.join(dir, 'test.db');
+
+// Loaded once DATABASE_PATH is set, so nothing here opens the real database
+let app: Awaited<ReturnType<typeof load>>;
+
+async function load() {
+  const { db } = await import('../src/db');
+  const schema = await import('../src/db/schema');
+  const { migrate } = await import('drizzle-orm/better-sqlite3/migrator');
+  const { eq } = await import('drizzle-orm');
+  const { v4: uuidv4 } = await import('uuid');
+  const { toUnits } = await import('../src/core/money');
+  const { deposit, getBalance } = await import('../src/core/balances');
+  const { createInvoice, sendInvoice } = await import('../src/core/ledger');
+  const { authorizeHold } = await import('../src/core/holds');
+
+  migrate(db, { migrationsFolder: path.join(__dirname, '..', 'drizzle') });
+  return { db, schema, eq, uuidv4, toUnits, deposit, getBalance, createInvoice, sendInvoice, authorizeHold };
+}
+
+const units = (amount: string) => app.toUnits(amount, CURRENCY);
+
+async function fundedAllowance(agentId: string, dailyLimit: string, funds: string) {
+  const id = app.uuidv4();
+  app.db.insert(app.schema.allowances).values({
+    id,
+    agentId,
+    ownerId: `owner-of-${agentId}`,
+    dailyLimit: units(dailyLimit),
+    currency: CURRENCY,
+    status: 'active',
+    createdAt: Date.now(),
+  }).run();
+  const { success } = await app.deposit(agentId, CURRENCY, units(funds));
+  assert.ok(success);
+  return id;
+}
+
+function allowanceRow(id: string) {
+  return app.db.select().from(app.schema.allowances).where(app.eq(app.schema.allowances.id, id)).get()!;
+}
+
+function spendsOf(allowanceId: string) {
+  return app.db.select().from(app.schema.transactions)
+    .where(app.eq(app.schema.transactions.allowanceId, allowanceId))
+    .all()
+    .filter(t => t.kind === 'spend' && t.status === 'success');
+}
+
+/**
+ * Start one process per job, wait until every one has loaded, then let them all go at once
+ */
+async function hammer(jobs: WorkerJob[]): Promise<WorkerResult[]> {
+  const workers = jobs.map(job => fork(path.join(__dirname, 'concurrencyWorker.ts'), [JSON.stringify(job)], {
+    execArgv: ['--import', 'tsx'],
+    env: process.env,
+  }));
+
+  await Promise.all(workers.map(worker => new Promise<void>((resolve, reject) => {
+    worker.once('message', () => resolve());
+    worker.once('error', reject);
+  })));
+
+  const results = await Promise.all(workers.map(worker => new Promise<WorkerResult[]>((resolve, reject) => {
+    worker.once('message', results => resolve(results as WorkerResult[]));
+    worker.once('exit', code => reject(new Error(`Worker exited with ${code}`)));
+    worker.send('go');
+  })));
+  await Promise.all(workers.map(worker => worker.exitCode !== null ? undefined : new Promise(resolve => worker.once('exit', resolve))));
+
+  const flat = results.flat();
+  assert.deepEqual(flat.filter(r => r.reason === 'Database error'), [], 'a worker hit a database error');
+  return flat;
+}
+
+const succeeded = (results: WorkerResult[]) => results.filter(r => r.success).length;
+
+before(async () => {
+  app = await load();
+});
+
+after(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('spends', () => {
+  test('parallel spends never exceed the daily limit', async () => {
+    const allowanceId = await fundedAllowance('agent-limit', '100', '1000');
+
+    const results = await hammer(Array.from({ length: WORKERS }, () => ({ op: 'spend', agentId: 'agent-limit', amount: units('7').toString(), times: 8 })));
+
+    // 14 x 7 fits in 100; a 15th would not
+    assert.equal(succeeded(results), 14);
+    assert.equal(allowanceRow(allowanceId).spentToday, units('98'));
+    assert.equal(spendsOf(allowanceId).length, 14);
+    assert.equal(app.getBalance('agent-limit', CURRENCY), units('902'));
+  });
+
+  test('parallel spends never overdraw the prepaid balance', async () => {
+    const allowanceId = await fundedAllowance('agent-funds', '0', '50');
+
+    const results = await hammer(Array.from({ length: WORKERS }, () => ({ op: 'spend', agentId: 'agent-funds', amount: units('7').toString(), times: 4 })));
+
+    assert.equal(succeeded(results), 7);
+    assert.equal(spendsOf(allowanceId).length, 7);
+    assert.equal(app.getBalance('agent-funds', CURRENCY), units('1'));
+  });
+});
+
+describe('invoice payments', () => {
+  async function sentInvoice(payerId: string, amount: string, allowPartial: boolean) {
+    const created = await app.createInvoice(`issuer-of-${payerId}`, payerId, units(amount), undefined, CURRENCY, { allowPartial });
+    assert.ok(created.success);
+    const sent = await app.sendInvoice(created.invoiceId!, `issuer-of-${payerId}`);
+    assert.ok(sent.success);
+    return created.invoiceId!;
+  }
+
+  function invoiceRow(id: string) {
+    return app.db.select().from(app.schema.invoices).where(app.eq(app.schema.invoices.id, id)).get()!;
+  }
+
+  test('an invoice is paid once however many payments race', async () => {
+    const allowanceId = await fundedAllowance('agent-payer', '0', '1000');
+    const invoiceId = await sentInvoice('agent-payer', '30', false);
+
+    const results = await hammer(Array.from({ length: WORKERS }, () => ({ op: 'pay', agentId: 'agent-payer', invoiceId, times: 3 })));
+
+    assert.equal(succeeded(results), 1);
+    const invoice = invoiceRow(invoiceId);
+    assert.equal(invoice.status, 'paid');
+    assert.equal(invoice.paidAmount, units('30'));
+    assert.equal(spendsOf(allowanceId).length, 1);
+    assert.equal(app.getBalance('agent-payer', CURRENCY), units('970'));
+  });
+
+  test('partial payments never pay more than the invoice total', async () => {
+    const allowanceId = await fundedAllowance('agent-partial', '0', '1000');
+    const invoiceId = await sentInvoice('agent-partial', '100', true);
+
+    const results = await hammer(Array.from({ length: WORKERS }, () => ({ op: 'pay', agentId: 'agent-partial', invoiceId, amount: units('30').toString(), times: 3 })));
+
+    assert.equal(succeeded(results), 3);
+    const invoice = invoiceRow(invoiceId);
+    assert.equal(invoice.status, 'partially_paid');
+    assert.equal(invoice.paidAmount, units('90'));
+    assert.equal(spendsOf(allowanceId).length, 3);
+  });
+});
+
+describe('holds', () => {
+  test('parallel holds never reserve more than the daily limit', async () => {
+    const allowanceId = await fundedAllowance('agent-holds', '100', '1000');
+
+    const results = await hammer(Array.from({ length: WORKERS }, () => ({ op: 'hold', agentId: 'agent-holds', amount: units('15').toString(), times: 3 })));
+
+    assert.equal(succeeded(results), 6);
+    const holds = app.db.select().from(app.schema.spendHolds).where(app.eq(app.schema.spendHolds.allowanceId, allowanceId)).all();
+    assert.equal(holds.filter(h => h.status === 'active').length, 6);
+  });
+
+  test('a hold is captured once however many captures race', async () => {
+    const allowanceId = await fundedAllowance('agent-capture', '100', '1000');
+    const hold = await app.authorizeHold('agent-capture', units('20'), 'general', 'provider-1');
+    assert.ok(hold.success);
+
+    const results = await hammer(Array.from({ length: WORKERS }, () => ({ op: 'capture', holdId: hold.holdId!, times: 3 })));
+
+    assert.equal(succeeded(results), 1);
+    assert.equal(allowanceRow(allowanceId).spentToday, units('20'));
+    assert.equal(spendsOf(allowanceId).length, 1);
+    assert.equal(app.getBalance('agent-capture', CURRENCY), units('980'));
+  });
+});
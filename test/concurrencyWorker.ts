@@ -0,0 +1,49 @@
+/**
+ * One process of the concurrency suite. It loads the app against DATABASE_PATH, reports
+ * ready, and on the go message fires `times` copies of its operation at once.
+ */
+
+import { deductSpend } from '../src/core/allowance';
+import { authorizeHold, captureHold } from '../src/core/holds';
+import { payInvoice } from '../src/core/ledger';
+
+export type WorkerJob =
+  | { op: 'spend'; agentId: string; amount: string; times: number }
+  | { op: 'pay'; agentId: string; invoiceId: string; amount?: string; times: number }
+  | { op: 'hold'; agentId: string; amount: string; times: number }
+  | { op: 'capture'; holdId: string; times: number };
+
+export interface WorkerResult {
+  success: boolean;
+  reason?: string;
+}
+
+async function run(job: WorkerJob): Promise<WorkerResult> {
+  switch (job.op) {
+    case 'spend': {
+      const { success, reason } = await deductSpend(job.agentId, BigInt(job.amount), 'general', 'provider-1');
+      return { success, reason };
+    }
+    case 'pay': {
+      const options = job.amount ? { invoiceAmount: BigInt(job.amount) } : {};
+      const { success, error } = await payInvoice(job.invoiceId, job.agentId, undefined, options);
+      return { success, reason: error };
+    }
+    case 'hold': {
+      const { success, reason } = await authorizeHold(job.agentId, BigInt(job.amount), 'general', 'provider-1');
+      return { success, reason };
+    }
+    case 'capture': {
+      const { success, error } = await captureHold(job.holdId);
+      return { success, reason: error };
+    }
+  }
+}
+
+const job: WorkerJob = JSON.parse(process.argv[2]);
+
+process.once('message', async () => {
+  const results = await Promise.all(Array.from({ length: job.times }, () => run(job)));
+  process.send!(results, () => process.disconnect());
+});
+process.send!('ready');
@@ -0,0 +1,130 @@
+/**
+ * Installment plans: charging the installments that fall due, and refunding a payment made
+ * on a plan before the invoice is paid off.
+ */
+
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+
+const CURRENCY = 'USDC';
+const DAY = 24 * 60 * 60 * 1000;
+
+const dir = mkdtempSync(path.join(tmpdir(), 'agent-finance-'));
+process.env.DATABASE_PATH = path.join(dir, 'test.db');
+
+// Loaded once DATABASE_PATH is set, so nothing here opens the real database
+let app: Awaited<ReturnType<typeof load>>;
+
+async function load() {
+  const { db } = await import('../src/db');
+  const schema = await import('../src/db/schema');
+  const { migrate } = await import('drizzle-orm/better-sqlite3/migrator');
+  const { eq } = await import('drizzle-orm');
+  const { v4: uuidv4 } = await import('uuid');
+  const { toUnits } = await import('../src/core/money');
+  const { deposit, getBalance } = await import('../src/core/balances');
+  const { cancelInvoice, createInvoice, processDueInstallments, sendInvoice } = await import('../src/core/ledger');
+  const { createInstallmentPlan, getInstallments } = await import('../src/core/installments');
+  const { refundInvoice, refundTransaction } = await import('../src/core/refunds');
+
+  migrate(db, { migrationsFolder: path.join(__dirname, '..', 'drizzle') });
+  return {
+    db, schema, eq, uuidv4, toUnits, deposit, getBalance,
+    cancelInvoice, createInvoice, processDueInstallments, sendInvoice,
+    createInstallmentPlan, getInstallments, refundInvoice, refundTransaction,
+  };
+}
+
+const units = (amount: string) => app.toUnits(amount, CURRENCY);
+
+async function fundedAgent(agentId: string, funds: string) {
+  app.db.insert(app.schema.allowances).values({
+    id: app.uuidv4(),
+    agentId,
+    ownerId: `owner-of-${agentId}`,
+    currency: CURRENCY,
+    status: 'active',
+    createdAt: Date.now(),
+  }).run();
+  const { success } = await app.deposit(agentId, CURRENCY, units(funds));
+  assert.ok(success);
+}
+
+/**
+ * A sent invoice split into three monthly installments, the first of them due already
+ */
+async function planInvoice(payerId: string, amount: string) {
+  const issuerId = `issuer-of-${payerId}`;
+  const created = await app.createInvoice(issuerId, payerId, units(amount), undefined, CURRENCY);
+  assert.ok(created.success);
+  const plan = await app.createInstallmentPlan(created.invoiceId!, issuerId, { count: 3, interval: 'monthly', firstDueAt: Date.now() - DAY });
+  assert.ok(plan.success);
+  assert.ok((await app.sendInvoice(created.invoiceId!, issuerId)).success);
+  return { invoiceId: created.invoiceId!, issuerId };
+}
+
+function invoiceRow(id: string) {
+  return app.db.select().from(app.schema.invoices).where(app.eq(app.schema.invoices.id, id)).get()!;
+}
+
+before(async () => {
+  app = await load();
+});
+
+after(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('installment plans', () => {
+  test('the installments that are due are charged', async () => {
+    await fundedAgent('agent-due', '1000');
+    const { invoiceId } = await planInvoice('agent-due', '90');
+
+    const run = await app.processDueInstallments();
+
+    assert.equal(run.charged, 1);
+    const invoice = invoiceRow(invoiceId);
+    assert.equal(invoice.status, 'partially_paid');
+    assert.equal(invoice.paidAmount, units('30'));
+    assert.deepEqual(app.getInstallments(invoiceId).map(i => i.status), ['paid', 'pending', 'pending']);
+    assert.equal(app.getBalance('agent-due', CURRENCY), units('970'));
+  });
+
+  test('one installment can be refunded, which ends the plan', async () => {
+    await fundedAgent('agent-refund', '1000');
+    const { invoiceId, issuerId } = await planInvoice('agent-refund', '90');
+    await app.processDueInstallments();
+    const [first] = app.getInstallments(invoiceId);
+
+    const refund = await app.refundTransaction(first.transactionId!, { providerId: issuerId, amount: units('10') });
+
+    assert.ok(refund.success, refund.error);
+    assert.equal(refund.invoiceStatus, 'partially_refunded');
+    assert.equal(invoiceRow(invoiceId).status, 'partially_refunded');
+    assert.equal(app.getBalance('agent-refund', CURRENCY), units('980'));
+
+    // The later installments fall due, but the refunded invoice takes no more payments
+    const run = await app.processDueInstallments(Date.now() + 70 * DAY);
+    assert.equal(run.details.filter(d => d.invoiceId === invoiceId).length, 0);
+    assert.equal(app.getBalance('agent-refund', CURRENCY), units('980'));
+  });
+
+  test('a part-paid invoice is closed by refunding it, not by cancelling it', async () => {
+    await fundedAgent('agent-close', '1000');
+    const { invoiceId, issuerId } = await planInvoice('agent-close', '90');
+    await app.processDueInstallments();
+
+    const cancelled = await app.cancelInvoice(invoiceId, issuerId);
+    assert.equal(cancelled.success, false);
+    assert.equal(invoiceRow(invoiceId).status, 'partially_paid');
+
+    const refund = await app.refundInvoice(invoiceId, { providerId: issuerId });
+    assert.ok(refund.success, refund.error);
+    assert.equal(refund.invoiceStatus, 'refunded');
+    assert.equal(invoiceRow(invoiceId).status, 'refunded');
+    assert.equal(app.getBalance('agent-close', CURRENCY), units('1000'));
+  });
+});